@@ -1,9 +1,11 @@
 import './global.css';
 import { StatusBar } from 'expo-status-bar';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { QueryClient } from '@tanstack/react-query';
+import { PersistQueryClientProvider } from '@tanstack/react-query-persist-client';
 import AppNavigator from './src/navigation/AppNavigator';
 import { ErrorBoundary } from './src/components/common/ErrorBoundary';
 import { logger } from './src/utils/logger';
+import { queryPersistOptions } from './src/config/queryPersistence';
 
 // Create a client for React Query with comprehensive error handling
 const queryClient = new QueryClient({
@@ -31,10 +33,11 @@ queryClient.getMutationCache().config.onError = (error) => {
 export default function App() {
   return (
     <ErrorBoundary>
-      <QueryClientProvider client={queryClient}>
+      {/* Restores the last feed and leaderboard from disk before queries run */}
+      <PersistQueryClientProvider client={queryClient} persistOptions={queryPersistOptions}>
         <AppNavigator />
         <StatusBar style="auto" />
-      </QueryClientProvider>
+      </PersistQueryClientProvider>
     </ErrorBoundary>
   );
 }
@@ -1,10 +1,10 @@
 module.exports = function(api) {
   api.cache(true);
   return {
-    presets: ['babel-preset-expo'],
-    plugins: [
+    presets: [
+      ['babel-preset-expo', { jsxImportSource: 'nativewind' }],
+      // Also adds the worklets plugin Reanimated 4 needs
       'nativewind/babel',
-      'react-native-reanimated/plugin',
     ],
   };
 };
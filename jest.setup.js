@@ -1,6 +1,10 @@
 // Jest setup file for React Native Testing Library
 import '@testing-library/jest-native/extend-expect';
 
+// The Supabase client is created on import; tests mock the calls they make
+process.env.EXPO_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY = 'test-anon-key';
+
 // Mock expo-secure-store
 jest.mock('expo-secure-store', () => ({
   getItemAsync: jest.fn(),
@@ -32,4 +36,4 @@ jest.mock('@react-navigation/native', () => ({
 }));
 
 // Silence the warning: Animated: `useNativeDriver` is not supported
-jest.mock('react-native/Libraries/Animated/NativeAnimatedHelper');
+jest.mock('react-native/src/private/animated/NativeAnimatedHelper');
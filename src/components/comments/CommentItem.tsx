@@ -0,0 +1,164 @@
+/**
+ * CommentItem Component
+ *
+ * Displays a comment with its author, actions for the author (and delete
+ * for moderators), and an expandable list of replies for top-level comments
+ */
+
+import React, { useState } from 'react';
+import { View, Text, Image, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import type { CommentWithUser } from '../../types/comment.types';
+import { useComments, useDeleteComment } from '../../hooks/useComments';
+import { useIsCommentQueued } from '../../hooks/useOutbox';
+import { useAuthStore } from '../../store/authStore';
+import { RequireRole } from '../common/RequireRole';
+
+interface CommentItemProps {
+  comment: CommentWithUser;
+  onReply?: (comment: CommentWithUser) => void;
+  onEdit: (comment: CommentWithUser) => void;
+}
+
+/**
+ * Format a timestamp relative to now, e.g. "5m" or "3d"
+ */
+export const formatRelativeTime = (timestamp: string): string => {
+  const seconds = Math.max(0, Math.floor((Date.now() - new Date(timestamp).getTime()) / 1000));
+
+  if (seconds < 60) return 'now';
+  if (seconds < 60 * 60) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 24 * 60 * 60) return `${Math.floor(seconds / (60 * 60))}h`;
+  if (seconds < 7 * 24 * 60 * 60) return `${Math.floor(seconds / (24 * 60 * 60))}d`;
+
+  return new Date(timestamp).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+export const CommentItem: React.FC<CommentItemProps> = ({ comment, onReply, onEdit }) => {
+  const currentUserId = useAuthStore((state) => state.user?.id);
+  const deleteCommentMutation = useDeleteComment();
+  const isQueued = useIsCommentQueued(comment.id);
+  const [showReplies, setShowReplies] = useState(false);
+
+  const isReply = comment.parent_id !== null;
+  const isOwn = comment.user_id === currentUserId;
+  const isEdited = comment.updated_at !== comment.created_at;
+  const username = comment.user?.username || 'Unknown';
+  const avatarUrl = comment.user?.avatar_url;
+
+  const {
+    data: repliesData,
+    isLoading: isLoadingReplies,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useComments(comment.video_id, comment.id, showReplies && !isReply);
+
+  const replies = repliesData?.pages.flatMap((page) => page.data) ?? [];
+
+  const handleDelete = () => {
+    Alert.alert('Delete comment?', 'This will also delete any replies.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => deleteCommentMutation.mutate({ comment }),
+      },
+    ]);
+  };
+
+  return (
+    <View className={`flex-row ${isReply ? 'mt-3' : 'py-3'}`}>
+      {/* Author Avatar */}
+      {avatarUrl ? (
+        <Image
+          source={{ uri: avatarUrl }}
+          className={`${isReply ? 'w-7 h-7' : 'w-9 h-9'} rounded-full bg-gray-200 mr-3`}
+          resizeMode="cover"
+        />
+      ) : (
+        <View
+          className={`${isReply ? 'w-7 h-7' : 'w-9 h-9'} rounded-full bg-blue-100 items-center justify-center mr-3`}
+        >
+          <Text className="text-blue-600 font-bold">{username.charAt(0).toUpperCase()}</Text>
+        </View>
+      )}
+
+      <View className="flex-1">
+        {/* Author and Time */}
+        <View className="flex-row items-center">
+          <Text className="text-gray-900 text-sm font-semibold">{username}</Text>
+          <Text className="text-gray-400 text-xs ml-2">
+            {isQueued
+              ? 'Waiting for connection…'
+              : comment.isPending
+                ? 'Posting…'
+                : formatRelativeTime(comment.created_at)}
+            {isEdited && !comment.isPending ? ' · edited' : ''}
+          </Text>
+        </View>
+
+        {/* Body */}
+        <Text className="text-gray-800 text-sm mt-0.5">{comment.body}</Text>
+
+        {/* Actions */}
+        {!comment.isPending && (
+          <View className="flex-row mt-1.5">
+            {onReply && (
+              <TouchableOpacity onPress={() => onReply(comment)} className="mr-4">
+                <Text className="text-gray-500 text-xs font-semibold">Reply</Text>
+              </TouchableOpacity>
+            )}
+            {isOwn ? (
+              <>
+                <TouchableOpacity onPress={() => onEdit(comment)} className="mr-4">
+                  <Text className="text-gray-500 text-xs font-semibold">Edit</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={handleDelete}>
+                  <Text className="text-red-500 text-xs font-semibold">Delete</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <RequireRole roles={['moderator']}>
+                <TouchableOpacity onPress={handleDelete}>
+                  <Text className="text-red-500 text-xs font-semibold">Remove</Text>
+                </TouchableOpacity>
+              </RequireRole>
+            )}
+          </View>
+        )}
+
+        {/* Replies */}
+        {!isReply && comment.reply_count > 0 && (
+          <TouchableOpacity onPress={() => setShowReplies(!showReplies)} className="mt-2">
+            <Text className="text-blue-600 text-xs font-semibold">
+              {showReplies
+                ? 'Hide replies'
+                : `View ${comment.reply_count} ${comment.reply_count === 1 ? 'reply' : 'replies'}`}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {showReplies && (
+          <View>
+            {replies.map((reply) => (
+              <CommentItem key={reply.id} comment={reply} onEdit={onEdit} />
+            ))}
+
+            {(isLoadingReplies || isFetchingNextPage) && (
+              <ActivityIndicator size="small" color="#2563eb" className="mt-2 self-start" />
+            )}
+
+            {hasNextPage && !isFetchingNextPage && (
+              <TouchableOpacity onPress={() => fetchNextPage()} className="mt-2">
+                <Text className="text-blue-600 text-xs font-semibold">More replies</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
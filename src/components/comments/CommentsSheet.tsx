@@ -0,0 +1,208 @@
+/**
+ * CommentsSheet Component
+ *
+ * Bottom sheet listing a video's comments, with a composer for posting
+ * comments, replying to a comment, or editing one of your own
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  Pressable,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import type { CommentWithUser } from '../../types/comment.types';
+import { useComments, useCreateComment, useUpdateComment } from '../../hooks/useComments';
+import { MAX_COMMENT_LENGTH } from '../../services/api/comment.service';
+import { CommentItem } from './CommentItem';
+
+interface CommentsSheetProps {
+  videoId: string;
+  commentCount: number;
+  visible: boolean;
+  onClose: () => void;
+}
+
+export const CommentsSheet: React.FC<CommentsSheetProps> = ({
+  videoId,
+  commentCount,
+  visible,
+  onClose,
+}) => {
+  const [text, setText] = useState('');
+  const [replyTo, setReplyTo] = useState<CommentWithUser | null>(null);
+  const [editing, setEditing] = useState<CommentWithUser | null>(null);
+
+  const {
+    data,
+    isLoading,
+    error,
+    refetch,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useComments(videoId, null, visible);
+  const createCommentMutation = useCreateComment();
+  const updateCommentMutation = useUpdateComment();
+
+  const comments = data?.pages.flatMap((page) => page.data) ?? [];
+  const canSubmit = text.trim().length > 0;
+
+  const handleReply = (comment: CommentWithUser) => {
+    setEditing(null);
+    setReplyTo(comment);
+  };
+
+  const handleEdit = (comment: CommentWithUser) => {
+    setReplyTo(null);
+    setEditing(comment);
+    setText(comment.body);
+  };
+
+  const handleCancelContext = () => {
+    if (editing) {
+      setText('');
+    }
+    setReplyTo(null);
+    setEditing(null);
+  };
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+
+    if (editing) {
+      updateCommentMutation.mutate({ commentId: editing.id, body: text });
+    } else {
+      createCommentMutation.mutate({ videoId, body: text, parentId: replyTo?.id ?? null });
+    }
+
+    setText('');
+    setReplyTo(null);
+    setEditing(null);
+  };
+
+  const handleEndReached = () => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  };
+
+  const renderEmpty = () => {
+    if (isLoading) {
+      return (
+        <View className="items-center justify-center py-12">
+          <ActivityIndicator size="large" color="#2563eb" />
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View className="items-center justify-center py-12 px-6">
+          <Text className="text-gray-600 text-center mb-4">Could not load comments</Text>
+          <TouchableOpacity onPress={() => refetch()} className="bg-blue-600 px-6 py-2 rounded-lg">
+            <Text className="text-white font-semibold">Try Again</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <View className="items-center justify-center py-12 px-6">
+        <Text className="text-4xl mb-3">💬</Text>
+        <Text className="text-gray-900 font-semibold mb-1">No comments yet</Text>
+        <Text className="text-gray-500 text-center">Be the first to share your thoughts</Text>
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        className="flex-1"
+      >
+        {/* Backdrop */}
+        <Pressable onPress={onClose} className="flex-1 bg-black/40" />
+
+        <View className="h-[70%] bg-white rounded-t-3xl">
+          {/* Header */}
+          <View className="items-center pt-2 pb-3 border-b border-gray-100">
+            <View className="w-10 h-1 rounded-full bg-gray-300 mb-3" />
+            <Text className="text-gray-900 font-bold">
+              {commentCount} {commentCount === 1 ? 'comment' : 'comments'}
+            </Text>
+            <TouchableOpacity onPress={onClose} className="absolute right-4 top-5">
+              <Text className="text-gray-500 text-lg">✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Comment List */}
+          <FlatList
+            data={comments}
+            renderItem={({ item }) => (
+              <CommentItem comment={item} onReply={handleReply} onEdit={handleEdit} />
+            )}
+            keyExtractor={(item) => item.id}
+            ListEmptyComponent={renderEmpty}
+            ListFooterComponent={
+              isFetchingNextPage ? (
+                <ActivityIndicator size="small" color="#2563eb" className="py-4" />
+              ) : null
+            }
+            onEndReached={handleEndReached}
+            onEndReachedThreshold={0.5}
+            keyboardShouldPersistTaps="handled"
+            contentContainerStyle={{ paddingHorizontal: 16, flexGrow: 1 }}
+          />
+
+          {/* Composer */}
+          <View className="border-t border-gray-100 px-4 pt-2 pb-6">
+            {(replyTo || editing) && (
+              <View className="flex-row items-center justify-between mb-2">
+                <Text className="text-gray-500 text-xs">
+                  {editing
+                    ? 'Editing your comment'
+                    : `Replying to @${replyTo?.user?.username || 'Unknown'}`}
+                </Text>
+                <TouchableOpacity onPress={handleCancelContext}>
+                  <Text className="text-gray-500 text-xs font-semibold">Cancel</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            <View className="flex-row items-end">
+              <TextInput
+                value={text}
+                onChangeText={setText}
+                placeholder={replyTo ? 'Add a reply…' : 'Add a comment…'}
+                placeholderTextColor="#9ca3af"
+                maxLength={MAX_COMMENT_LENGTH}
+                multiline
+                className="flex-1 max-h-24 bg-gray-100 rounded-2xl px-4 py-2 text-gray-900"
+              />
+              <TouchableOpacity
+                onPress={handleSubmit}
+                disabled={!canSubmit}
+                className="ml-3 mb-1"
+              >
+                <Text
+                  className={`font-semibold ${canSubmit ? 'text-blue-600' : 'text-gray-300'}`}
+                >
+                  {editing ? 'Save' : 'Post'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
@@ -0,0 +1,2 @@
+export { CommentsSheet } from './CommentsSheet';
+export { CommentItem } from './CommentItem';
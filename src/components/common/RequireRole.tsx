@@ -0,0 +1,21 @@
+/**
+ * RequireRole Component
+ *
+ * Renders its children only for users holding one of the given roles
+ */
+
+import React from 'react';
+import { useRole } from '../../hooks/useRole';
+import type { UserRole } from '../../types/user.types';
+
+interface RequireRoleProps {
+  roles: UserRole[];
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+export const RequireRole: React.FC<RequireRoleProps> = ({ roles, fallback = null, children }) => {
+  const { hasRole } = useRole();
+
+  return <>{hasRole(...roles) ? children : fallback}</>;
+};
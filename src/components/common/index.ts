@@ -10,3 +10,4 @@ export { Input } from './Input';
 export { LoadingSpinner } from './LoadingSpinner';
 export { ErrorMessage } from './ErrorMessage';
 export { SplashScreen } from './SplashScreen';
+export { RequireRole } from './RequireRole';
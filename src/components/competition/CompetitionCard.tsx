@@ -0,0 +1,86 @@
+/**
+ * CompetitionCard Component
+ * 
+ * Displays a competition summary with status, dance style and submission window
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import type { Competition, CompetitionStatus } from '../../types/competition.types';
+import { isSubmissionWindowOpen } from '../../services/api/competition.service';
+
+interface CompetitionCardProps {
+  competition: Competition;
+  index: number;
+  onPress: (competition: Competition) => void;
+}
+
+/**
+ * Get status badge styling and label
+ */
+export const getStatusStyle = (status: CompetitionStatus) => {
+  switch (status) {
+    case 'open':
+      return { badge: 'bg-green-100', text: 'text-green-700', label: 'Open' };
+    case 'judging':
+      return { badge: 'bg-purple-100', text: 'text-purple-700', label: 'Judging' };
+    case 'closed':
+      return { badge: 'bg-gray-200', text: 'text-gray-700', label: 'Closed' };
+    default:
+      return { badge: 'bg-yellow-100', text: 'text-yellow-700', label: 'Draft' };
+  }
+};
+
+/**
+ * Format a timestamp for the submission window
+ */
+export const formatCompetitionDate = (timestamp: string): string => {
+  return new Date(timestamp).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+export const CompetitionCard: React.FC<CompetitionCardProps> = ({
+  competition,
+  index,
+  onPress,
+}) => {
+  const style = getStatusStyle(competition.status);
+  const acceptingEntries = isSubmissionWindowOpen(competition);
+
+  return (
+    <Animated.View entering={FadeInDown.delay(index * 50).springify()}>
+      <TouchableOpacity
+        onPress={() => onPress(competition)}
+        activeOpacity={0.8}
+        className="p-4 mb-3 rounded-xl border-2 border-gray-200 bg-white shadow-sm"
+      >
+        <View className="flex-row justify-between items-center mb-2">
+          <Text className="text-gray-900 text-lg font-semibold flex-1 mr-3" numberOfLines={1}>
+            {competition.title}
+          </Text>
+          <View className={`px-3 py-1 rounded-full ${style.badge}`}>
+            <Text className={`text-xs font-semibold ${style.text}`}>{style.label}</Text>
+          </View>
+        </View>
+
+        <Text className="text-blue-600 text-sm font-medium mb-2">
+          💃 {competition.dance_style}
+        </Text>
+
+        <Text className="text-gray-500 text-sm">
+          {formatCompetitionDate(competition.opens_at)} – {formatCompetitionDate(competition.closes_at)}
+        </Text>
+
+        {acceptingEntries && (
+          <Text className="text-green-600 text-xs font-semibold mt-2">
+            Accepting entries
+          </Text>
+        )}
+      </TouchableOpacity>
+    </Animated.View>
+  );
+};
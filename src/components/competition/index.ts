@@ -0,0 +1 @@
+export { CompetitionCard } from './CompetitionCard';
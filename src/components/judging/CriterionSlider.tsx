@@ -0,0 +1,58 @@
+/**
+ * CriterionSlider Component
+ * 
+ * Score slider for a single rubric criterion with its weight and current value
+ */
+
+import React from 'react';
+import { View, Text } from 'react-native';
+import Slider from '@react-native-community/slider';
+import type { RubricCriterion } from '../../types/judging.types';
+
+interface CriterionSliderProps {
+  criterion: RubricCriterion;
+  value: number;
+  onChange: (criterionId: string, value: number) => void;
+  disabled?: boolean;
+}
+
+export const CriterionSlider: React.FC<CriterionSliderProps> = ({
+  criterion,
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  return (
+    <View className="mb-5">
+      <View className="flex-row justify-between items-end mb-1">
+        <View className="flex-1 mr-3">
+          <Text className="text-gray-900 text-base font-semibold">
+            {criterion.name}
+          </Text>
+          <Text className="text-gray-500 text-xs">
+            Weight ×{criterion.weight}
+          </Text>
+        </View>
+        <Text className="text-blue-600 text-lg font-bold">
+          {value}/{criterion.max_score}
+        </Text>
+      </View>
+
+      {criterion.description && (
+        <Text className="text-gray-500 text-sm mb-1">{criterion.description}</Text>
+      )}
+
+      <Slider
+        value={value}
+        minimumValue={0}
+        maximumValue={criterion.max_score}
+        step={0.5}
+        disabled={disabled}
+        onValueChange={(newValue) => onChange(criterion.id, newValue)}
+        minimumTrackTintColor="#2563eb"
+        maximumTrackTintColor="#d1d5db"
+        thumbTintColor="#2563eb"
+      />
+    </View>
+  );
+};
@@ -0,0 +1 @@
+export { CriterionSlider } from './CriterionSlider';
@@ -1,12 +1,23 @@
 /**
  * LeaderboardItem Component
  * 
- * Displays an individual leaderboard entry with rank, user info, and score
+ * Displays an individual leaderboard entry with rank, user info, the entry's
+ * video thumbnail and score.
+ * Rank changes slide the entry into its new position and briefly highlight it.
  */
 
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { View, Text, Image } from 'react-native';
-import Animated, { FadeInDown } from 'react-native-reanimated';
+import Animated, {
+  FadeIn,
+  FadeInDown,
+  FadeOut,
+  LinearTransition,
+  useAnimatedStyle,
+  useSharedValue,
+  withSequence,
+  withTiming,
+} from 'react-native-reanimated';
 import type { LeaderboardEntryWithUser } from '../../types/leaderboard.types';
 
 interface LeaderboardItemProps {
@@ -46,19 +57,55 @@ const getRankStyle = (rank: number) => {
   }
 };
 
+// How long the rank change indicator stays visible
+const RANK_CHANGE_DISPLAY_MS = 3000;
+
 export const LeaderboardItem: React.FC<LeaderboardItemProps> = ({ entry, index }) => {
   const rank = entry.rank || index + 1;
   const username = entry.user?.username || 'Unknown User';
   const avatarUrl = entry.user?.avatar_url;
+  const thumbnailUrl = entry.video?.thumbnail_url;
   const score = entry.score;
 
   const style = getRankStyle(rank);
 
+  const previousRank = useRef(rank);
+  const [rankChange, setRankChange] = useState(0);
+  const highlight = useSharedValue(0);
+
+  // Flash the entry and show how many places it moved when its rank changes
+  useEffect(() => {
+    const change = previousRank.current - rank;
+    previousRank.current = rank;
+    if (change === 0) return;
+
+    setRankChange(change);
+    highlight.value = withSequence(
+      withTiming(1, { duration: 200 }),
+      withTiming(0, { duration: 1200 })
+    );
+
+    const timeout = setTimeout(() => setRankChange(0), RANK_CHANGE_DISPLAY_MS);
+    return () => clearTimeout(timeout);
+  }, [rank, highlight]);
+
+  const highlightStyle = useAnimatedStyle(() => ({
+    opacity: highlight.value,
+  }));
+
   return (
     <Animated.View 
       entering={FadeInDown.delay(index * 50).springify()}
+      layout={LinearTransition.springify()}
       className={`flex-row items-center p-4 mb-3 rounded-xl border-2 ${style.container} shadow-sm`}
     >
+      {/* Rank Change Highlight */}
+      <Animated.View
+        pointerEvents="none"
+        style={highlightStyle}
+        className={`absolute inset-0 rounded-xl ${rankChange > 0 ? 'bg-green-100' : 'bg-red-100'}`}
+      />
+
       {/* Rank Badge */}
       <View className="items-center justify-center mr-4">
         <View 
@@ -94,11 +141,33 @@ export const LeaderboardItem: React.FC<LeaderboardItemProps> = ({ entry, index }
         <Text className="text-gray-900 text-lg font-semibold" numberOfLines={1}>
           {username}
         </Text>
-        <Text className="text-gray-500 text-sm">
-          Rank #{rank}
-        </Text>
+        <View className="flex-row items-center">
+          <Text className="text-gray-500 text-sm">
+            Rank #{rank}
+          </Text>
+          {rankChange !== 0 && (
+            <Animated.Text
+              entering={FadeIn}
+              exiting={FadeOut}
+              className={`ml-2 text-sm font-semibold ${
+                rankChange > 0 ? 'text-green-600' : 'text-red-600'
+              }`}
+            >
+              {rankChange > 0 ? '▲' : '▼'} {Math.abs(rankChange)}
+            </Animated.Text>
+          )}
+        </View>
       </View>
 
+      {/* Video Thumbnail */}
+      {thumbnailUrl && (
+        <Image
+          source={{ uri: thumbnailUrl }}
+          className="w-10 h-14 rounded-md bg-gray-900 mr-3"
+          resizeMode="cover"
+        />
+      )}
+
       {/* Score */}
       <View className="items-end">
         <Text className="text-gray-900 text-2xl font-bold">
@@ -0,0 +1,79 @@
+/**
+ * PlacementItem Component
+ * 
+ * Displays where a user placed in a competition, with the competition's status
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import type { CompetitionPlacement } from '../../types/competition.types';
+import { formatCompetitionDate, getStatusStyle } from '../competition/CompetitionCard';
+
+interface PlacementItemProps {
+  placement: CompetitionPlacement;
+  onPress?: (placement: CompetitionPlacement) => void;
+}
+
+/**
+ * Get a medal for podium finishes in closed competitions
+ */
+const getMedal = (rank: number | null): string | null => {
+  switch (rank) {
+    case 1:
+      return '🥇';
+    case 2:
+      return '🥈';
+    case 3:
+      return '🥉';
+    default:
+      return null;
+  }
+};
+
+export const PlacementItem: React.FC<PlacementItemProps> = ({ placement, onPress }) => {
+  const { competition } = placement;
+  const style = getStatusStyle(competition.status);
+  const isFinal = competition.status === 'closed';
+  const medal = isFinal ? getMedal(placement.rank) : null;
+
+  return (
+    <TouchableOpacity
+      onPress={() => onPress?.(placement)}
+      disabled={!onPress}
+      activeOpacity={0.8}
+      className="flex-row items-center p-3 mb-2 rounded-xl border border-gray-200 bg-white"
+    >
+      {/* Placement */}
+      <View className="w-12 h-12 rounded-full bg-blue-50 items-center justify-center mr-3">
+        {medal ? (
+          <Text className="text-2xl">{medal}</Text>
+        ) : (
+          <Text className="text-blue-600 font-bold">
+            {placement.rank ? `#${placement.rank}` : '–'}
+          </Text>
+        )}
+      </View>
+
+      {/* Competition */}
+      <View className="flex-1">
+        <Text className="text-gray-900 font-semibold" numberOfLines={1}>
+          {competition.title}
+        </Text>
+        <Text className="text-gray-500 text-xs" numberOfLines={1}>
+          {placement.video?.title ? `${placement.video.title} · ` : ''}
+          {formatCompetitionDate(competition.closes_at)}
+        </Text>
+      </View>
+
+      {/* Score and Status */}
+      <View className="items-end ml-2">
+        <Text className="text-gray-900 font-bold">{placement.score}</Text>
+        <View className={`px-2 py-0.5 rounded-full mt-1 ${style.badge}`}>
+          <Text className={`text-xs font-semibold ${style.text}`}>
+            {isFinal ? 'Final' : style.label}
+          </Text>
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+};
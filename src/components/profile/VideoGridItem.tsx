@@ -0,0 +1,55 @@
+/**
+ * VideoGridItem Component
+ * 
+ * Square tile for a video in a profile's video grid, showing its thumbnail
+ * (or title when there is none), view count and duration
+ */
+
+import React from 'react';
+import { View, Text, Image, Dimensions } from 'react-native';
+import type { Video } from '../../types/video.types';
+import { formatDuration } from '../../utils/videoMetadata';
+
+interface VideoGridItemProps {
+  video: Video;
+  columns?: number;
+}
+
+const GRID_GAP = 2;
+
+export const VideoGridItem: React.FC<VideoGridItemProps> = ({ video, columns = 3 }) => {
+  const size = (Dimensions.get('window').width - GRID_GAP * (columns - 1)) / columns;
+
+  return (
+    <View
+      style={{ width: size, height: size * 1.3, marginBottom: GRID_GAP }}
+      className="bg-gray-900 overflow-hidden"
+    >
+      {video.thumbnail_url ? (
+        <Image
+          source={{ uri: video.thumbnail_url }}
+          className="w-full h-full"
+          resizeMode="cover"
+        />
+      ) : (
+        <View className="flex-1 items-center justify-center p-2">
+          <Text className="text-white/80 text-xs text-center" numberOfLines={3}>
+            {video.title}
+          </Text>
+        </View>
+      )}
+
+      {/* View Count */}
+      <View className="absolute bottom-1 left-1 flex-row items-center">
+        <Text className="text-white text-xs font-semibold">▶ {video.views.toLocaleString()}</Text>
+      </View>
+
+      {/* Duration */}
+      {video.duration_ms ? (
+        <View className="absolute bottom-1 right-1 bg-black/60 rounded px-1">
+          <Text className="text-white text-xs font-semibold">{formatDuration(video.duration_ms)}</Text>
+        </View>
+      ) : null}
+    </View>
+  );
+};
@@ -0,0 +1,2 @@
+export { VideoGridItem } from './VideoGridItem';
+export { PlacementItem } from './PlacementItem';
@@ -0,0 +1,83 @@
+/**
+ * ThumbnailPicker Component
+ *
+ * Strip of frames from the picked video; the selected frame becomes the
+ * video's thumbnail and poster image
+ */
+
+import React from 'react';
+import { View, Text, Image, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import type { VideoFrame } from '../../types/video.types';
+import { formatDuration } from '../../utils/videoMetadata';
+
+interface ThumbnailPickerProps {
+  frames: VideoFrame[];
+  isExtracting: boolean;
+  selectedUri?: string;
+  onSelect: (frame: VideoFrame) => void;
+  disabled?: boolean;
+}
+
+const FRAME_WIDTH = 72;
+const FRAME_HEIGHT = 96;
+
+export const ThumbnailPicker: React.FC<ThumbnailPickerProps> = ({
+  frames,
+  isExtracting,
+  selectedUri,
+  onSelect,
+  disabled = false,
+}) => {
+  const handleSelect = async (frame: VideoFrame) => {
+    if (frame.uri === selectedUri) return;
+    await Haptics.selectionAsync();
+    onSelect(frame);
+  };
+
+  if (!isExtracting && frames.length === 0) {
+    return null;
+  }
+
+  return (
+    <View className="mt-4">
+      <Text className="text-gray-700 font-medium mb-2 text-sm">Thumbnail</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {frames.map((frame) => {
+          const isSelected = frame.uri === selectedUri;
+
+          return (
+            <TouchableOpacity
+              key={frame.uri}
+              onPress={() => handleSelect(frame)}
+              disabled={disabled}
+              activeOpacity={0.7}
+              className={`mr-2 rounded-lg overflow-hidden border-2 ${
+                isSelected ? 'border-blue-600' : 'border-transparent'
+              }`}
+            >
+              <Image
+                source={{ uri: frame.uri }}
+                style={{ width: FRAME_WIDTH, height: FRAME_HEIGHT }}
+                resizeMode="cover"
+                className="bg-gray-900"
+              />
+              <View className="absolute bottom-0 left-0 right-0 bg-black/50 py-0.5">
+                <Text className="text-white text-xs text-center">{formatDuration(frame.timeMs)}</Text>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+
+        {isExtracting && (
+          <View
+            style={{ width: FRAME_WIDTH, height: FRAME_HEIGHT }}
+            className="rounded-lg bg-gray-200 items-center justify-center"
+          >
+            <ActivityIndicator size="small" color="#2563eb" />
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
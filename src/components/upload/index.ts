@@ -0,0 +1 @@
+export { ThumbnailPicker } from './ThumbnailPicker';
@@ -0,0 +1,61 @@
+/**
+ * FeedModeToggle Component
+ * 
+ * "For You / Following" switch shown over the top of the video feed
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import type { FeedMode } from '../../types/social.types';
+
+interface FeedModeToggleProps {
+  mode: FeedMode;
+  onChange: (mode: FeedMode) => void;
+}
+
+const MODES: { mode: FeedMode; label: string }[] = [
+  { mode: 'forYou', label: 'For You' },
+  { mode: 'following', label: 'Following' },
+];
+
+export const FeedModeToggle: React.FC<FeedModeToggleProps> = ({ mode, onChange }) => {
+  const insets = useSafeAreaInsets();
+
+  const handlePress = async (nextMode: FeedMode) => {
+    if (nextMode === mode) return;
+    await Haptics.selectionAsync();
+    onChange(nextMode);
+  };
+
+  return (
+    <View
+      style={{ top: insets.top + 8 }}
+      className="absolute left-0 right-0 flex-row justify-center"
+      pointerEvents="box-none"
+    >
+      {MODES.map(({ mode: itemMode, label }) => {
+        const isSelected = itemMode === mode;
+
+        return (
+          <TouchableOpacity
+            key={itemMode}
+            onPress={() => handlePress(itemMode)}
+            activeOpacity={0.7}
+            className="mx-3 items-center"
+          >
+            <Text
+              className={`text-base font-bold ${isSelected ? 'text-white' : 'text-white/60'}`}
+            >
+              {label}
+            </Text>
+            <View
+              className={`h-0.5 w-6 mt-1 rounded-full ${isSelected ? 'bg-white' : 'bg-transparent'}`}
+            />
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
@@ -0,0 +1,84 @@
+/**
+ * PlayerSettingsSheet Component
+ *
+ * Bottom sheet for choosing the playback quality of every video
+ */
+
+import React from 'react';
+import { View, Text, Modal, TouchableOpacity, Pressable } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import type { VideoQuality } from '../../types/video.types';
+import { usePlaybackStore } from '../../store/playbackStore';
+
+interface PlayerSettingsSheetProps {
+  visible: boolean;
+  hasStream: boolean;
+  onClose: () => void;
+}
+
+const QUALITY_OPTIONS: { value: VideoQuality; label: string; description: string }[] = [
+  { value: 'auto', label: 'Auto', description: 'Adjusts to your connection' },
+  { value: 'low', label: 'Low', description: 'Uses less data' },
+  { value: 'high', label: 'High', description: 'Best picture, uses more data' },
+];
+
+export const PlayerSettingsSheet: React.FC<PlayerSettingsSheetProps> = ({
+  visible,
+  hasStream,
+  onClose,
+}) => {
+  const quality = usePlaybackStore((state) => state.quality);
+  const setQuality = usePlaybackStore((state) => state.setQuality);
+
+  const handleSelect = (value: VideoQuality) => {
+    Haptics.selectionAsync();
+    setQuality(value);
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable onPress={onClose} className="flex-1 bg-black/40" />
+
+      <View className="bg-white rounded-t-3xl pb-8">
+        {/* Header */}
+        <View className="items-center pt-2 pb-3 border-b border-gray-100">
+          <View className="w-10 h-1 rounded-full bg-gray-300 mb-3" />
+          <Text className="text-gray-900 font-bold">Quality</Text>
+          <TouchableOpacity onPress={onClose} className="absolute right-4 top-5">
+            <Text className="text-gray-500 text-lg">✕</Text>
+          </TouchableOpacity>
+        </View>
+
+        {QUALITY_OPTIONS.map((option) => {
+          const isSelected = option.value === quality;
+
+          return (
+            <TouchableOpacity
+              key={option.value}
+              onPress={() => handleSelect(option.value)}
+              activeOpacity={0.7}
+              className="flex-row items-center justify-between px-6 py-4 border-b border-gray-100"
+            >
+              <View>
+                <Text
+                  className={`text-base ${isSelected ? 'text-blue-600 font-semibold' : 'text-gray-900'}`}
+                >
+                  {option.label}
+                </Text>
+                <Text className="text-gray-500 text-sm">{option.description}</Text>
+              </View>
+              {isSelected && <Text className="text-blue-600 text-lg">✓</Text>}
+            </TouchableOpacity>
+          );
+        })}
+
+        {!hasStream && (
+          <Text className="text-gray-500 text-xs text-center px-6 pt-4">
+            This video is only available in one quality
+          </Text>
+        )}
+      </View>
+    </Modal>
+  );
+};
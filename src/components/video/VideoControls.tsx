@@ -1,7 +1,7 @@
 /**
  * VideoControls Component
  * 
- * Video interaction controls including like button and metadata display
+ * Video interaction controls including like, comment, practice and quality buttons and metadata display
  */
 
 import React, { useState } from 'react';
@@ -13,11 +13,19 @@ import Animated, {
   withSequence,
 } from 'react-native-reanimated';
 import * as Haptics from 'expo-haptics';
-import type { VideoWithUser } from '../../types/video.types';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { VideoFeedItem } from '../../types/video.types';
 import { useToggleLike } from '../../hooks/useVideos';
+import { useHasPendingChanges } from '../../hooks/useOutbox';
+import { hasStream } from '../../hooks/useVideoSource';
+import { CommentsSheet } from '../comments/CommentsSheet';
+import { PlayerSettingsSheet } from './PlayerSettingsSheet';
+import { formatDuration } from '../../utils/videoMetadata';
+import type { MainStackParamList } from '../../navigation/AppNavigator';
 
 interface VideoControlsProps {
-  videoData: VideoWithUser;
+  videoData: VideoFeedItem;
   className?: string;
 }
 
@@ -25,9 +33,14 @@ export const VideoControls: React.FC<VideoControlsProps> = ({
   videoData,
   className = '',
 }) => {
-  const [isLiked, setIsLiked] = useState(false);
+  const navigation = useNavigation<NativeStackNavigationProp<MainStackParamList>>();
+  const isLiked = Boolean(videoData.isLiked);
   const likeScale = useSharedValue(1);
   const toggleLikeMutation = useToggleLike();
+  const hasPendingChanges = useHasPendingChanges(videoData.id);
+  const [showComments, setShowComments] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const commentCount = videoData.comments_count ?? 0;
 
   const handleLikePress = async () => {
     // Trigger haptic feedback
@@ -39,15 +52,8 @@ export const VideoControls: React.FC<VideoControlsProps> = ({
       withSpring(1, { damping: 10, stiffness: 300 })
     );
 
-    // Toggle like state
-    const newLikedState = !isLiked;
-    setIsLiked(newLikedState);
-
-    // Call mutation
-    toggleLikeMutation.mutate({
-      videoId: videoData.id,
-      isLiked: isLiked, // Pass current state (before toggle)
-    });
+    // Call mutation (like state is updated optimistically in the cache)
+    toggleLikeMutation.mutate({ videoId: videoData.id, liked: !isLiked });
   };
 
   const animatedLikeStyle = useAnimatedStyle(() => ({
@@ -66,22 +72,44 @@ export const VideoControls: React.FC<VideoControlsProps> = ({
   };
 
   return (
-    <View className={`absolute bottom-0 left-0 right-0 p-4 ${className}`}>
+    <View
+      pointerEvents="box-none"
+      className={`absolute bottom-0 left-0 right-0 p-4 pb-8 ${className}`}
+    >
       {/* Gradient overlay for better text visibility */}
-      <View className="absolute inset-0 bg-gradient-to-t from-black/80 to-transparent" />
-      
-      <View className="flex-row justify-between items-end">
+      <View
+        pointerEvents="none"
+        className="absolute inset-0 bg-gradient-to-t from-black/80 to-transparent"
+      />
+
+      {/* Taps between the controls reach the player's gesture layer */}
+      <View pointerEvents="box-none" className="flex-row justify-between items-end">
         {/* Video Metadata */}
-        <View className="flex-1 mr-4">
+        <View pointerEvents="box-none" className="flex-1 mr-4">
           {/* Username */}
-          <Text className="text-white font-bold text-lg mb-1">
-            @{videoData.user?.username || 'Unknown'}
-          </Text>
+          <TouchableOpacity
+            onPress={() => navigation.navigate('UserProfile', { userId: videoData.user_id })}
+            activeOpacity={0.7}
+            className="self-start"
+          >
+            <Text className="text-white font-bold text-lg mb-1">
+              @{videoData.user?.username || 'Unknown'}
+            </Text>
+          </TouchableOpacity>
           
           {/* Title */}
           <Text className="text-white text-base mb-2" numberOfLines={2}>
             {videoData.title}
           </Text>
+
+          {/* Duration */}
+          {videoData.duration_ms ? (
+            <View className="self-start bg-black/50 rounded-full px-2 py-0.5 mb-2">
+              <Text className="text-white/90 text-xs font-semibold">
+                ⏱ {formatDuration(videoData.duration_ms)}
+              </Text>
+            </View>
+          ) : null}
           
           {/* Description (if available) */}
           {videoData.description && (
@@ -89,10 +117,17 @@ export const VideoControls: React.FC<VideoControlsProps> = ({
               {videoData.description}
             </Text>
           )}
+
+          {/* Likes and comments made offline that are not sent yet */}
+          {hasPendingChanges && (
+            <View className="flex-row items-center self-start bg-black/50 rounded-full px-3 py-1 mt-2">
+              <Text className="text-white/90 text-xs">☁️ Not synced yet</Text>
+            </View>
+          )}
         </View>
 
         {/* Action Buttons */}
-        <View className="items-center space-y-4">
+        <View pointerEvents="box-none" className="items-center space-y-4">
           {/* Like Button */}
           <TouchableOpacity
             onPress={handleLikePress}
@@ -112,6 +147,20 @@ export const VideoControls: React.FC<VideoControlsProps> = ({
             </Text>
           </TouchableOpacity>
 
+          {/* Comment Button */}
+          <TouchableOpacity
+            onPress={() => setShowComments(true)}
+            activeOpacity={0.7}
+            className="items-center mt-4"
+          >
+            <View className="w-12 h-12 rounded-full bg-white/20 items-center justify-center mb-1">
+              <Text className="text-2xl">💬</Text>
+            </View>
+            <Text className="text-white text-xs font-semibold">
+              {formatLikesCount(commentCount)}
+            </Text>
+          </TouchableOpacity>
+
           {/* Views Count */}
           <View className="items-center mt-4">
             <View className="w-12 h-12 rounded-full bg-white/20 items-center justify-center mb-1">
@@ -121,8 +170,44 @@ export const VideoControls: React.FC<VideoControlsProps> = ({
               {formatLikesCount(videoData.views)}
             </Text>
           </View>
+
+          {/* Practice Button */}
+          <TouchableOpacity
+            onPress={() => navigation.navigate('Practice', { videoId: videoData.id })}
+            activeOpacity={0.7}
+            className="items-center mt-4"
+          >
+            <View className="w-12 h-12 rounded-full bg-white/20 items-center justify-center mb-1">
+              <Text className="text-2xl">🎓</Text>
+            </View>
+            <Text className="text-white text-xs font-semibold">Practice</Text>
+          </TouchableOpacity>
+
+          {/* Quality Settings Button */}
+          <TouchableOpacity
+            onPress={() => setShowSettings(true)}
+            activeOpacity={0.7}
+            className="items-center mt-4"
+          >
+            <View className="w-12 h-12 rounded-full bg-white/20 items-center justify-center">
+              <Text className="text-2xl">⚙️</Text>
+            </View>
+          </TouchableOpacity>
         </View>
       </View>
+
+      <CommentsSheet
+        videoId={videoData.id}
+        commentCount={commentCount}
+        visible={showComments}
+        onClose={() => setShowComments(false)}
+      />
+
+      <PlayerSettingsSheet
+        visible={showSettings}
+        hasStream={hasStream(videoData)}
+        onClose={() => setShowSettings(false)}
+      />
     </View>
   );
 };
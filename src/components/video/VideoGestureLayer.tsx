@@ -0,0 +1,258 @@
+/**
+ * VideoGestureLayer Component
+ *
+ * Touch layer over a video player: tap to pause or resume, double-tap to
+ * like with a heart burst where the finger landed, hold for 2x speed, and
+ * a progress bar along the bottom edge that can be dragged to seek.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, Pressable, PanResponder, GestureResponderEvent } from 'react-native';
+import Animated, {
+  FadeIn,
+  FadeOut,
+  ZoomIn,
+  SharedValue,
+  useAnimatedStyle,
+} from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+
+interface VideoGestureLayerProps {
+  isPaused: boolean;
+  isFastForward: boolean;
+  progress: SharedValue<number>;
+  onTogglePause: () => void;
+  onDoubleTap?: () => void;
+  onFastForwardChange: (isFastForward: boolean) => void;
+  onScrubStart: () => void;
+  onSeek: (fraction: number) => void;
+}
+
+interface HeartBurst {
+  id: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Longest gap between the taps of a double-tap
+ */
+const DOUBLE_TAP_DELAY_MS = 250;
+
+/**
+ * How long a heart stays on screen
+ */
+const HEART_DURATION_MS = 800;
+
+const HEART_SIZE = 96;
+
+const clamp = (fraction: number) => Math.min(Math.max(fraction, 0), 1);
+
+/**
+ * Progress bar that follows playback and seeks when dragged
+ */
+const ProgressBar: React.FC<{
+  progress: SharedValue<number>;
+  onScrubStart: () => void;
+  onSeek: (fraction: number) => void;
+}> = ({ progress, onScrubStart, onSeek }) => {
+  const [isScrubbing, setIsScrubbing] = useState(false);
+  const width = useRef(0);
+  const startFraction = useRef(0);
+
+  // Latest callbacks for the responder, which is only created once
+  const callbacks = useRef({ onScrubStart, onSeek });
+  callbacks.current = { onScrubStart, onSeek };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event) => {
+        startFraction.current = clamp(event.nativeEvent.locationX / (width.current || 1));
+        progress.value = startFraction.current;
+        setIsScrubbing(true);
+        callbacks.current.onScrubStart();
+      },
+      onPanResponderMove: (_, gesture) => {
+        progress.value = clamp(startFraction.current + gesture.dx / (width.current || 1));
+      },
+      onPanResponderRelease: () => {
+        setIsScrubbing(false);
+        callbacks.current.onSeek(progress.value);
+      },
+      onPanResponderTerminate: () => {
+        setIsScrubbing(false);
+        callbacks.current.onSeek(progress.value);
+      },
+    })
+  ).current;
+
+  const fillStyle = useAnimatedStyle(() => ({
+    width: `${progress.value * 100}%`,
+  }));
+
+  const thumbStyle = useAnimatedStyle(() => ({
+    left: `${progress.value * 100}%`,
+  }));
+
+  return (
+    <View
+      className="absolute bottom-0 left-0 right-0 h-6 justify-end"
+      onLayout={(event) => {
+        width.current = event.nativeEvent.layout.width;
+      }}
+      {...panResponder.panHandlers}
+    >
+      <View pointerEvents="none" className={`bg-white/30 ${isScrubbing ? 'h-1.5' : 'h-0.5'}`}>
+        <Animated.View style={fillStyle} className="h-full bg-white" />
+      </View>
+      {isScrubbing && (
+        <Animated.View
+          pointerEvents="none"
+          style={thumbStyle}
+          className="absolute bottom-0 w-4 h-4 -ml-2 -mb-1 rounded-full bg-white"
+        />
+      )}
+    </View>
+  );
+};
+
+export const VideoGestureLayer: React.FC<VideoGestureLayerProps> = ({
+  isPaused,
+  isFastForward,
+  progress,
+  onTogglePause,
+  onDoubleTap,
+  onFastForwardChange,
+  onScrubStart,
+  onSeek,
+}) => {
+  const [hearts, setHearts] = useState<HeartBurst[]>([]);
+  const lastTapAt = useRef(0);
+  const singleTapTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const heartTimers = useRef<ReturnType<typeof setTimeout>[]>([]);
+
+  useEffect(
+    () => () => {
+      if (singleTapTimer.current) clearTimeout(singleTapTimer.current);
+      heartTimers.current.forEach(clearTimeout);
+    },
+    []
+  );
+
+  const showHeart = (x: number, y: number) => {
+    const id = Date.now();
+    setHearts((current) => [...current, { id, x, y }]);
+    heartTimers.current.push(
+      setTimeout(() => {
+        setHearts((current) => current.filter((heart) => heart.id !== id));
+      }, HEART_DURATION_MS)
+    );
+  };
+
+  /**
+   * Tell a double-tap from a single tap; without a double-tap handler a
+   * tap pauses straight away
+   */
+  const handlePress = (event: GestureResponderEvent) => {
+    const now = Date.now();
+
+    if (onDoubleTap && now - lastTapAt.current < DOUBLE_TAP_DELAY_MS) {
+      if (singleTapTimer.current) {
+        clearTimeout(singleTapTimer.current);
+        singleTapTimer.current = null;
+      }
+      lastTapAt.current = 0;
+
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      showHeart(event.nativeEvent.locationX, event.nativeEvent.locationY);
+      onDoubleTap();
+      return;
+    }
+
+    lastTapAt.current = now;
+
+    if (!onDoubleTap) {
+      onTogglePause();
+      return;
+    }
+
+    singleTapTimer.current = setTimeout(() => {
+      singleTapTimer.current = null;
+      onTogglePause();
+    }, DOUBLE_TAP_DELAY_MS);
+  };
+
+  const handleLongPress = () => {
+    Haptics.selectionAsync();
+    onFastForwardChange(true);
+  };
+
+  const handlePressOut = () => {
+    if (isFastForward) {
+      onFastForwardChange(false);
+    }
+  };
+
+  return (
+    <View className="absolute inset-0">
+      <Pressable
+        onPress={handlePress}
+        onLongPress={handleLongPress}
+        onPressOut={handlePressOut}
+        delayLongPress={300}
+        className="flex-1"
+      >
+        {/* Paused */}
+        {isPaused && (
+          <Animated.View
+            entering={ZoomIn.springify()}
+            exiting={FadeOut.duration(150)}
+            pointerEvents="none"
+            className="absolute inset-0 items-center justify-center"
+          >
+            <View className="w-20 h-20 rounded-full bg-black/40 items-center justify-center">
+              <Text className="text-white text-4xl">▶</Text>
+            </View>
+          </Animated.View>
+        )}
+
+        {/* Held for 2x */}
+        {isFastForward && (
+          <Animated.View
+            entering={FadeIn.duration(150)}
+            exiting={FadeOut.duration(150)}
+            pointerEvents="none"
+            className="absolute top-16 self-center bg-black/50 rounded-full px-4 py-1"
+          >
+            <Text className="text-white font-semibold">2x ▸▸</Text>
+          </Animated.View>
+        )}
+
+        {/* Double-tap hearts */}
+        {hearts.map((heart) => (
+          <Animated.View
+            key={heart.id}
+            entering={ZoomIn.springify().damping(8)}
+            exiting={FadeOut.duration(300)}
+            pointerEvents="none"
+            className="absolute items-center justify-center"
+            style={{
+              left: heart.x - HEART_SIZE / 2,
+              top: heart.y - HEART_SIZE / 2,
+              width: HEART_SIZE,
+              height: HEART_SIZE,
+              transform: [{ rotate: `${(heart.id % 30) - 15}deg` }],
+            }}
+          >
+            <Text style={{ fontSize: HEART_SIZE * 0.8 }}>❤️</Text>
+          </Animated.View>
+        ))}
+      </Pressable>
+
+      <ProgressBar progress={progress} onScrubStart={onScrubStart} onSeek={onSeek} />
+    </View>
+  );
+};
@@ -2,13 +2,29 @@
  * VideoPlayer Component
  * 
  * Video player component using expo-av with auto-play/pause functionality
- * based on viewport visibility.
+ * based on viewport visibility. Plays the video's HLS stream at the quality
+ * picked by useVideoSource, falling back to the MP4 if the stream fails.
+ * The video's thumbnail is shown as a poster until the first frame is
+ * ready. The underlying expo-av `Video` is exposed through `ref`, so screens such
+ * as the practice player can seek and step through it. Interactive players
+ * add a gesture layer for pausing, liking, 2x speed and seeking.
  */
 
-import React, { useEffect, useRef, useState } from 'react';
+import React, { forwardRef, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
 import { View, Text, Dimensions } from 'react-native';
-import { Video, ResizeMode, AVPlaybackStatus } from 'expo-av';
+import {
+  Video,
+  ResizeMode,
+  AVPlaybackStatus,
+  AVPlaybackSource,
+  VideoReadyForDisplayEvent,
+} from 'expo-av';
+import { useSharedValue } from 'react-native-reanimated';
 import type { VideoWithUser } from '../../types/video.types';
+import { useVideoSource } from '../../hooks/useVideoSource';
+import { useRecordVideoMetadata } from '../../hooks/useVideos';
+import { useAuthStore } from '../../store/authStore';
+import { VideoGestureLayer } from './VideoGestureLayer';
 import { LoadingSpinner } from '../common/LoadingSpinner';
 import { ErrorMessage } from '../common/ErrorMessage';
 
@@ -16,28 +32,126 @@ interface VideoPlayerProps {
   videoUrl: string;
   isActive: boolean;
   videoData: VideoWithUser;
+  height?: number;
   onPlaybackStatusUpdate?: (status: AVPlaybackStatus) => void;
+  onFirstFrame?: () => void;
+  rate?: number;
+  mirrored?: boolean;
+  isLooping?: boolean;
+  progressUpdateIntervalMillis?: number;
+  interactive?: boolean;
+  onDoubleTap?: () => void;
 }
 
-export const VideoPlayer: React.FC<VideoPlayerProps> = ({
+/**
+ * Playback speed while the player is held down
+ */
+const FAST_FORWARD_RATE = 2;
+
+export const VideoPlayer = forwardRef<Video, VideoPlayerProps>(({
   videoUrl,
   isActive,
-  videoData: _videoData,
+  videoData,
+  height,
   onPlaybackStatusUpdate,
-}) => {
+  onFirstFrame,
+  rate = 1,
+  mirrored = false,
+  isLooping = true,
+  progressUpdateIntervalMillis,
+  interactive = false,
+  onDoubleTap,
+}, ref) => {
   const videoRef = useRef<Video>(null);
+  useImperativeHandle(ref, () => videoRef.current as Video);
   const [isLoading, setIsLoading] = useState(true);
   const [hasError, setHasError] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
+  const [streamFailed, setStreamFailed] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isFastForward, setIsFastForward] = useState(false);
   const { height: screenHeight } = Dimensions.get('window');
+  const posterUrl = videoData.thumbnail_url;
+
+  const streamSource = useVideoSource({
+    video_url: videoUrl,
+    stream_url: videoData.stream_url,
+    renditions: videoData.renditions,
+  });
+  const { uri, isStream } = streamFailed ? { uri: videoUrl, isStream: false } : streamSource;
+
+  // Try the stream again once the video, quality or network changes
+  useEffect(() => {
+    setStreamFailed(false);
+  }, [videoUrl, streamSource.uri]);
+
+  // Manifest URLs do not always end in .m3u8, so tell Android it is HLS
+  const source = useMemo<AVPlaybackSource>(
+    () => (isStream ? { uri, overrideFileExtensionAndroid: 'm3u8' } : { uri }),
+    [uri, isStream]
+  );
+
+  // Position to return to after switching source, e.g. when the quality changes
+  const positionMillis = useRef(0);
+  const durationMillis = useRef(0);
+  const resumeAt = useRef<number | null>(null);
+  const loadedUri = useRef(uri);
+
+  useEffect(() => {
+    if (loadedUri.current === uri) return;
+
+    loadedUri.current = uri;
+    resumeAt.current = positionMillis.current;
+    setIsLoading(true);
+  }, [uri]);
+
+  // Videos added without metadata get it when their owner first plays them
+  const userId = useAuthStore((state) => state.user?.id);
+  const { mutate: recordMetadata } = useRecordVideoMetadata();
+  const hasRecordedMetadata = useRef(false);
+
+  const handleReadyForDisplay = (event: VideoReadyForDisplayEvent) => {
+    onFirstFrame?.();
+
+    const duration =
+      event.status?.isLoaded && event.status.durationMillis
+        ? event.status.durationMillis
+        : durationMillis.current;
+    const { width, height } = event.naturalSize;
+
+    const isOwnVideo = !!userId && videoData.user_id === userId;
+
+    if (
+      isOwnVideo &&
+      videoData.duration_ms == null &&
+      !hasRecordedMetadata.current &&
+      duration > 0 &&
+      width > 0
+    ) {
+      hasRecordedMetadata.current = true;
+      recordMetadata({ videoId: videoData.id, durationMs: duration, width, height });
+    }
+  };
 
-  // Handle auto-play/pause based on isActive prop
+  // Progress shown by the gesture layer, 0 to 1; left alone while scrubbing
+  const progress = useSharedValue(0);
+  const isScrubbing = useRef(false);
+
+  // A video paused by tapping plays again when it next becomes active
+  useEffect(() => {
+    setIsPaused(false);
+    setIsFastForward(false);
+  }, [isActive]);
+
+  const isPlaying = isActive && !isPaused;
+
+  // Handle auto-play/pause based on isActive prop and taps
   useEffect(() => {
     const handlePlayback = async () => {
       if (!videoRef.current) return;
 
       try {
-        if (isActive) {
+        if (isPlaying) {
           await videoRef.current.playAsync();
         } else {
           await videoRef.current.pauseAsync();
@@ -48,13 +162,28 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     };
 
     handlePlayback();
-  }, [isActive]);
+  }, [isPlaying]);
 
   // Handle playback status updates
   const handlePlaybackStatusUpdate = (status: AVPlaybackStatus) => {
     if (status.isLoaded) {
       setIsLoading(false);
       setHasError(false);
+
+      if (resumeAt.current !== null) {
+        const position = resumeAt.current;
+        resumeAt.current = null;
+        videoRef.current?.setPositionAsync(position).catch((error) => {
+          console.error('Error restoring video position:', error);
+        });
+      } else {
+        positionMillis.current = status.positionMillis;
+      }
+
+      durationMillis.current = status.durationMillis ?? 0;
+      if (!isScrubbing.current && durationMillis.current > 0) {
+        progress.value = status.positionMillis / durationMillis.current;
+      }
     }
 
     if (onPlaybackStatusUpdate) {
@@ -65,11 +194,30 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   // Handle video load error
   const handleError = (error: string) => {
     console.error('Video load error:', error);
+
+    // Play the MP4 instead of a stream that cannot be loaded
+    if (isStream && !streamFailed) {
+      setStreamFailed(true);
+      return;
+    }
+
     setIsLoading(false);
     setHasError(true);
     setErrorMessage('Failed to load video. Please try again.');
   };
 
+  // Seek to where the progress bar was released
+  const handleSeek = (fraction: number) => {
+    isScrubbing.current = false;
+    if (!durationMillis.current) return;
+
+    videoRef.current
+      ?.setPositionAsync(fraction * durationMillis.current)
+      .catch((error) => {
+        console.error('Error seeking video:', error);
+      });
+  };
+
   // Retry loading the video
   const handleRetry = async () => {
     setHasError(false);
@@ -80,8 +228,8 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
       try {
         await videoRef.current.unloadAsync();
         await videoRef.current.loadAsync(
-          { uri: videoUrl },
-          { shouldPlay: isActive },
+          source,
+          { shouldPlay: isPlaying },
           false
         );
       } catch (error) {
@@ -91,26 +239,55 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   };
 
   return (
-    <View className="flex-1 bg-black" style={{ height: screenHeight }}>
+    <View className="flex-1 bg-black" style={{ height: height ?? screenHeight }}>
       {/* Video Player */}
       <Video
         ref={videoRef}
-        source={{ uri: videoUrl }}
-        style={{ width: '100%', height: '100%' }}
+        source={source}
+        style={{ width: '100%', height: '100%', transform: [{ scaleX: mirrored ? -1 : 1 }] }}
         resizeMode={ResizeMode.CONTAIN}
-        shouldPlay={isActive}
-        isLooping
+        shouldPlay={isPlaying}
+        isLooping={isLooping}
+        rate={isFastForward ? FAST_FORWARD_RATE : rate}
+        shouldCorrectPitch
+        progressUpdateIntervalMillis={progressUpdateIntervalMillis}
         onPlaybackStatusUpdate={handlePlaybackStatusUpdate}
         onError={(error) => handleError(error)}
+        usePoster={Boolean(posterUrl)}
+        posterSource={posterUrl ? { uri: posterUrl } : undefined}
+        posterStyle={{ resizeMode: 'contain' }}
+        onReadyForDisplay={handleReadyForDisplay}
         className="absolute inset-0"
       />
 
-      {/* Loading State */}
+      {/* Gestures */}
+      {interactive && !hasError && (
+        <VideoGestureLayer
+          isPaused={isActive && isPaused}
+          isFastForward={isFastForward}
+          progress={progress}
+          onTogglePause={() => setIsPaused((paused) => !paused)}
+          onDoubleTap={onDoubleTap}
+          onFastForwardChange={setIsFastForward}
+          onScrubStart={() => {
+            isScrubbing.current = true;
+          }}
+          onSeek={handleSeek}
+        />
+      )}
+
+      {/* Loading State; a small spinner over the poster when there is one */}
       {isLoading && !hasError && (
-        <View className="absolute inset-0 items-center justify-center bg-black/50">
-          <LoadingSpinner size="large" color="#ffffff" />
-          <Text className="text-white mt-4 text-base">Loading video...</Text>
-        </View>
+        posterUrl ? (
+          <View pointerEvents="none" className="absolute inset-0 items-center justify-center">
+            <LoadingSpinner size="small" color="#ffffff" />
+          </View>
+        ) : (
+          <View className="absolute inset-0 items-center justify-center bg-black/50">
+            <LoadingSpinner size="large" color="#ffffff" />
+            <Text className="text-white mt-4 text-base">Loading video...</Text>
+          </View>
+        )
       )}
 
       {/* Error State */}
@@ -124,4 +301,6 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
       )}
     </View>
   );
-};
+});
+
+VideoPlayer.displayName = 'VideoPlayer';
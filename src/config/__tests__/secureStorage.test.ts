@@ -0,0 +1,70 @@
+import * as SecureStore from 'expo-secure-store';
+import { secureStorage } from '../secureStorage';
+
+const store = new Map<string, string>();
+
+beforeEach(() => {
+  store.clear();
+  jest.mocked(SecureStore.getItemAsync).mockImplementation(async (key) => store.get(key) ?? null);
+  jest.mocked(SecureStore.setItemAsync).mockImplementation(async (key, value) => {
+    store.set(key, value);
+  });
+  jest.mocked(SecureStore.deleteItemAsync).mockImplementation(async (key) => {
+    store.delete(key);
+  });
+});
+
+describe('secureStorage', () => {
+  it('stores a short value in a single chunk', async () => {
+    await secureStorage.setItem('session', 'token');
+
+    expect(store.get('session.chunks')).toBe('1');
+    expect(store.get('session.0')).toBe('token');
+    expect(await secureStorage.getItem('session')).toBe('token');
+  });
+
+  it('splits a long value across chunks and joins it back', async () => {
+    const value = 'a'.repeat(1800) + 'b'.repeat(1800) + 'c'.repeat(10);
+
+    await secureStorage.setItem('session', value);
+
+    expect(store.get('session.chunks')).toBe('3');
+    expect(store.get('session.0')).toBe('a'.repeat(1800));
+    expect(store.get('session.2')).toBe('c'.repeat(10));
+    expect(await secureStorage.getItem('session')).toBe(value);
+  });
+
+  it('stores an empty value', async () => {
+    await secureStorage.setItem('session', '');
+
+    expect(await secureStorage.getItem('session')).toBe('');
+  });
+
+  it('drops chunks left over from a longer previous value', async () => {
+    await secureStorage.setItem('session', 'x'.repeat(4000));
+    await secureStorage.setItem('session', 'short');
+
+    expect(store.has('session.1')).toBe(false);
+    expect(store.has('session.2')).toBe(false);
+    expect(await secureStorage.getItem('session')).toBe('short');
+  });
+
+  it('returns null when nothing is stored', async () => {
+    expect(await secureStorage.getItem('session')).toBeNull();
+  });
+
+  it('returns null when a chunk is missing', async () => {
+    await secureStorage.setItem('session', 'x'.repeat(4000));
+    store.delete('session.1');
+
+    expect(await secureStorage.getItem('session')).toBeNull();
+  });
+
+  it('removes every chunk', async () => {
+    await secureStorage.setItem('session', 'x'.repeat(4000));
+    await secureStorage.removeItem('session');
+
+    expect(store.size).toBe(0);
+    expect(await secureStorage.getItem('session')).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Query Cache Persistence
+ *
+ * Saves the video feed and leaderboard from the React-Query cache to
+ * AsyncStorage, so the app can show them straight away on the next launch
+ * and revalidate them in the background.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createAsyncStoragePersister } from '@tanstack/query-async-storage-persister';
+import { defaultShouldDehydrateQuery, InfiniteData, Query, QueryKey } from '@tanstack/react-query';
+import type { PersistedClient, PersistQueryClientOptions } from '@tanstack/react-query-persist-client';
+import { videoKeys } from '../hooks/useVideos';
+
+/**
+ * Bump when the shape of cached data changes, so caches written by older
+ * app versions are thrown away instead of restored
+ */
+const QUERY_CACHE_VERSION = '2';
+
+/**
+ * Oldest cache that is still restored
+ */
+const QUERY_CACHE_MAX_AGE = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * Whether a query key starts with the given prefix
+ */
+const hasPrefix = (queryKey: QueryKey, prefix: QueryKey) =>
+  prefix.every((part, index) => queryKey[index] === part);
+
+/**
+ * Only the feed and leaderboards are persisted; everything else is cheap
+ * to refetch or only shown after navigating
+ */
+const shouldPersistQuery = (query: Query) =>
+  defaultShouldDehydrateQuery(query) &&
+  (hasPrefix(query.queryKey, videoKeys.infinites()) ||
+    hasPrefix(query.queryKey, ['leaderboard']));
+
+/**
+ * Keep only the first page of infinite queries, which is all that is shown
+ * before the user scrolls
+ */
+const keepFirstPages = (client: PersistedClient): PersistedClient => ({
+  ...client,
+  clientState: {
+    ...client.clientState,
+    queries: client.clientState.queries.map((query) => {
+      if (!hasPrefix(query.queryKey, videoKeys.infinites())) return query;
+
+      const data = query.state.data as InfiniteData<unknown> | undefined;
+      if (!data) return query;
+
+      return {
+        ...query,
+        state: {
+          ...query.state,
+          data: { pages: data.pages.slice(0, 1), pageParams: data.pageParams.slice(0, 1) },
+        },
+      };
+    }),
+  },
+});
+
+/**
+ * Options for PersistQueryClientProvider
+ *
+ * Restored queries keep the time they were fetched, so the staleTime of
+ * each hook decides whether they are refetched on mount, and they are
+ * garbage collected with their gcTime like any other query.
+ */
+export const queryPersistOptions: Omit<PersistQueryClientOptions, 'queryClient'> = {
+  persister: createAsyncStoragePersister({
+    storage: AsyncStorage,
+    key: 'query_cache',
+    serialize: (client) => JSON.stringify(keepFirstPages(client)),
+  }),
+  buster: QUERY_CACHE_VERSION,
+  maxAge: QUERY_CACHE_MAX_AGE,
+  dehydrateOptions: {
+    shouldDehydrateQuery: shouldPersistQuery,
+  },
+};
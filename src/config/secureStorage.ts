@@ -0,0 +1,98 @@
+/**
+ * Secure Session Storage
+ *
+ * Storage adapter that lets the Supabase client persist its session in
+ * expo-secure-store. SecureStore values are limited to about 2 KB and a
+ * session with its JWTs is larger, so values are split across chunks.
+ */
+
+import * as SecureStore from 'expo-secure-store';
+import type { SupportedStorage } from '@supabase/supabase-js';
+
+/**
+ * Largest chunk written to a single SecureStore entry
+ */
+const CHUNK_SIZE = 1800;
+
+/**
+ * Key holding how many chunks a value was split into
+ */
+const chunkCountKey = (key: string) => `${key}.chunks`;
+
+/**
+ * Key holding one chunk of a value
+ */
+const chunkKey = (key: string, index: number) => `${key}.${index}`;
+
+/**
+ * Read how many chunks are stored for a key (0 when nothing is stored)
+ */
+const getChunkCount = async (key: string): Promise<number> => {
+  const count = await SecureStore.getItemAsync(chunkCountKey(key));
+  return count ? Number(count) : 0;
+};
+
+/**
+ * Delete chunks from `from` up to (not including) `to`
+ */
+const deleteChunks = async (key: string, from: number, to: number): Promise<void> => {
+  for (let index = from; index < to; index++) {
+    await SecureStore.deleteItemAsync(chunkKey(key, index));
+  }
+};
+
+/**
+ * SecureStore-backed storage for the Supabase auth client
+ */
+export const secureStorage: SupportedStorage = {
+  getItem: async (key) => {
+    try {
+      const count = await getChunkCount(key);
+      if (count === 0) return null;
+
+      const chunks: string[] = [];
+      for (let index = 0; index < count; index++) {
+        const chunk = await SecureStore.getItemAsync(chunkKey(key, index));
+
+        // A missing chunk means the value was only partly written
+        if (chunk === null) return null;
+        chunks.push(chunk);
+      }
+
+      return chunks.join('');
+    } catch (error) {
+      console.error(`Failed to read ${key} from secure storage:`, error);
+      return null;
+    }
+  },
+
+  setItem: async (key, value) => {
+    try {
+      const previousCount = await getChunkCount(key);
+      const count = Math.max(1, Math.ceil(value.length / CHUNK_SIZE));
+
+      for (let index = 0; index < count; index++) {
+        await SecureStore.setItemAsync(
+          chunkKey(key, index),
+          value.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE)
+        );
+      }
+      await SecureStore.setItemAsync(chunkCountKey(key), String(count));
+
+      // Drop chunks left over from a longer previous value
+      await deleteChunks(key, count, previousCount);
+    } catch (error) {
+      console.error(`Failed to save ${key} to secure storage:`, error);
+    }
+  },
+
+  removeItem: async (key) => {
+    try {
+      const count = await getChunkCount(key);
+      await SecureStore.deleteItemAsync(chunkCountKey(key));
+      await deleteChunks(key, 0, count);
+    } catch (error) {
+      console.error(`Failed to delete ${key} from secure storage:`, error);
+    }
+  },
+};
@@ -7,6 +7,7 @@
 
 import { createClient } from '@supabase/supabase-js';
 import type { Database } from '../types/database.types';
+import { secureStorage } from './secureStorage';
 
 // Get environment variables
 const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
@@ -27,6 +28,12 @@ if (!supabaseAnonKey) {
   );
 }
 
+/**
+ * Supabase project URL, used for endpoints the client SDK does not wrap
+ * (such as resumable storage uploads)
+ */
+export const SUPABASE_URL: string = supabaseUrl;
+
 /**
  * Supabase client instance
  * 
@@ -35,10 +42,13 @@ if (!supabaseAnonKey) {
  */
 export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
   auth: {
-    // Store session in memory for React Native
-    storage: undefined,
+    // Persist the session (including refreshed tokens) in SecureStore;
+    // useAuthStateSync mirrors it into the auth store
+    storage: secureStorage,
     autoRefreshToken: true,
     persistSession: true,
+    // URL detection only works in browsers; email links are handed to
+    // createSessionFromUrl by useAuthDeepLinks instead
     detectSessionInUrl: false,
   },
 });
@@ -0,0 +1,22 @@
+import { roleSatisfies } from '../useRole';
+
+describe('roleSatisfies', () => {
+  it('allows a role that is one of the required roles', () => {
+    expect(roleSatisfies('judge', ['judge'])).toBe(true);
+    expect(roleSatisfies('moderator', ['judge', 'moderator'])).toBe(true);
+  });
+
+  it('rejects a role that is not required', () => {
+    expect(roleSatisfies('dancer', ['judge'])).toBe(false);
+    expect(roleSatisfies('judge', ['moderator'])).toBe(false);
+  });
+
+  it('lets admins pass every check', () => {
+    expect(roleSatisfies('admin', ['judge'])).toBe(true);
+    expect(roleSatisfies('admin', [])).toBe(true);
+  });
+
+  it('rejects signed out users', () => {
+    expect(roleSatisfies(null, ['dancer'])).toBe(false);
+  });
+});
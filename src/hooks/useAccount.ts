@@ -0,0 +1,113 @@
+/**
+ * useAccount Hook
+ *
+ * Custom React-Query hooks for deleting the signed in user's account and
+ * exporting their data
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import * as Sharing from 'expo-sharing';
+import {
+  cancelAccountDeletion,
+  exportUserData,
+  requestAccountDeletion,
+  writeExportFile,
+} from '../services/api/account.service';
+import { useAuthStore } from '../store/authStore';
+import { profileKeys } from './useProfile';
+import { logger } from '../utils/logger';
+import { handleApiError } from '../utils/errorHandler';
+
+/**
+ * Keep the auth store and cached profile in step with a deletion date
+ */
+const useSetDeletionScheduledFor = () => {
+  const queryClient = useQueryClient();
+  const setUser = useAuthStore((state) => state.setUser);
+
+  return async (deletionScheduledFor: string | null) => {
+    const user = useAuthStore.getState().user;
+    if (!user) return;
+
+    const updated = { ...user, deletion_scheduled_for: deletionScheduledFor };
+    await setUser(updated);
+    queryClient.setQueryData(profileKeys.detail(user.id), updated);
+  };
+};
+
+/**
+ * Hook to schedule the signed in user's account for deletion
+ *
+ * @returns Mutation function and state; resolves to when the account will be deleted
+ */
+export const useRequestAccountDeletion = () => {
+  const setDeletionScheduledFor = useSetDeletionScheduledFor();
+
+  return useMutation({
+    mutationFn: requestAccountDeletion,
+    onSuccess: async (scheduledFor) => {
+      await setDeletionScheduledFor(scheduledFor);
+      logger.info('Account deletion scheduled', { scheduledFor });
+    },
+    onError: (error: Error) => {
+      handleApiError(error, 'requestAccountDeletion');
+    },
+  });
+};
+
+/**
+ * Hook to keep an account that is scheduled for deletion
+ *
+ * @returns Mutation function and state
+ */
+export const useCancelAccountDeletion = () => {
+  const setDeletionScheduledFor = useSetDeletionScheduledFor();
+
+  return useMutation({
+    mutationFn: cancelAccountDeletion,
+    onSuccess: async () => {
+      await setDeletionScheduledFor(null);
+      logger.info('Account deletion cancelled');
+    },
+    onError: (error: Error) => {
+      handleApiError(error, 'cancelAccountDeletion');
+    },
+  });
+};
+
+/**
+ * Hook to export the signed in user's data as a JSON file and open the share sheet
+ *
+ * @returns Mutation function and state
+ */
+export const useExportUserData = () => {
+  const userId = useAuthStore((state) => state.user?.id);
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!userId) {
+        throw new Error('You must be signed in to export your data');
+      }
+
+      const uri = writeExportFile(await exportUserData(userId));
+
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Sharing is not available on this device');
+      }
+
+      await Sharing.shareAsync(uri, {
+        mimeType: 'application/json',
+        dialogTitle: 'Export your data',
+        UTI: 'public.json',
+      });
+
+      return uri;
+    },
+    onSuccess: () => {
+      logger.info('User data exported');
+    },
+    onError: (error: Error) => {
+      handleApiError(error, 'exportUserData');
+    },
+  });
+};
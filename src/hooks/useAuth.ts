@@ -7,16 +7,29 @@
 
 import { useMutation } from '@tanstack/react-query';
 import { useAuthStore } from '../store/authStore';
-import { signUp, signIn, signOut, getCurrentUser } from '../services/api/auth.service';
-import type { LoginCredentials, RegisterData } from '../types';
+import {
+  signUp,
+  signIn,
+  signOut,
+  getCurrentUser,
+  requestPasswordReset,
+  updatePassword,
+  resendConfirmation,
+  signInWithProvider,
+  sendMagicLink,
+  completeProfile,
+  SignUpError,
+} from '../services/api/auth.service';
+import type { LoginCredentials, RegisterData, OAuthProvider } from '../types';
 import { handleAuthError } from '../utils/errorHandler';
 import { logger } from '../utils/logger';
 
 /**
  * Custom hook for authentication operations
  * 
- * Provides login, register, and logout mutations with automatic
- * state management through Zustand store.
+ * Provides login (password, OAuth and magic link), register, logout, and
+ * password reset mutations with automatic state management through
+ * Zustand store.
  */
 export const useAuth = () => {
   const { setAuth, clearAuth, user, session, isAuthenticated, isLoading } = useAuthStore();
@@ -36,6 +49,51 @@ export const useAuth = () => {
     },
   });
 
+  /**
+   * OAuth login mutation
+   * Signs in with Google or Apple; resolves to null if the user cancels
+   */
+  const oauthLoginMutation = useMutation({
+    mutationFn: (provider: OAuthProvider) => signInWithProvider(provider),
+    onSuccess: async (data) => {
+      if (!data) return;
+      await setAuth(data.user, data.session);
+      logger.info('User logged in with OAuth');
+    },
+    onError: (error: Error) => {
+      handleAuthError(error);
+    },
+  });
+
+  /**
+   * Magic link mutation
+   * Emails a passwordless sign in link
+   */
+  const magicLinkMutation = useMutation({
+    mutationFn: (email: string) => sendMagicLink(email),
+    onSuccess: () => {
+      logger.info('Magic link requested');
+    },
+    onError: (error: Error) => {
+      handleAuthError(error);
+    },
+  });
+
+  /**
+   * Complete profile mutation
+   * Creates the profile for a first-time OAuth or magic link user
+   */
+  const completeProfileMutation = useMutation({
+    mutationFn: (username: string) => completeProfile(username),
+    onSuccess: async (data) => {
+      await setAuth(data.user, data.session);
+      logger.info('User profile created');
+    },
+    onError: (error: Error) => {
+      handleAuthError(error);
+    },
+  });
+
   /**
    * Register mutation
    * Creates new user account and updates global auth state
@@ -47,6 +105,11 @@ export const useAuth = () => {
       logger.info('User registered successfully');
     },
     onError: (error: Error) => {
+      // Field-level failures are shown next to the field by RegisterScreen
+      if (error instanceof SignUpError) {
+        logger.info(`Sign up rejected: ${error.code}`);
+        return;
+      }
       handleAuthError(error);
     },
   });
@@ -68,6 +131,49 @@ export const useAuth = () => {
     },
   });
 
+  /**
+   * Password reset request mutation
+   * Emails a link that opens the reset password screen
+   */
+  const requestPasswordResetMutation = useMutation({
+    mutationFn: (email: string) => requestPasswordReset(email),
+    onSuccess: () => {
+      logger.info('Password reset email requested');
+    },
+    onError: (error: Error) => {
+      handleAuthError(error);
+    },
+  });
+
+  /**
+   * Update password mutation
+   * Sets a new password for the recovery session and signs the user in
+   */
+  const updatePasswordMutation = useMutation({
+    mutationFn: (password: string) => updatePassword(password),
+    onSuccess: async (data) => {
+      await setAuth(data.user, data.session);
+      logger.info('Password updated successfully');
+    },
+    onError: (error: Error) => {
+      handleAuthError(error);
+    },
+  });
+
+  /**
+   * Resend confirmation mutation
+   * Emails a new sign up confirmation link
+   */
+  const resendConfirmationMutation = useMutation({
+    mutationFn: (email: string) => resendConfirmation(email),
+    onSuccess: () => {
+      logger.info('Confirmation email resent');
+    },
+    onError: (error: Error) => {
+      handleAuthError(error);
+    },
+  });
+
   /**
    * Check current session mutation
    * Verifies and restores current user session
@@ -97,6 +203,16 @@ export const useAuth = () => {
     isLoggingIn: loginMutation.isPending,
     loginError: loginMutation.error,
 
+    loginWithProvider: oauthLoginMutation.mutate,
+    isLoggingInWithProvider: oauthLoginMutation.isPending,
+
+    sendMagicLink: magicLinkMutation.mutate,
+    isSendingMagicLink: magicLinkMutation.isPending,
+
+    completeProfile: completeProfileMutation.mutate,
+    isCompletingProfile: completeProfileMutation.isPending,
+    completeProfileError: completeProfileMutation.error,
+
     register: registerMutation.mutate,
     registerAsync: registerMutation.mutateAsync,
     isRegistering: registerMutation.isPending,
@@ -107,6 +223,17 @@ export const useAuth = () => {
     isLoggingOut: logoutMutation.isPending,
     logoutError: logoutMutation.error,
 
+    requestPasswordReset: requestPasswordResetMutation.mutate,
+    isRequestingPasswordReset: requestPasswordResetMutation.isPending,
+    requestPasswordResetError: requestPasswordResetMutation.error,
+
+    updatePassword: updatePasswordMutation.mutate,
+    isUpdatingPassword: updatePasswordMutation.isPending,
+    updatePasswordError: updatePasswordMutation.error,
+
+    resendConfirmation: resendConfirmationMutation.mutate,
+    isResendingConfirmation: resendConfirmationMutation.isPending,
+
     checkSession: checkSessionMutation.mutate,
     checkSessionAsync: checkSessionMutation.mutateAsync,
     isCheckingSession: checkSessionMutation.isPending,
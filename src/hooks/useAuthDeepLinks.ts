@@ -0,0 +1,57 @@
+/**
+ * Auth Deep Links Hook
+ *
+ * Handles Supabase email links (password reset and email confirmation)
+ * that open the app, turning them into a session.
+ */
+
+import { useEffect, useRef } from 'react';
+import * as Linking from 'expo-linking';
+import { useAuthStore } from '../store/authStore';
+import { createSessionFromUrl, getCurrentUser } from '../services/api/auth.service';
+import { handleAuthError } from '../utils/errorHandler';
+import { showSuccessToast } from '../utils/toast';
+import { logger } from '../utils/logger';
+
+/**
+ * Listen for auth email links while the app is open or launched by one
+ *
+ * Reset links put the app into password recovery so the reset password
+ * screen is shown. Confirmation links sign the user straight in.
+ */
+export const useAuthDeepLinks = () => {
+  const url = Linking.useURL();
+  const handledUrl = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!url || url === handledUrl.current) return;
+    handledUrl.current = url;
+
+    const handleUrl = async () => {
+      try {
+        const result = await createSessionFromUrl(url);
+        if (!result) return;
+
+        const { setAuth, setPasswordRecovery } = useAuthStore.getState();
+
+        if (result.type === 'recovery') {
+          logger.info('Password reset link opened');
+          setPasswordRecovery(true);
+          return;
+        }
+
+        const { user, session } = await getCurrentUser();
+        await setAuth(user, session);
+
+        if (result.type === 'signup') {
+          showSuccessToast('Email confirmed. Welcome!');
+        }
+        logger.info(`Signed in from ${result.type} link`);
+      } catch (error) {
+        handleAuthError(error);
+      }
+    };
+
+    handleUrl();
+  }, [url]);
+};
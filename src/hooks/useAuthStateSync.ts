@@ -0,0 +1,53 @@
+/**
+ * Auth State Sync Hook
+ *
+ * Keeps the auth store in step with the Supabase client, which owns the
+ * session and rotates its tokens in the background.
+ */
+
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../config/supabase.config';
+import { useAuthStore } from '../store/authStore';
+import type { Session } from '../types/user.types';
+import { logger } from '../utils/logger';
+
+/**
+ * Subscribe to the Supabase client's auth events for the lifetime of the app
+ *
+ * Refreshed and updated sessions replace the one in the store, and a sign
+ * out (from the app or the client, e.g. a revoked refresh token) clears it
+ * along with the query cache, so the next user never sees cached data from
+ * the last one. Signing in is left to the screens that do it, since they
+ * also load the profile.
+ */
+export const useAuthStateSync = () => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      const { session: currentSession, setSession, clearAuth } = useAuthStore.getState();
+
+      switch (event) {
+        case 'TOKEN_REFRESHED':
+        case 'USER_UPDATED':
+        case 'SIGNED_IN':
+          // Only follow the session of the user the store already holds
+          if (session && currentSession?.user.id === session.user.id) {
+            setSession(session as Session);
+          }
+          break;
+
+        case 'SIGNED_OUT':
+          if (currentSession) {
+            logger.info('Auth session ended');
+            queryClient.clear();
+            clearAuth();
+          }
+          break;
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [queryClient]);
+};
@@ -0,0 +1,329 @@
+/**
+ * useComments Hook
+ *
+ * React-Query hooks for reading and writing comments on videos. Posting,
+ * editing and deleting update the cache optimistically, including the
+ * comment counts shown in the feed.
+ */
+
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  QueryClient,
+  InfiniteData,
+} from '@tanstack/react-query';
+import {
+  fetchComments,
+  createComment,
+  updateComment,
+  deleteComment,
+} from '../services/api/comment.service';
+import type { CommentInput, CommentWithUser } from '../types/comment.types';
+import type { PaginatedResponse } from '../types/api.types';
+import { useAuthStore } from '../store/authStore';
+import { sendOrDefer, useOutboxStore } from '../store/outboxStore';
+import { updateCachedVideo, videoKeys } from './useVideos';
+import { logger } from '../utils/logger';
+import { handleApiError } from '../utils/errorHandler';
+
+/**
+ * Query key factory for comments
+ */
+export const commentKeys = {
+  all: ['comments'] as const,
+  lists: () => [...commentKeys.all, 'list'] as const,
+  list: (videoId: string, parentId: string | null = null) =>
+    [...commentKeys.lists(), videoId, parentId] as const,
+};
+
+type CommentPages = InfiniteData<PaginatedResponse<CommentWithUser>>;
+
+/**
+ * Apply an update to every cached page of comments
+ *
+ * @param queryClient - React-Query client
+ * @param updater - Function returning the updated comments of a page
+ */
+const updateCachedComments = (
+  queryClient: QueryClient,
+  updater: (comments: CommentWithUser[]) => CommentWithUser[]
+) => {
+  queryClient.setQueriesData<CommentPages>({ queryKey: commentKeys.lists() }, (data) =>
+    data
+      ? {
+          ...data,
+          pages: data.pages.map((page) => ({ ...page, data: updater(page.data) })),
+        }
+      : data
+  );
+};
+
+/**
+ * Change a video's cached comment count
+ */
+const adjustCommentCount = (queryClient: QueryClient, videoId: string, delta: number) => {
+  updateCachedVideo(queryClient, videoId, (video) => ({
+    ...video,
+    comments_count: Math.max(0, (video.comments_count ?? 0) + delta),
+  }));
+};
+
+/**
+ * Change a comment's cached reply count
+ */
+const adjustReplyCount = (queryClient: QueryClient, commentId: string, delta: number) => {
+  updateCachedComments(queryClient, (comments) =>
+    comments.map((comment) =>
+      comment.id === commentId
+        ? { ...comment, reply_count: Math.max(0, comment.reply_count + delta) }
+        : comment
+    )
+  );
+};
+
+/**
+ * Swap a pending comment for the one the server saved
+ *
+ * @param queryClient - React-Query client
+ * @param optimisticId - ID of the pending comment
+ * @param comment - Saved comment
+ */
+export const resolvePendingComment = (
+  queryClient: QueryClient,
+  optimisticId: string,
+  comment: CommentWithUser
+) => {
+  updateCachedComments(queryClient, (comments) =>
+    comments.map((cached) => (cached.id === optimisticId ? comment : cached))
+  );
+};
+
+/**
+ * Remove a pending comment that could not be posted and restore the counts
+ *
+ * @param queryClient - React-Query client
+ * @param input - Comment that was being posted
+ * @param optimisticId - ID of the pending comment
+ */
+export const discardPendingComment = (
+  queryClient: QueryClient,
+  input: CommentInput,
+  optimisticId: string
+) => {
+  updateCachedComments(queryClient, (comments) =>
+    comments.filter((comment) => comment.id !== optimisticId)
+  );
+
+  adjustCommentCount(queryClient, input.videoId, -1);
+  if (input.parentId) {
+    adjustReplyCount(queryClient, input.parentId, -1);
+  }
+};
+
+/**
+ * Hook to fetch comments on a video, or replies to a comment, page by page
+ *
+ * @param videoId - Video to fetch comments for
+ * @param parentId - Comment to fetch replies to, or null for top-level comments
+ * @param enabled - Whether the query should run
+ * @returns React-Query infinite result; call fetchNextPage to load more
+ */
+export const useComments = (
+  videoId: string,
+  parentId: string | null = null,
+  enabled = true
+) => {
+  const result = useInfiniteQuery({
+    queryKey: commentKeys.list(videoId, parentId),
+    queryFn: ({ pageParam }) => fetchComments({ videoId, parentId, cursor: pageParam }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) =>
+      lastPage.meta.hasMore ? lastPage.meta.nextCursor : undefined,
+    enabled: enabled && Boolean(videoId),
+    staleTime: 60 * 1000,
+  });
+
+  // Log errors when they occur
+  if (result.error) {
+    logger.queryError('comments.list', result.error);
+  }
+
+  return result;
+};
+
+/**
+ * Hook to post a comment or reply
+ * Comments written offline stay pending and are posted from the outbox later.
+ *
+ * @returns Mutation function and state with optimistic inserts
+ */
+export const useCreateComment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CommentInput) => sendOrDefer(() => createComment(input)),
+
+    // Show the comment immediately, marked as pending
+    onMutate: async (input) => {
+      const parentId = input.parentId ?? null;
+      const queryKey = commentKeys.list(input.videoId, parentId);
+      await queryClient.cancelQueries({ queryKey });
+
+      const user = useAuthStore.getState().user;
+      const now = new Date().toISOString();
+      const optimisticComment: CommentWithUser = {
+        id: `pending-${Date.now()}`,
+        video_id: input.videoId,
+        user_id: user?.id ?? '',
+        parent_id: parentId,
+        body: input.body.trim(),
+        reply_count: 0,
+        created_at: now,
+        updated_at: now,
+        user: user ?? undefined,
+        isPending: true,
+      };
+
+      queryClient.setQueryData<CommentPages>(queryKey, (data) => {
+        if (!data) return data;
+
+        const pages = [...data.pages];
+        if (parentId) {
+          // Replies read oldest first, so only append once the thread is fully loaded
+          const lastIndex = pages.length - 1;
+          if (pages[lastIndex].meta.hasMore) return data;
+          pages[lastIndex] = {
+            ...pages[lastIndex],
+            data: [...pages[lastIndex].data, optimisticComment],
+          };
+        } else {
+          pages[0] = { ...pages[0], data: [optimisticComment, ...pages[0].data] };
+        }
+
+        return { ...data, pages };
+      });
+
+      adjustCommentCount(queryClient, input.videoId, 1);
+      if (parentId) {
+        adjustReplyCount(queryClient, parentId, 1);
+      }
+
+      return { optimisticId: optimisticComment.id };
+    },
+
+    // Swap the pending comment for the saved one, or leave it pending
+    // until the outbox posts it
+    onSuccess: (comment, input, context) => {
+      if (!comment) {
+        useOutboxStore.getState().enqueue({
+          type: 'comment',
+          input,
+          optimisticId: context.optimisticId,
+        });
+        return;
+      }
+
+      resolvePendingComment(queryClient, context.optimisticId, comment);
+    },
+
+    // On error, remove the pending comment and restore the counts
+    onError: (error: Error, input, context) => {
+      handleApiError(error, 'createComment');
+
+      if (context) {
+        discardPendingComment(queryClient, input, context.optimisticId);
+      }
+    },
+  });
+};
+
+/**
+ * Hook to edit the text of a comment
+ *
+ * @returns Mutation function and state with optimistic updates
+ */
+export const useUpdateComment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ commentId, body }: { commentId: string; body: string }) =>
+      updateComment(commentId, body),
+
+    onMutate: async ({ commentId, body }) => {
+      await queryClient.cancelQueries({ queryKey: commentKeys.lists() });
+      const previousComments = queryClient.getQueriesData<CommentPages>({
+        queryKey: commentKeys.lists(),
+      });
+
+      updateCachedComments(queryClient, (comments) =>
+        comments.map((comment) =>
+          comment.id === commentId ? { ...comment, body: body.trim() } : comment
+        )
+      );
+
+      return { previousComments };
+    },
+
+    onSuccess: (updated) => {
+      updateCachedComments(queryClient, (comments) =>
+        comments.map((comment) => (comment.id === updated.id ? updated : comment))
+      );
+    },
+
+    // On error, roll back to previous values
+    onError: (error: Error, _variables, context) => {
+      handleApiError(error, 'updateComment');
+      context?.previousComments.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+    },
+  });
+};
+
+/**
+ * Hook to delete a comment and its replies
+ *
+ * @returns Mutation function and state with optimistic updates
+ */
+export const useDeleteComment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ comment }: { comment: CommentWithUser }) => deleteComment(comment.id),
+
+    onMutate: async ({ comment }) => {
+      await queryClient.cancelQueries({ queryKey: commentKeys.lists() });
+      const previousComments = queryClient.getQueriesData<CommentPages>({
+        queryKey: commentKeys.lists(),
+      });
+      const previousVideos = queryClient.getQueriesData({ queryKey: videoKeys.all });
+
+      updateCachedComments(queryClient, (comments) =>
+        comments.filter((cached) => cached.id !== comment.id)
+      );
+
+      // Replies are deleted along with their comment
+      adjustCommentCount(queryClient, comment.video_id, -(1 + comment.reply_count));
+      if (comment.parent_id) {
+        adjustReplyCount(queryClient, comment.parent_id, -1);
+      }
+
+      return { previousComments, previousVideos };
+    },
+
+    onSuccess: (_result, { comment }) => {
+      queryClient.removeQueries({ queryKey: commentKeys.list(comment.video_id, comment.id) });
+    },
+
+    // On error, roll back to previous values
+    onError: (error: Error, _variables, context) => {
+      handleApiError(error, 'deleteComment');
+      [...(context?.previousComments ?? []), ...(context?.previousVideos ?? [])].forEach(
+        ([queryKey, data]) => {
+          queryClient.setQueryData(queryKey, data);
+        }
+      );
+    },
+  });
+};
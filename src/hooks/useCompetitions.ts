@@ -0,0 +1,115 @@
+/**
+ * useCompetitions Hook
+ *
+ * Custom React-Query hooks for browsing competitions and submitting entries
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchCompetitions,
+  fetchCompetitionById,
+  submitCompetitionEntry,
+  fetchUserPlacements,
+} from '../services/api/competition.service';
+import type { CompetitionEntryInput, CompetitionParams } from '../types/competition.types';
+import { logger } from '../utils/logger';
+import { handleApiError } from '../utils/errorHandler';
+
+/**
+ * Query key factory for competitions
+ */
+export const competitionKeys = {
+  all: ['competitions'] as const,
+  lists: () => [...competitionKeys.all, 'list'] as const,
+  list: (params: CompetitionParams) => [...competitionKeys.lists(), params] as const,
+  details: () => [...competitionKeys.all, 'detail'] as const,
+  detail: (id: string) => [...competitionKeys.details(), id] as const,
+  placements: (userId: string) => [...competitionKeys.all, 'placements', userId] as const,
+};
+
+/**
+ * Hook to fetch competitions
+ *
+ * @param params - Optional status filter and pagination parameters
+ * @returns React-Query result with competitions data
+ */
+export const useCompetitions = (params: CompetitionParams = {}) => {
+  const result = useQuery({
+    queryKey: competitionKeys.list(params),
+    queryFn: () => fetchCompetitions(params),
+    staleTime: 60 * 1000, // 1 minute
+  });
+
+  // Log errors when they occur
+  if (result.error) {
+    logger.queryError('competitions.list', result.error);
+  }
+
+  return result;
+};
+
+/**
+ * Hook to fetch a single competition by ID
+ *
+ * @param id - Competition ID
+ * @param enabled - Whether the query should run
+ * @returns React-Query result with competition data
+ */
+export const useCompetition = (id: string, enabled = true) => {
+  const result = useQuery({
+    queryKey: competitionKeys.detail(id),
+    queryFn: () => fetchCompetitionById(id),
+    enabled: enabled && Boolean(id),
+    staleTime: 60 * 1000,
+  });
+
+  if (result.error) {
+    logger.queryError('competitions.detail', result.error);
+  }
+
+  return result;
+};
+
+/**
+ * Hook to fetch a user's competition placements
+ *
+ * @param userId - User whose placements to fetch
+ * @returns React-Query result with the user's competition entries
+ */
+export const useUserPlacements = (userId: string | undefined) => {
+  const result = useQuery({
+    queryKey: competitionKeys.placements(userId ?? ''),
+    queryFn: () => fetchUserPlacements(userId as string),
+    enabled: Boolean(userId),
+    staleTime: 60 * 1000,
+  });
+
+  if (result.error) {
+    logger.queryError('competitions.placements', result.error);
+  }
+
+  return result;
+};
+
+/**
+ * Hook to submit an entry to a competition
+ *
+ * @returns Mutation function and state
+ */
+export const useSubmitCompetitionEntry = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CompetitionEntryInput) => submitCompetitionEntry(input),
+    onSuccess: (entry) => {
+      // Refresh the competition's leaderboard and the user's rank
+      queryClient.invalidateQueries({ queryKey: ['leaderboard'] });
+      queryClient.invalidateQueries({ queryKey: ['userRank'] });
+      queryClient.invalidateQueries({ queryKey: competitionKeys.placements(entry.user_id) });
+      logger.info(`Entry submitted to competition ${entry.competition_id}`);
+    },
+    onError: (error: Error) => {
+      handleApiError(error, 'submitCompetitionEntry');
+    },
+  });
+};
@@ -0,0 +1,134 @@
+/**
+ * useJudging Hook
+ *
+ * Custom React-Query hooks for the judge scoring workflow
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchRubric,
+  fetchJudgingEntries,
+  fetchJudgeAssignments,
+  isCompetitionJudge,
+  submitJudgeScores,
+} from '../services/api/judging.service';
+import type { JudgeScoresSubmission } from '../types/judging.types';
+import { logger } from '../utils/logger';
+import { handleApiError } from '../utils/errorHandler';
+
+/**
+ * Query key factory for judging
+ */
+export const judgingKeys = {
+  all: ['judging'] as const,
+  rubric: (competitionId: string) => [...judgingKeys.all, 'rubric', competitionId] as const,
+  isJudge: (competitionId: string, userId: string) =>
+    [...judgingKeys.all, 'isJudge', competitionId, userId] as const,
+  entries: (competitionId: string, judgeId: string) =>
+    [...judgingKeys.all, 'entries', competitionId, judgeId] as const,
+  assignments: (judgeId: string) => [...judgingKeys.all, 'assignments', judgeId] as const,
+};
+
+/**
+ * Hook to fetch a competition's scoring rubric
+ *
+ * @param competitionId - Competition ID
+ * @returns React-Query result with rubric criteria
+ */
+export const useRubric = (competitionId: string) => {
+  const result = useQuery({
+    queryKey: judgingKeys.rubric(competitionId),
+    queryFn: () => fetchRubric(competitionId),
+    enabled: Boolean(competitionId),
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  if (result.error) {
+    logger.queryError('judging.rubric', result.error);
+  }
+
+  return result;
+};
+
+/**
+ * Hook to check whether a user judges a competition
+ *
+ * @param competitionId - Competition ID
+ * @param userId - User ID (query is disabled until provided)
+ * @returns React-Query result resolving to true for judges
+ */
+export const useIsCompetitionJudge = (competitionId: string, userId: string | undefined) => {
+  return useQuery({
+    queryKey: judgingKeys.isJudge(competitionId, userId || ''),
+    queryFn: () => isCompetitionJudge(competitionId, userId as string),
+    enabled: Boolean(competitionId && userId),
+    staleTime: 10 * 60 * 1000,
+  });
+};
+
+/**
+ * Hook to fetch the competitions a judge is assigned to
+ *
+ * @param judgeId - Judge's user ID (query is disabled until provided)
+ * @returns React-Query result with open and judging competitions
+ */
+export const useJudgeAssignments = (judgeId: string | undefined) => {
+  const result = useQuery({
+    queryKey: judgingKeys.assignments(judgeId || ''),
+    queryFn: () => fetchJudgeAssignments(judgeId as string),
+    enabled: Boolean(judgeId),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  if (result.error) {
+    logger.queryError('judging.assignments', result.error);
+  }
+
+  return result;
+};
+
+/**
+ * Hook to fetch entries for a judge to score
+ *
+ * @param competitionId - Competition ID
+ * @param judgeId - Judge's user ID (query is disabled until provided)
+ * @returns React-Query result with entries and existing scores
+ */
+export const useJudgingEntries = (competitionId: string, judgeId: string | undefined) => {
+  const result = useQuery({
+    queryKey: judgingKeys.entries(competitionId, judgeId || ''),
+    queryFn: () => fetchJudgingEntries(competitionId, judgeId as string),
+    enabled: Boolean(competitionId && judgeId),
+  });
+
+  if (result.error) {
+    logger.queryError('judging.entries', result.error);
+  }
+
+  return result;
+};
+
+/**
+ * Hook to submit a judge's scores for an entry
+ *
+ * @param competitionId - Competition the entry belongs to
+ * @returns Mutation function and state
+ */
+export const useSubmitJudgeScores = (competitionId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (submission: JudgeScoresSubmission) => submitJudgeScores(submission),
+    onSuccess: (_scores, submission) => {
+      queryClient.invalidateQueries({
+        queryKey: judgingKeys.entries(competitionId, submission.judgeId),
+      });
+      // Scores are re-aggregated by the database, so refresh rankings
+      queryClient.invalidateQueries({ queryKey: ['leaderboard'] });
+      logger.info(`Scores submitted for entry ${submission.entryId}`);
+    },
+    onError: (error: Error) => {
+      handleApiError(error, 'submitJudgeScores');
+    },
+  });
+};
@@ -1,17 +1,153 @@
 /**
  * useLeaderboard Hook
  * 
- * Custom hook for fetching and managing leaderboard data using React-Query
+ * Custom hook for fetching and managing leaderboard data using React-Query.
+ * Leaderboard changes are streamed over a Supabase Realtime channel and
+ * patched into the cache; polling is only used while the channel is down.
  */
 
-import { useQuery, UseQueryResult } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient, UseQueryResult } from '@tanstack/react-query';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../config/supabase.config';
 import { fetchLeaderboard, fetchUserRank } from '../services/api/leaderboard.service';
-import type { LeaderboardEntryWithUser, LeaderboardParams, UserRank } from '../types/leaderboard.types';
+import type {
+  LeaderboardEntry,
+  LeaderboardEntryWithUser,
+  LeaderboardParams,
+  UserRank,
+} from '../types/leaderboard.types';
 import { logger } from '../utils/logger';
 import { handleApiError } from '../utils/errorHandler';
 
+// Polling interval used only while the realtime channel is disconnected
+const FALLBACK_REFETCH_INTERVAL = 30 * 1000;
+
+// Each subscriber gets its own channel so unmounting one screen
+// never tears down another screen's subscription
+let channelCount = 0;
+
+/**
+ * Apply a realtime change to a cached leaderboard page
+ * 
+ * Realtime payloads carry the bare leaderboard row without the joined user
+ * and video, so rows that are not already cached cannot be patched in.
+ * 
+ * @param entries - Cached leaderboard entries
+ * @param payload - Realtime change for a leaderboard row
+ * @param params - Parameters the cached page was fetched with
+ * @returns Patched entries, or null when the page has to be refetched
+ */
+const applyLeaderboardChange = (
+  entries: LeaderboardEntryWithUser[],
+  payload: RealtimePostgresChangesPayload<LeaderboardEntry>,
+  params: LeaderboardParams
+): LeaderboardEntryWithUser[] | null => {
+  const { competitionId, limit = 50, offset = 0 } = params;
+
+  // A full page can gain entries from the next page, and any page after the
+  // first can gain or lose entries from the one before it
+  const isFullPage = entries.length >= limit;
+  if (offset > 0) return null;
+
+  let next: LeaderboardEntryWithUser[];
+
+  switch (payload.eventType) {
+    case 'DELETE': {
+      const deletedId = payload.old.id;
+      if (!deletedId || isFullPage) return null;
+      next = entries.filter((entry) => entry.id !== deletedId);
+      break;
+    }
+    case 'UPDATE': {
+      const updated = payload.new;
+      if (!entries.some((entry) => entry.id === updated.id)) return null;
+      next = entries
+        .map((entry) =>
+          entry.id === updated.id
+            ? { ...entry, ...updated, user: entry.user, video: entry.video }
+            : entry
+        )
+        .sort((a, b) => b.score - a.score);
+
+      // An entry that dropped to the bottom may now rank below the next page
+      if (isFullPage && next[next.length - 1].id === updated.id) return null;
+      break;
+    }
+    default:
+      return null;
+  }
+
+  // Stored ranks are per competition, so the global view ranks by position
+  return competitionId ? next : next.map((entry, index) => ({ ...entry, rank: index + 1 }));
+};
+
 /**
- * Hook to fetch leaderboard data with auto-refresh
+ * Hook to subscribe to realtime leaderboard changes
+ * 
+ * Patches the cached leaderboard for the given parameters as rows are
+ * inserted, updated, or deleted.
+ * 
+ * @param params - Parameters of the leaderboard query to keep in sync
+ * @returns Whether the realtime channel is currently connected
+ */
+export const useLeaderboardSubscription = (params: LeaderboardParams = {}): boolean => {
+  const queryClient = useQueryClient();
+  const [isConnected, setIsConnected] = useState(false);
+  const { competitionId, limit, offset } = params;
+
+  useEffect(() => {
+    const subscribedParams: LeaderboardParams = { competitionId, limit, offset };
+    const queryKey = ['leaderboard', subscribedParams];
+    let hasConnected = false;
+
+    const channel = supabase
+      .channel(`leaderboard:${competitionId ?? 'global'}:${++channelCount}`)
+      .on<LeaderboardEntry>(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'leaderboard',
+          ...(competitionId ? { filter: `competition_id=eq.${competitionId}` } : {}),
+        },
+        (payload) => {
+          const entries = queryClient.getQueryData<LeaderboardEntryWithUser[]>(queryKey);
+          if (!entries) return;
+
+          const patched = applyLeaderboardChange(entries, payload, subscribedParams);
+          if (patched) {
+            queryClient.setQueryData(queryKey, patched);
+          } else {
+            queryClient.invalidateQueries({ queryKey, exact: true });
+          }
+        }
+      )
+      .subscribe((status, error) => {
+        const connected = status === 'SUBSCRIBED';
+        setIsConnected(connected);
+
+        if (error) {
+          logger.warn(`Leaderboard realtime channel ${status.toLowerCase()}`, error);
+        }
+
+        // Catch up on anything missed while reconnecting
+        if (connected && hasConnected) {
+          queryClient.invalidateQueries({ queryKey, exact: true });
+        }
+        hasConnected = hasConnected || connected;
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient, competitionId, limit, offset]);
+
+  return isConnected;
+};
+
+/**
+ * Hook to fetch leaderboard data kept up to date in realtime
  * 
  * @param params - Optional parameters for pagination
  * @returns React-Query result with leaderboard data
@@ -19,11 +155,14 @@ import { handleApiError } from '../utils/errorHandler';
 export const useLeaderboard = (
   params: LeaderboardParams = {}
 ): UseQueryResult<LeaderboardEntryWithUser[], Error> => {
+  const isRealtimeConnected = useLeaderboardSubscription(params);
+
   const result = useQuery({
     queryKey: ['leaderboard', params],
     queryFn: () => fetchLeaderboard(params),
     staleTime: 30 * 1000, // Consider data stale after 30 seconds
-    refetchInterval: 30 * 1000, // Auto-refresh every 30 seconds
+    // Fall back to polling only while realtime updates are unavailable
+    refetchInterval: isRealtimeConnected ? false : FALLBACK_REFETCH_INTERVAL,
     refetchOnWindowFocus: true,
     retry: 3,
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
@@ -0,0 +1,206 @@
+/**
+ * useOutbox Hook
+ *
+ * Sends likes, views and comments queued while offline once the app is
+ * back online, and tells components what is still waiting to be sent.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import NetInfo from '@react-native-community/netinfo';
+import { useQueryClient, QueryClient } from '@tanstack/react-query';
+import { recordView, setLike } from '../services/api/video.service';
+import { createComment } from '../services/api/comment.service';
+import { useAuthStore } from '../store/authStore';
+import { useOutboxStore } from '../store/outboxStore';
+import type { OutboxEntry } from '../types/outbox.types';
+import { applyLikeResult, applyViewResult, videoKeys } from './useVideos';
+import { discardPendingComment, resolvePendingComment } from './useComments';
+import { isNetworkError, handleApiError } from '../utils/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * Send one queued mutation and show the result in the cache
+ */
+const sendEntry = async (queryClient: QueryClient, entry: OutboxEntry): Promise<void> => {
+  switch (entry.type) {
+    case 'like': {
+      const result = await setLike(entry.videoId, entry.liked);
+
+      // A newer like of this video is still queued and already shown
+      const isSuperseded = useOutboxStore
+        .getState()
+        .entries.some(
+          (queued) => queued.type === 'like' && queued.videoId === entry.videoId && queued.id !== entry.id
+        );
+      if (!isSuperseded) {
+        applyLikeResult(queryClient, result);
+      }
+      break;
+    }
+
+    case 'view':
+      applyViewResult(queryClient, await recordView(entry.view));
+      break;
+
+    case 'comment':
+      resolvePendingComment(queryClient, entry.optimisticId, await createComment(entry.input));
+      break;
+  }
+};
+
+/**
+ * Undo the optimistic update of a mutation that can never be sent
+ */
+const abandonEntry = (queryClient: QueryClient, entry: OutboxEntry, error: unknown) => {
+  switch (entry.type) {
+    case 'like':
+      queryClient.invalidateQueries({ queryKey: videoKeys.all });
+      handleApiError(error, 'outbox.like', false);
+      break;
+
+    case 'view':
+      handleApiError(error, 'outbox.view', false);
+      break;
+
+    case 'comment':
+      discardPendingComment(queryClient, entry.input, entry.optimisticId);
+      handleApiError(error, 'outbox.comment');
+      break;
+  }
+};
+
+/**
+ * Replay the outbox for the lifetime of the app
+ *
+ * Entries are sent oldest first. When one fails for lack of a connection
+ * it is retried with exponential backoff and the rest wait behind it, so
+ * mutations reach the server in the order they were made. Entries queued
+ * by another account are dropped.
+ */
+export const useOutboxSync = () => {
+  const queryClient = useQueryClient();
+  const isFlushing = useRef(false);
+  const retryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const flush = useCallback(async () => {
+    if (isFlushing.current) return;
+    isFlushing.current = true;
+
+    if (retryTimer.current) {
+      clearTimeout(retryTimer.current);
+      retryTimer.current = null;
+    }
+
+    try {
+      const userId = useAuthStore.getState().user?.id;
+      const outbox = useOutboxStore.getState();
+
+      // Wait for the user who made the mutations to sign in
+      if (!userId || !outbox.isOnline) return;
+
+      for (const entry of outbox.entries) {
+        if (!useOutboxStore.getState().entries.some((queued) => queued.id === entry.id)) {
+          // Superseded while earlier entries were sent
+          continue;
+        }
+
+        if (entry.userId !== userId) {
+          outbox.remove(entry.id);
+          continue;
+        }
+
+        if (entry.nextAttemptAt > Date.now()) break;
+
+        try {
+          await sendEntry(queryClient, entry);
+          outbox.remove(entry.id);
+        } catch (error) {
+          if (isNetworkError(error)) {
+            outbox.retryLater(entry.id);
+            break;
+          }
+
+          outbox.remove(entry.id);
+          abandonEntry(queryClient, entry, error);
+        }
+      }
+    } finally {
+      isFlushing.current = false;
+    }
+
+    // Come back for whatever is still waiting
+    const { entries, isOnline } = useOutboxStore.getState();
+    if (entries.length > 0 && isOnline) {
+      const nextAttemptAt = Math.min(...entries.map((entry) => entry.nextAttemptAt));
+      retryTimer.current = setTimeout(flush, Math.max(0, nextAttemptAt - Date.now()));
+    }
+  }, [queryClient]);
+
+  useEffect(() => {
+    const { restoreOutbox } = useOutboxStore.getState();
+    restoreOutbox().then(flush);
+
+    // Send as soon as the connection comes back
+    const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      const isOnline = Boolean(state.isConnected) && state.isInternetReachable !== false;
+      const outbox = useOutboxStore.getState();
+      if (isOnline === outbox.isOnline) return;
+
+      outbox.setOnline(isOnline);
+      if (isOnline) {
+        logger.info('Back online, sending queued changes');
+        outbox.retryNow();
+        flush();
+      }
+    });
+
+    // Send newly queued entries, e.g. after a request failed mid-flight
+    const unsubscribeOutbox = useOutboxStore.subscribe((state, previous) => {
+      if (state.entries.length > previous.entries.length) {
+        flush();
+      }
+    });
+
+    // Entries wait for their user to sign in
+    const unsubscribeAuth = useAuthStore.subscribe((state, previous) => {
+      if (state.user?.id && state.user.id !== previous.user?.id) {
+        flush();
+      }
+    });
+
+    return () => {
+      unsubscribeNetInfo();
+      unsubscribeOutbox();
+      unsubscribeAuth();
+      if (retryTimer.current) {
+        clearTimeout(retryTimer.current);
+      }
+    };
+  }, [flush]);
+};
+
+/**
+ * Hook to check whether a video has a like or comment waiting to be sent
+ *
+ * @param videoId - Video ID
+ * @returns True while the video has unsent changes
+ */
+export const useHasPendingChanges = (videoId: string) =>
+  useOutboxStore((state) =>
+    state.entries.some(
+      (entry) =>
+        (entry.type === 'like' && entry.videoId === videoId) ||
+        (entry.type === 'comment' && entry.input.videoId === videoId)
+    )
+  );
+
+/**
+ * Hook to check whether a pending comment is waiting in the outbox
+ *
+ * @param commentId - ID of the (pending) comment
+ * @returns True while the comment is queued to be posted
+ */
+export const useIsCommentQueued = (commentId: string) =>
+  useOutboxStore((state) =>
+    state.entries.some((entry) => entry.type === 'comment' && entry.optimisticId === commentId)
+  );
@@ -0,0 +1,84 @@
+/**
+ * usePlayerPool Hook
+ *
+ * Decides which feed items get a mounted video player. Only the active
+ * video and its neighbours have players, so the next clip is already
+ * loading when the viewer swipes to it and players far from the viewport
+ * are unmounted, which unloads them and caps memory use however long the
+ * feed gets. Also measures time to first frame for each video.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { recordTimeToFirstFrame } from '../utils/performance';
+
+/**
+ * Players kept ahead of the active video, preloading upcoming clips
+ */
+const PRELOAD_AHEAD = 1;
+
+/**
+ * Players kept behind the active video, so swiping back is instant
+ */
+const KEEP_BEHIND = 1;
+
+/**
+ * Hook to manage the feed's player pool
+ *
+ * @param videoIds - IDs of the feed videos, in order
+ * @param activeIndex - Index of the video on screen
+ * @returns Whether an item should mount a player, and a callback for when a player shows its first frame
+ */
+export const usePlayerPool = (videoIds: string[], activeIndex: number) => {
+  // Players in the pool that have rendered their first frame
+  const readyIds = useRef(new Set<string>());
+  const activation = useRef<{ videoId: string; startedAt: number } | null>(null);
+  const activeId = videoIds[activeIndex];
+
+  const isInPool = useCallback(
+    (index: number) => index >= activeIndex - KEEP_BEHIND && index <= activeIndex + PRELOAD_AHEAD,
+    [activeIndex]
+  );
+
+  // Start timing when a video becomes active, unless it is already showing
+  useEffect(() => {
+    if (!activeId) return;
+
+    if (readyIds.current.has(activeId)) {
+      activation.current = null;
+      recordTimeToFirstFrame({ videoId: activeId, durationMs: 0, preloaded: true });
+    } else {
+      activation.current = { videoId: activeId, startedAt: Date.now() };
+    }
+  }, [activeId]);
+
+  // Players that left the pool are unloaded and will have to load again
+  useEffect(() => {
+    const poolIds = new Set(
+      videoIds.slice(Math.max(0, activeIndex - KEEP_BEHIND), activeIndex + PRELOAD_AHEAD + 1)
+    );
+
+    readyIds.current.forEach((videoId) => {
+      if (!poolIds.has(videoId)) {
+        readyIds.current.delete(videoId);
+      }
+    });
+  }, [videoIds, activeIndex]);
+
+  /**
+   * Record that a player rendered its first frame
+   */
+  const handleFirstFrame = useCallback((videoId: string) => {
+    readyIds.current.add(videoId);
+
+    if (activation.current?.videoId === videoId) {
+      recordTimeToFirstFrame({
+        videoId,
+        durationMs: Date.now() - activation.current.startedAt,
+        preloaded: false,
+      });
+      activation.current = null;
+    }
+  }, []);
+
+  return { isInPool, handleFirstFrame };
+};
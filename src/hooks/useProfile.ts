@@ -0,0 +1,148 @@
+/**
+ * useProfile Hook
+ *
+ * Custom React-Query hooks for fetching and editing user profiles
+ */
+
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchUserProfile,
+  isUsernameAvailable,
+  updateProfile,
+  uploadAvatar,
+} from '../services/api/user.service';
+import type { ProfileUpdateInput } from '../types/user.types';
+import { useAuthStore } from '../store/authStore';
+import { updateCachedVideos } from './useVideos';
+import { commentKeys } from './useComments';
+import { validateUsername } from '../utils/validation';
+import { logger } from '../utils/logger';
+import { handleApiError } from '../utils/errorHandler';
+
+// Wait for typing to pause before checking a username
+const USERNAME_CHECK_DELAY = 400;
+
+/**
+ * Query key factory for user profiles
+ */
+export const profileKeys = {
+  all: ['profiles'] as const,
+  details: () => [...profileKeys.all, 'detail'] as const,
+  detail: (userId: string) => [...profileKeys.details(), userId] as const,
+  usernameAvailability: (username: string) =>
+    [...profileKeys.all, 'usernameAvailability', username] as const,
+};
+
+/**
+ * Profile changes submitted from the edit profile screen
+ */
+interface ProfileEdit extends Omit<ProfileUpdateInput, 'avatarUrl'> {
+  avatar?: { uri: string; mimeType?: string };
+}
+
+/**
+ * Hook to fetch a user's profile
+ *
+ * @param userId - User ID
+ * @returns React-Query result with the user's profile
+ */
+export const useUserProfile = (userId: string | undefined) => {
+  const result = useQuery({
+    queryKey: profileKeys.detail(userId ?? ''),
+    queryFn: () => fetchUserProfile(userId as string),
+    enabled: Boolean(userId),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  if (result.error) {
+    logger.queryError('profiles.detail', result.error);
+  }
+
+  return result;
+};
+
+/**
+ * Hook to check whether a username is available as the user types
+ *
+ * Only valid usernames that differ from the user's current one are checked.
+ *
+ * @param username - Username as typed by the user
+ * @returns Whether the username is available (undefined while unknown) and whether a check is running
+ */
+export const useUsernameAvailability = (username: string) => {
+  const currentUser = useAuthStore((state) => state.user);
+  const trimmed = username.trim();
+  const [debounced, setDebounced] = useState(trimmed);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(trimmed), USERNAME_CHECK_DELAY);
+    return () => clearTimeout(timeout);
+  }, [trimmed]);
+
+  const shouldCheck =
+    debounced === trimmed &&
+    !validateUsername(trimmed) &&
+    trimmed !== currentUser?.username;
+
+  const result = useQuery({
+    queryKey: profileKeys.usernameAvailability(debounced),
+    queryFn: () => isUsernameAvailable(debounced, currentUser?.id),
+    enabled: shouldCheck,
+    staleTime: 30 * 1000,
+  });
+
+  if (result.error) {
+    logger.queryError('profiles.usernameAvailability', result.error);
+  }
+
+  return {
+    isAvailable: shouldCheck ? result.data : undefined,
+    isChecking: trimmed !== debounced || (shouldCheck && result.isFetching),
+  };
+};
+
+/**
+ * Hook to edit the signed in user's profile
+ *
+ * Uploads a new avatar first when one is picked, then saves the profile and
+ * propagates it to the auth store and every cached copy of the user.
+ *
+ * @returns Mutation function and state
+ */
+export const useUpdateProfile = () => {
+  const queryClient = useQueryClient();
+  const userId = useAuthStore((state) => state.user?.id);
+  const setUser = useAuthStore((state) => state.setUser);
+
+  return useMutation({
+    mutationFn: async ({ avatar, ...changes }: ProfileEdit) => {
+      if (!userId) {
+        throw new Error('You must be signed in to edit your profile');
+      }
+
+      const avatarUrl = avatar
+        ? await uploadAvatar(userId, avatar.uri, avatar.mimeType)
+        : undefined;
+
+      return updateProfile(userId, { ...changes, avatarUrl });
+    },
+    onSuccess: async (user) => {
+      await setUser(user);
+      queryClient.setQueryData(profileKeys.detail(user.id), user);
+
+      // Show the new username and avatar on the user's videos in the feed
+      updateCachedVideos(queryClient, (video) =>
+        video.user_id === user.id ? { ...video, user } : video
+      );
+
+      // Leaderboards and comments embed the user too
+      queryClient.invalidateQueries({ queryKey: ['leaderboard'] });
+      queryClient.invalidateQueries({ queryKey: commentKeys.all });
+      logger.info('Profile updated');
+    },
+    onError: (error: Error) => {
+      handleApiError(error, 'updateProfile');
+    },
+  });
+};
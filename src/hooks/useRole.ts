@@ -0,0 +1,43 @@
+/**
+ * useRole Hook
+ *
+ * Reads the signed in user's role and checks it against the roles a
+ * screen or action needs. Admins pass every check, matching has_role()
+ * in the database.
+ */
+
+import { useCallback } from 'react';
+import { useAuthStore } from '../store/authStore';
+import type { UserRole } from '../types/user.types';
+
+/**
+ * Check whether a role grants any of the required roles
+ *
+ * @param role - Role to check, or null when signed out
+ * @param required - Roles that are allowed
+ * @returns True if the role is allowed
+ */
+export const roleSatisfies = (role: UserRole | null, required: UserRole[]): boolean =>
+  role === 'admin' || (role !== null && required.includes(role));
+
+/**
+ * Hook to read the signed in user's role
+ *
+ * @returns The role and helpers for common checks
+ */
+export const useRole = () => {
+  const role = useAuthStore((state) => state.role);
+
+  const hasRole = useCallback(
+    (...required: UserRole[]) => roleSatisfies(role, required),
+    [role]
+  );
+
+  return {
+    role,
+    hasRole,
+    isAdmin: role === 'admin',
+    isJudge: roleSatisfies(role, ['judge']),
+    isModerator: roleSatisfies(role, ['moderator']),
+  };
+};
@@ -0,0 +1,112 @@
+/**
+ * useSocial Hook
+ *
+ * React-Query hooks for following creators. Follow toggles update follow
+ * state and profile counts optimistically.
+ */
+
+import { useQuery, useMutation, useQueryClient, QueryClient } from '@tanstack/react-query';
+import { fetchIsFollowing, followUser, unfollowUser } from '../services/api/social.service';
+import type { User } from '../types/user.types';
+import type { VideoPaginationParams } from '../types/video.types';
+import { useAuthStore } from '../store/authStore';
+import { profileKeys } from './useProfile';
+import { videoKeys } from './useVideos';
+import { logger } from '../utils/logger';
+import { handleApiError } from '../utils/errorHandler';
+
+/**
+ * Query key factory for the follow graph
+ */
+export const socialKeys = {
+  all: ['social'] as const,
+  isFollowing: (userId: string) => [...socialKeys.all, 'isFollowing', userId] as const,
+};
+
+/**
+ * Change a follow count on a cached profile
+ */
+const adjustProfileCount = (
+  queryClient: QueryClient,
+  userId: string,
+  field: 'followers_count' | 'following_count',
+  delta: number
+) => {
+  queryClient.setQueryData<User>(profileKeys.detail(userId), (profile) =>
+    profile ? { ...profile, [field]: Math.max(0, profile[field] + delta) } : profile
+  );
+};
+
+/**
+ * Hook to check whether the signed in user follows a user
+ *
+ * @param userId - User who may be followed
+ * @param enabled - Whether the query should run
+ * @returns React-Query result resolving to true if they are followed
+ */
+export const useIsFollowing = (userId: string | undefined, enabled = true) => {
+  const result = useQuery({
+    queryKey: socialKeys.isFollowing(userId ?? ''),
+    queryFn: () => fetchIsFollowing(userId as string),
+    enabled: enabled && Boolean(userId),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  if (result.error) {
+    logger.queryError('social.isFollowing', result.error);
+  }
+
+  return result;
+};
+
+/**
+ * Hook to follow or unfollow a user
+ *
+ * @returns Mutation function and state with optimistic updates
+ */
+export const useToggleFollow = () => {
+  const queryClient = useQueryClient();
+  const currentUserId = useAuthStore((state) => state.user?.id);
+
+  return useMutation({
+    mutationFn: ({ userId, isFollowing }: { userId: string; isFollowing: boolean }) =>
+      isFollowing ? unfollowUser(userId) : followUser(userId),
+
+    onMutate: async ({ userId, isFollowing }) => {
+      await queryClient.cancelQueries({ queryKey: socialKeys.isFollowing(userId) });
+
+      const delta = isFollowing ? -1 : 1;
+      queryClient.setQueryData(socialKeys.isFollowing(userId), !isFollowing);
+      adjustProfileCount(queryClient, userId, 'followers_count', delta);
+      if (currentUserId) {
+        adjustProfileCount(queryClient, currentUserId, 'following_count', delta);
+      }
+
+      return { delta };
+    },
+
+    onSuccess: (result) => {
+      queryClient.setQueryData(socialKeys.isFollowing(result.followeeId), result.isFollowing);
+
+      // The following feed now includes (or excludes) this creator's videos
+      queryClient.invalidateQueries({
+        queryKey: videoKeys.all,
+        predicate: (query) =>
+          (query.queryKey[2] as VideoPaginationParams | undefined)?.feed === 'following',
+      });
+    },
+
+    // On error, roll back to previous values
+    onError: (error: Error, { userId, isFollowing }, context) => {
+      handleApiError(error, 'toggleFollow');
+      queryClient.setQueryData(socialKeys.isFollowing(userId), isFollowing);
+
+      if (context) {
+        adjustProfileCount(queryClient, userId, 'followers_count', -context.delta);
+        if (currentUserId) {
+          adjustProfileCount(queryClient, currentUserId, 'following_count', -context.delta);
+        }
+      }
+    },
+  });
+};
@@ -0,0 +1,89 @@
+/**
+ * useVideoFrames Hook
+ *
+ * Extracts evenly spaced frames from a video on the device, so the dancer
+ * can pick one as the video's thumbnail before uploading.
+ */
+
+import { useEffect, useState } from 'react';
+import { getThumbnailAsync } from 'expo-video-thumbnails';
+import type { VideoFrame } from '../types/video.types';
+import { logger } from '../utils/logger';
+
+/**
+ * Number of frames offered to choose from
+ */
+const FRAME_COUNT = 8;
+
+/**
+ * Spacing of the frames when the length of the video is not known
+ */
+const FALLBACK_FRAME_INTERVAL_MS = 1000;
+
+/**
+ * JPEG quality of the extracted frames; keeps 1080p frames well under the
+ * thumbnails bucket's size limit
+ */
+const FRAME_QUALITY = 0.7;
+
+/**
+ * Times to take frames at, spread across the video and avoiding the very
+ * first and last frames, which are often black
+ */
+const getFrameTimes = (durationMs: number | null | undefined): number[] =>
+  Array.from({ length: FRAME_COUNT }, (_, index) =>
+    durationMs
+      ? Math.round((durationMs * (index + 0.5)) / FRAME_COUNT)
+      : index * FALLBACK_FRAME_INTERVAL_MS
+  );
+
+/**
+ * Hook to extract candidate thumbnail frames from a local video
+ *
+ * @param videoUri - Local URI of the video, or null when none is picked
+ * @param durationMs - Length of the video, if known
+ * @returns Frames extracted so far and whether extraction is still running
+ */
+export const useVideoFrames = (videoUri: string | null, durationMs?: number | null) => {
+  const [frames, setFrames] = useState<VideoFrame[]>([]);
+  const [isExtracting, setIsExtracting] = useState(false);
+
+  useEffect(() => {
+    setFrames([]);
+    if (!videoUri) return;
+
+    let isCancelled = false;
+    setIsExtracting(true);
+
+    const extractFrames = async () => {
+      for (const timeMs of getFrameTimes(durationMs)) {
+        try {
+          const { uri, width, height } = await getThumbnailAsync(videoUri, {
+            time: timeMs,
+            quality: FRAME_QUALITY,
+          });
+          if (isCancelled) return;
+
+          // Show each frame as soon as it is ready
+          setFrames((current) => [...current, { uri, timeMs, width, height }]);
+        } catch (error) {
+          // Past the end of a video of unknown length, or an unreadable frame
+          logger.debug(`Could not extract frame at ${timeMs}ms`, error);
+        }
+      }
+
+      if (!isCancelled) {
+        setIsExtracting(false);
+      }
+    };
+
+    extractFrames();
+
+    return () => {
+      isCancelled = true;
+      setIsExtracting(false);
+    };
+  }, [videoUri, durationMs]);
+
+  return { frames, isExtracting };
+};
@@ -0,0 +1,159 @@
+/**
+ * useVideoSource Hook
+ *
+ * Picks what the player loads for a video: the HLS master manifest, one of
+ * its renditions, or the MP4 in `video_url` when the video has no stream.
+ * Follows the quality chosen in the player settings and, on Auto, the
+ * current network connection.
+ */
+
+import { useEffect, useMemo } from 'react';
+import {
+  useNetInfo,
+  NetInfoCellularGeneration,
+  NetInfoState,
+  NetInfoStateType,
+} from '@react-native-community/netinfo';
+import type { Json } from '../types/database.types';
+import type { Video, VideoQuality, VideoRendition, VideoSource } from '../types/video.types';
+import { usePlaybackStore } from '../store/playbackStore';
+
+/**
+ * Tallest rendition played on Auto over mobile data
+ */
+const MOBILE_DATA_MAX_HEIGHT = 480;
+
+/**
+ * How much bandwidth the current connection can be trusted with
+ */
+type ConnectionClass = 'unmetered' | 'cellular' | 'slow';
+
+/**
+ * Last connection NetInfo reported, shared by every player so one mounted
+ * before NetInfo has checked the network starts from the known connection
+ */
+let lastConnection: ConnectionClass = 'unmetered';
+
+/**
+ * Read the renditions column, skipping malformed entries
+ *
+ * @returns Renditions ordered from lowest to highest bitrate
+ */
+const parseRenditions = (renditions: Json | undefined): VideoRendition[] => {
+  if (!Array.isArray(renditions)) return [];
+
+  return renditions
+    .filter(
+      (rendition): rendition is { [key: string]: Json } =>
+        typeof rendition === 'object' &&
+        rendition !== null &&
+        !Array.isArray(rendition) &&
+        typeof rendition.url === 'string' &&
+        typeof rendition.height === 'number' &&
+        typeof rendition.bitrate === 'number'
+    )
+    .map((rendition) => ({
+      url: rendition.url as string,
+      height: rendition.height as number,
+      bitrate: rendition.bitrate as number,
+    }))
+    .sort((a, b) => a.bitrate - b.bitrate);
+};
+
+/**
+ * Classify the connection reported by NetInfo
+ *
+ * An unknown connection, as reported before NetInfo has checked the network,
+ * keeps the last known class so the player does not reload for it.
+ */
+const classifyConnection = (state: NetInfoState): ConnectionClass => {
+  if (state.type === NetInfoStateType.unknown) return lastConnection;
+  if (state.type !== NetInfoStateType.cellular) return 'unmetered';
+
+  const generation = state.details?.cellularGeneration;
+  return generation === NetInfoCellularGeneration['2g'] ||
+    generation === NetInfoCellularGeneration['3g']
+    ? 'slow'
+    : 'cellular';
+};
+
+/**
+ * Hook to get the class of the current connection
+ */
+const useConnectionClass = (): ConnectionClass => {
+  const connection = classifyConnection(useNetInfo());
+
+  useEffect(() => {
+    lastConnection = connection;
+  }, [connection]);
+
+  return connection;
+};
+
+/**
+ * Choose the source for a video
+ *
+ * Auto plays the master manifest, so the player adapts to bandwidth by
+ * itself, except on mobile data where it is capped to a rendition of at
+ * most MOBILE_DATA_MAX_HEIGHT, and on 2G/3G where the lowest rendition is
+ * used. Low and High pin the lowest and highest rendition.
+ */
+const selectVideoSource = (
+  video: Pick<Video, 'video_url' | 'stream_url' | 'renditions'>,
+  quality: VideoQuality,
+  connection: ConnectionClass
+): VideoSource => {
+  const renditions = parseRenditions(video.renditions);
+  const lowest = renditions[0];
+  const highest = renditions[renditions.length - 1];
+
+  let rendition: VideoRendition | undefined;
+  if (quality === 'low') {
+    rendition = lowest;
+  } else if (quality === 'high') {
+    rendition = highest;
+  } else if (connection === 'slow') {
+    rendition = lowest;
+  } else if (connection === 'cellular') {
+    rendition =
+      [...renditions].reverse().find((r) => r.height <= MOBILE_DATA_MAX_HEIGHT) ?? lowest;
+  } else if (!video.stream_url) {
+    rendition = highest;
+  }
+
+  if (rendition) {
+    return { uri: rendition.url, isStream: true };
+  }
+
+  if (video.stream_url) {
+    return { uri: video.stream_url, isStream: true };
+  }
+
+  return { uri: video.video_url, isStream: false };
+};
+
+/**
+ * Whether a video has an HLS stream, so its quality can be changed
+ *
+ * @param video - Video with its stream columns
+ * @returns False when only the MP4 in `video_url` exists
+ */
+export const hasStream = (video: Pick<Video, 'stream_url' | 'renditions'>): boolean =>
+  Boolean(video.stream_url) || parseRenditions(video.renditions).length > 0;
+
+/**
+ * Hook to get the source the player should load for a video
+ *
+ * @param video - Video with its stream columns
+ * @returns Source to load, re-chosen when the quality setting or connection changes
+ */
+export const useVideoSource = (
+  video: Pick<Video, 'video_url' | 'stream_url' | 'renditions'>
+): VideoSource => {
+  const quality = usePlaybackStore((state) => state.quality);
+  const connection = useConnectionClass();
+  const { uri, isStream } = selectVideoSource(video, quality, connection);
+
+  // Keep the same object while the choice holds, so the player does not reload
+  return useMemo(() => ({ uri, isStream }), [uri, isStream]);
+};
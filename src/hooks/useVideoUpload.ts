@@ -0,0 +1,156 @@
+/**
+ * useVideoUpload Hook
+ *
+ * Uploads a video and its thumbnail from the device, publishes it to the
+ * feed and optionally enters it into a competition, exposing upload
+ * progress.
+ */
+
+import { useRef, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  deleteVideoFile,
+  uploadThumbnail,
+  uploadVideoFile,
+} from '../services/api/storage.service';
+import { createVideo } from '../services/api/video.service';
+import {
+  submitCompetitionEntry,
+  validateCompetitionEntry,
+} from '../services/api/competition.service';
+import { useAuthStore } from '../store/authStore';
+import { videoKeys } from './useVideos';
+import type { UploadProgress, VideoUploadInput, VideoWithUser } from '../types/video.types';
+import { logger } from '../utils/logger';
+import { handleApiError } from '../utils/errorHandler';
+
+/**
+ * Upload a video and its thumbnail and create the video row
+ *
+ * The uploaded file is deleted again if the row cannot be created, so a
+ * failed publish does not leave an orphaned file in storage.
+ */
+const publishVideo = async (
+  input: VideoUploadInput,
+  userId: string,
+  onProgress: (progress: UploadProgress) => void
+): Promise<VideoWithUser> => {
+  const { storagePath, publicUrl } = await uploadVideoFile({
+    fileUri: input.fileUri,
+    userId,
+    mimeType: input.mimeType,
+    onProgress,
+  });
+
+  // A missing thumbnail should not stop the video from being published
+  let thumbnailUrl: string | null = null;
+  if (input.thumbnailUri) {
+    try {
+      thumbnailUrl = await uploadThumbnail(userId, input.thumbnailUri);
+    } catch (error) {
+      logger.warn('Publishing video without a thumbnail', error);
+    }
+  }
+
+  try {
+    return await createVideo({
+      title: input.title,
+      description: input.description || null,
+      video_url: publicUrl,
+      thumbnail_url: thumbnailUrl,
+      storage_path: storagePath,
+      user_id: userId,
+      duration_ms: input.metadata?.durationMs ?? null,
+      width: input.metadata?.width ?? null,
+      height: input.metadata?.height ?? null,
+      format: input.metadata?.format ?? null,
+      size_bytes: input.metadata?.sizeBytes ?? null,
+    });
+  } catch (error) {
+    await deleteVideoFile(storagePath).catch((deleteError) =>
+      logger.warn(`Could not delete unpublished upload ${storagePath}`, deleteError)
+    );
+    throw error;
+  }
+};
+
+/**
+ * Hook to upload and publish a video
+ *
+ * @returns Mutation function and state with upload progress
+ */
+export const useVideoUpload = () => {
+  const queryClient = useQueryClient();
+  const userId = useAuthStore((state) => state.user?.id);
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+
+  // Video published by an attempt whose competition entry then failed, so
+  // retrying the same file only retries the entry
+  const publishedVideo = useRef<{ fileUri: string; video: VideoWithUser } | null>(null);
+
+  const mutation = useMutation({
+    mutationFn: async (input: VideoUploadInput) => {
+      if (!userId) {
+        throw new Error('You must be signed in to upload videos');
+      }
+
+      // Reject an entry the competition would refuse before anything is uploaded,
+      // so a failed entry does not leave a published video behind
+      if (input.competitionId) {
+        await validateCompetitionEntry(
+          input.competitionId,
+          userId,
+          input.metadata?.durationMs
+        );
+      }
+
+      const published = publishedVideo.current;
+      const video =
+        published?.fileUri === input.fileUri
+          ? published.video
+          : await publishVideo(input, userId, setProgress);
+
+      if (input.competitionId) {
+        publishedVideo.current = { fileUri: input.fileUri, video };
+
+        await submitCompetitionEntry({
+          competitionId: input.competitionId,
+          userId,
+          videoId: video.id,
+        });
+      }
+
+      publishedVideo.current = null;
+      return video;
+    },
+    onSuccess: (video, input) => {
+      // The feed and profile grids read infinite queries, so refresh those as well as plain lists
+      queryClient.invalidateQueries({ queryKey: videoKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: videoKeys.infinites() });
+      if (input.competitionId) {
+        queryClient.invalidateQueries({ queryKey: ['leaderboard'] });
+      }
+      logger.info(`Video ${video.id} uploaded successfully`);
+    },
+    onError: (error: Error) => {
+      // The video may have been published before its competition entry failed
+      if (publishedVideo.current) {
+        queryClient.invalidateQueries({ queryKey: videoKeys.lists() });
+        queryClient.invalidateQueries({ queryKey: videoKeys.infinites() });
+      }
+      handleApiError(error, 'uploadVideo');
+    },
+    onSettled: () => {
+      setProgress(null);
+    },
+  });
+
+  return {
+    upload: mutation.mutate,
+    uploadAsync: mutation.mutateAsync,
+    isUploading: mutation.isPending,
+    uploadError: mutation.error,
+    progress,
+    reset: mutation.reset,
+  };
+};
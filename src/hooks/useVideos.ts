@@ -5,14 +5,30 @@
  * Provides caching, loading states, and error handling for video operations.
  */
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  QueryClient,
+  InfiniteData,
+} from '@tanstack/react-query';
 import {
   fetchVideos,
   fetchVideoById,
-  incrementViews,
-  toggleLike,
+  recordView,
+  recordVideoMetadata,
+  setLike,
 } from '../services/api/video.service';
-import type { VideoPaginationParams, VideoWithUser } from '../types/video.types';
+import type {
+  LikeToggleResult,
+  VideoFeedItem,
+  VideoPaginationParams,
+  VideoViewInput,
+  ViewRecordResult,
+} from '../types/video.types';
+import type { PaginatedResponse } from '../types/api.types';
+import { sendOrDefer, useOutboxStore } from '../store/outboxStore';
 import { logger } from '../utils/logger';
 import { handleApiError } from '../utils/errorHandler';
 
@@ -23,10 +39,88 @@ export const videoKeys = {
   all: ['videos'] as const,
   lists: () => [...videoKeys.all, 'list'] as const,
   list: (params: VideoPaginationParams) => [...videoKeys.lists(), params] as const,
+  infinites: () => [...videoKeys.all, 'infinite'] as const,
+  infinite: (params: VideoPaginationParams) => [...videoKeys.infinites(), params] as const,
   details: () => [...videoKeys.all, 'detail'] as const,
   detail: (id: string) => [...videoKeys.details(), id] as const,
 };
 
+type VideoPage = PaginatedResponse<VideoFeedItem>;
+
+/**
+ * Apply an update to every cached video, in detail caches and every cached page
+ * 
+ * @param queryClient - React-Query client
+ * @param updater - Function returning the updated video (or the same video if unchanged)
+ */
+export const updateCachedVideos = (
+  queryClient: QueryClient,
+  updater: (video: VideoFeedItem) => VideoFeedItem
+) => {
+  const updatePage = (page: VideoPage): VideoPage => ({
+    ...page,
+    data: page.data.map(updater),
+  });
+
+  queryClient.setQueriesData<VideoFeedItem>({ queryKey: videoKeys.details() }, (video) =>
+    video ? updater(video) : video
+  );
+
+  queryClient.setQueriesData<VideoPage>({ queryKey: videoKeys.lists() }, (page) =>
+    page ? updatePage(page) : page
+  );
+
+  queryClient.setQueriesData<InfiniteData<VideoPage>>(
+    { queryKey: videoKeys.infinites() },
+    (data) => (data ? { ...data, pages: data.pages.map(updatePage) } : data)
+  );
+};
+
+/**
+ * Apply an update to a video in the detail cache and every cached page
+ * 
+ * @param queryClient - React-Query client
+ * @param videoId - Video to update
+ * @param updater - Function returning the updated video
+ */
+export const updateCachedVideo = (
+  queryClient: QueryClient,
+  videoId: string,
+  updater: (video: VideoFeedItem) => VideoFeedItem
+) => {
+  updateCachedVideos(queryClient, (video) => (video.id === videoId ? updater(video) : video));
+};
+
+/**
+ * Show a like confirmed by the server wherever the video is cached
+ * 
+ * @param queryClient - React-Query client
+ * @param result - Like status and count returned by the server
+ */
+export const applyLikeResult = (queryClient: QueryClient, result: LikeToggleResult) => {
+  updateCachedVideo(queryClient, result.videoId, (video) => ({
+    ...video,
+    isLiked: result.isLiked,
+    likes: result.likes,
+  }));
+};
+
+/**
+ * Show a counted view wherever the video is cached
+ * 
+ * @param queryClient - React-Query client
+ * @param result - Whether the view counted and the new view count
+ */
+export const applyViewResult = (queryClient: QueryClient, result: ViewRecordResult) => {
+  if (!result.counted) return;
+
+  updateCachedVideo(queryClient, result.videoId, (video) => ({
+    ...video,
+    views: result.views,
+  }));
+  logger.debug(`View counted for video ${result.videoId}`);
+};
+
 /**
  * Hook to fetch paginated videos
  * 
@@ -49,6 +143,31 @@ export const useVideos = (params: VideoPaginationParams = {}) => {
   return result;
 };
 
+/**
+ * Hook to fetch videos page by page for infinite scrolling
+ * 
+ * @param params - Page size and sorting parameters
+ * @returns React-Query infinite result; call fetchNextPage to load more
+ */
+export const useInfiniteVideos = (params: Omit<VideoPaginationParams, 'cursor'> = {}) => {
+  const result = useInfiniteQuery({
+    queryKey: videoKeys.infinite(params),
+    queryFn: ({ pageParam }) => fetchVideos({ ...params, cursor: pageParam }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) =>
+      lastPage.meta.hasMore ? lastPage.meta.nextCursor : undefined,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  // Log errors when they occur
+  if (result.error) {
+    logger.queryError('videos.infinite', result.error);
+  }
+
+  return result;
+};
+
 /**
  * Hook to fetch a single video by ID
  * 
@@ -66,37 +185,34 @@ export const useVideo = (id: string, enabled = true) => {
 };
 
 /**
- * Hook to increment video views
+ * Hook to record a watch session for a video
+ * Sessions watched offline are kept in the outbox and sent later.
  * 
  * @returns Mutation function and state
  */
-export const useIncrementViews = () => {
+export const useRecordView = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: incrementViews,
-    onSuccess: (updatedVideo) => {
-      // Update the video in the cache
-      queryClient.setQueryData(
-        videoKeys.detail(updatedVideo.id),
-        updatedVideo
-      );
+    mutationFn: (view: VideoViewInput) => sendOrDefer(() => recordView(view)),
+    onSuccess: (result, view) => {
+      if (!result) {
+        useOutboxStore.getState().enqueue({ type: 'view', view });
+        return;
+      }
 
-      // Invalidate video lists to refetch with updated data
-      queryClient.invalidateQueries({
-        queryKey: videoKeys.lists(),
-      });
-      logger.debug(`Views incremented for video ${updatedVideo.id}`);
+      applyViewResult(queryClient, result);
     },
     onError: (error: Error) => {
-      logger.error('Failed to increment views', error);
-      // Don't show toast for view increment failures (non-critical)
+      logger.error('Failed to record view', error);
+      // Don't show toast for view recording failures (non-critical)
     },
   });
 };
 
 /**
- * Hook to toggle video like status
+ * Hook to like or unlike a video
+ * Likes made offline stay applied and are sent from the outbox later.
  * 
  * @returns Mutation function and state with optimistic updates
  */
@@ -104,52 +220,83 @@ export const useToggleLike = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ videoId, isLiked }: { videoId: string; isLiked: boolean }) =>
-      toggleLike(videoId, isLiked),
+    mutationFn: ({ videoId, liked }: { videoId: string; liked: boolean }) =>
+      sendOrDefer(() => setLike(videoId, liked)),
     
     // Optimistic update
-    onMutate: async ({ videoId, isLiked }) => {
+    onMutate: async ({ videoId, liked }) => {
       // Cancel outgoing refetches
-      await queryClient.cancelQueries({ queryKey: videoKeys.detail(videoId) });
+      await queryClient.cancelQueries({ queryKey: videoKeys.all });
+
+      // Snapshot the previous values
+      const previousQueries = queryClient.getQueriesData({ queryKey: videoKeys.all });
 
-      // Snapshot the previous value
-      const previousVideo = queryClient.getQueryData<VideoWithUser>(
-        videoKeys.detail(videoId)
+      // Optimistically apply the like in every cached copy of the video
+      updateCachedVideo(queryClient, videoId, (video) =>
+        Boolean(video.isLiked) === liked
+          ? video
+          : {
+              ...video,
+              isLiked: liked,
+              likes: liked ? video.likes + 1 : Math.max(0, video.likes - 1),
+            }
       );
 
-      // Optimistically update the cache
-      if (previousVideo) {
-        queryClient.setQueryData<VideoWithUser>(
-          videoKeys.detail(videoId),
-          {
-            ...previousVideo,
-            likes: isLiked
-              ? Math.max(0, previousVideo.likes - 1)
-              : previousVideo.likes + 1,
-          }
-        );
+      // Return context with previous values
+      return { previousQueries };
+    },
+
+    // Replace the optimistic values with the server's, or keep them until
+    // the outbox sends the like
+    onSuccess: (result, { videoId, liked }) => {
+      if (!result) {
+        useOutboxStore.getState().enqueue({ type: 'like', videoId, liked });
+        return;
       }
 
-      // Return context with previous value
-      return { previousVideo };
+      applyLikeResult(queryClient, result);
     },
 
-    // On error, roll back to previous value
-    onError: (error: Error, { videoId }, context) => {
+    // On error, roll back to previous values
+    onError: (error: Error, _variables, context) => {
       logger.error('Failed to toggle like', error);
       handleApiError(error, 'toggleLike', false); // Don't show toast, we'll handle it in UI
-      if (context?.previousVideo) {
-        queryClient.setQueryData(
-          videoKeys.detail(videoId),
-          context.previousVideo
-        );
-      }
+      context?.previousQueries.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
     },
+  });
+};
+
+/**
+ * Hook to store the duration and resolution of the user's own video that
+ * was added without them, once a player has loaded it
+ * 
+ * @returns Mutation function and state
+ */
+export const useRecordVideoMetadata = () => {
+  const queryClient = useQueryClient();
 
-    // Always refetch after error or success
-    onSettled: (_data, _error, { videoId }) => {
-      queryClient.invalidateQueries({ queryKey: videoKeys.detail(videoId) });
-      queryClient.invalidateQueries({ queryKey: videoKeys.lists() });
+  return useMutation({
+    mutationFn: ({
+      videoId,
+      ...metadata
+    }: {
+      videoId: string;
+      durationMs: number;
+      width: number;
+      height: number;
+    }) => recordVideoMetadata(videoId, metadata),
+    onSuccess: (_result, { videoId, durationMs, width, height }) => {
+      updateCachedVideo(queryClient, videoId, (video) => ({
+        ...video,
+        duration_ms: video.duration_ms ?? Math.round(durationMs),
+        width: video.width ?? Math.round(width),
+        height: video.height ?? Math.round(height),
+      }));
+    },
+    onError: (error: Error) => {
+      handleApiError(error, 'recordVideoMetadata', false);
     },
   });
 };
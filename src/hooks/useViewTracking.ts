@@ -0,0 +1,116 @@
+/**
+ * useViewTracking Hook
+ *
+ * Measures how long the viewer actually watches a video from the player's
+ * playback status updates, and reports the watch session when the viewer
+ * moves on. The server decides whether the session counts as a view.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import type { AVPlaybackStatus } from 'expo-av';
+import { useRecordView } from './useVideos';
+
+// Position jumps larger than this are treated as seeks or loops, not playback
+const MAX_PLAYBACK_STEP_MS = 1500;
+
+/**
+ * Watch session for the video currently being played
+ */
+interface WatchSession {
+  videoId: string;
+  watchedMs: number;
+  furthestPositionMs: number;
+  durationMs: number;
+  lastPositionMs: number | null;
+  finished: boolean;
+}
+
+/**
+ * Hook to track watch time and report views
+ *
+ * @returns Status handler to pass to the active player and a flush function
+ */
+export const useViewTracking = () => {
+  const { mutate: recordView } = useRecordView();
+  const sessionRef = useRef<WatchSession | null>(null);
+
+  /**
+   * Report the current watch session, if any, and start over
+   */
+  const flush = useCallback(() => {
+    const session = sessionRef.current;
+    sessionRef.current = null;
+
+    // Nothing was actually played (e.g. a quick scroll past)
+    if (!session || session.watchedMs === 0) return;
+
+    const completionPercentage = session.finished
+      ? 100
+      : session.durationMs > 0
+        ? Math.min(100, (Math.max(session.furthestPositionMs, session.watchedMs) / session.durationMs) * 100)
+        : 0;
+
+    recordView({
+      videoId: session.videoId,
+      watchDurationMs: session.watchedMs,
+      completionPercentage,
+    });
+  }, [recordView]);
+
+  /**
+   * Handle a playback status update from the active player
+   */
+  const trackStatus = useCallback(
+    (videoId: string, status: AVPlaybackStatus) => {
+      if (!status.isLoaded) return;
+
+      if (sessionRef.current?.videoId !== videoId) {
+        flush();
+        sessionRef.current = {
+          videoId,
+          watchedMs: 0,
+          furthestPositionMs: 0,
+          durationMs: status.durationMillis ?? 0,
+          lastPositionMs: null,
+          finished: false,
+        };
+      }
+
+      const session = sessionRef.current as WatchSession;
+      const position = status.positionMillis;
+
+      if (status.isPlaying && session.lastPositionMs !== null) {
+        const step = position - session.lastPositionMs;
+        if (step > 0 && step <= MAX_PLAYBACK_STEP_MS) {
+          session.watchedMs += step;
+        }
+      }
+
+      session.lastPositionMs = position;
+      session.furthestPositionMs = Math.max(session.furthestPositionMs, position);
+      session.durationMs = status.durationMillis ?? session.durationMs;
+
+      if (status.didJustFinish) {
+        session.finished = true;
+      }
+    },
+    [flush]
+  );
+
+  // Report the session when the app is backgrounded or the screen unmounts
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state !== 'active') {
+        flush();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+      flush();
+    };
+  }, [flush]);
+
+  return { trackStatus, flush };
+};
@@ -1,39 +1,84 @@
 import React, { useEffect } from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import { NavigationContainer, NavigatorScreenParams } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 
 // Auth screens
-import { LoginScreen, RegisterScreen } from '../screens/auth';
+import {
+  LoginScreen,
+  RegisterScreen,
+  ForgotPasswordScreen,
+  ResetPasswordScreen,
+  ChooseUsernameScreen,
+} from '../screens/auth';
 
 // Main screens
-import { VideoFeedScreen } from '../screens/feed';
+import { VideoFeedScreen, PracticeScreen } from '../screens/feed';
 import { LeaderboardScreen } from '../screens/leaderboard';
+import {
+  CompetitionsScreen,
+  CompetitionDetailScreen,
+  JudgingScreen,
+  JudgeDashboardScreen,
+} from '../screens/competitions';
+import { UploadScreen } from '../screens/upload';
+import { ProfileScreen, EditProfileScreen, AccountSettingsScreen } from '../screens/profile';
 
 // Components
 import { SplashScreen } from '../components/common';
 
 // Store
 import { useAuthStore } from '../store/authStore';
+import { usePlaybackStore } from '../store/playbackStore';
+
+// Hooks
+import { useAuthDeepLinks } from '../hooks/useAuthDeepLinks';
+import { useAuthStateSync } from '../hooks/useAuthStateSync';
+import { useOutboxSync } from '../hooks/useOutbox';
+import { useRole } from '../hooks/useRole';
 
 // Navigation types
 export type AuthStackParamList = {
   Login: undefined;
   Register: undefined;
+  ForgotPassword: { email?: string } | undefined;
+  ResetPassword: undefined;
+  ChooseUsername: undefined;
 };
 
 export type MainTabParamList = {
   VideoFeed: undefined;
+  Competitions: NavigatorScreenParams<CompetitionsStackParamList> | undefined;
+  Upload: undefined;
   Leaderboard: undefined;
+  Judge: undefined;
+  Profile: undefined;
+};
+
+export type MainStackParamList = {
+  Tabs: NavigatorScreenParams<MainTabParamList>;
+  UserProfile: { userId: string };
+  EditProfile: undefined;
+  AccountSettings: undefined;
+  Practice: { videoId: string };
+};
+
+export type CompetitionsStackParamList = {
+  CompetitionList: undefined;
+  CompetitionDetail: { competitionId: string };
+  Judging: { competitionId: string };
 };
 
 const AuthStack = createNativeStackNavigator<AuthStackParamList>();
+const CompetitionsStack = createNativeStackNavigator<CompetitionsStackParamList>();
 const MainTab = createBottomTabNavigator<MainTabParamList>();
+const MainStack = createNativeStackNavigator<MainStackParamList>();
 
 // Auth Stack Navigator
-function AuthNavigator() {
+function AuthNavigator({ initialRouteName }: { initialRouteName: keyof AuthStackParamList }) {
   return (
     <AuthStack.Navigator
+      initialRouteName={initialRouteName}
       screenOptions={{
         headerShown: false,
         animation: 'fade',
@@ -41,12 +86,32 @@ function AuthNavigator() {
     >
       <AuthStack.Screen name="Login" component={LoginScreen} />
       <AuthStack.Screen name="Register" component={RegisterScreen} />
+      <AuthStack.Screen name="ForgotPassword" component={ForgotPasswordScreen} />
+      <AuthStack.Screen name="ResetPassword" component={ResetPasswordScreen} />
+      <AuthStack.Screen name="ChooseUsername" component={ChooseUsernameScreen} />
     </AuthStack.Navigator>
   );
 }
 
-// Main Tab Navigator
-function MainNavigator() {
+// Competitions Stack Navigator
+function CompetitionsNavigator() {
+  return (
+    <CompetitionsStack.Navigator
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <CompetitionsStack.Screen name="CompetitionList" component={CompetitionsScreen} />
+      <CompetitionsStack.Screen name="CompetitionDetail" component={CompetitionDetailScreen} />
+      <CompetitionsStack.Screen name="Judging" component={JudgingScreen} />
+    </CompetitionsStack.Navigator>
+  );
+}
+
+// Main Tab Navigator (some tabs only exist for certain roles)
+function TabNavigator() {
+  const { hasRole } = useRole();
+
   return (
     <MainTab.Navigator
       screenOptions={{
@@ -68,6 +133,20 @@ function MainNavigator() {
           tabBarLabel: 'Videos',
         }}
       />
+      <MainTab.Screen
+        name="Competitions"
+        component={CompetitionsNavigator}
+        options={{
+          tabBarLabel: 'Competitions',
+        }}
+      />
+      <MainTab.Screen
+        name="Upload"
+        component={UploadScreen}
+        options={{
+          tabBarLabel: 'Upload',
+        }}
+      />
       <MainTab.Screen
         name="Leaderboard"
         component={LeaderboardScreen}
@@ -75,19 +154,69 @@ function MainNavigator() {
           tabBarLabel: 'Leaderboard',
         }}
       />
+      {hasRole('judge') && (
+        <MainTab.Screen
+          name="Judge"
+          component={JudgeDashboardScreen}
+          options={{
+            tabBarLabel: 'Judge',
+          }}
+        />
+      )}
+      <MainTab.Screen
+        name="Profile"
+        component={ProfileScreen}
+        options={{
+          tabBarLabel: 'Profile',
+        }}
+      />
     </MainTab.Navigator>
   );
 }
 
+// Main Stack Navigator (tabs plus screens reachable from any tab)
+function MainNavigator() {
+  return (
+    <MainStack.Navigator
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <MainStack.Screen name="Tabs" component={TabNavigator} />
+      <MainStack.Screen name="UserProfile" component={ProfileScreen} />
+      <MainStack.Screen name="EditProfile" component={EditProfileScreen} />
+      <MainStack.Screen name="AccountSettings" component={AccountSettingsScreen} />
+      <MainStack.Screen name="Practice" component={PracticeScreen} />
+    </MainStack.Navigator>
+  );
+}
+
 // Root App Navigator with conditional rendering
 export default function AppNavigator() {
-  const { isAuthenticated, isLoading, restoreAuth } = useAuthStore();
+  const { isAuthenticated, isLoading, isPasswordRecovery, needsProfile, restoreAuth } =
+    useAuthStore();
+
+  // Follow token refreshes and sign outs from the Supabase client
+  useAuthStateSync();
+
+  // Sign in from password reset and email confirmation links
+  useAuthDeepLinks();
+
+  // Send likes, views and comments made while offline
+  useOutboxSync();
 
   useEffect(() => {
-    // Restore authentication state from secure storage on app initialization
+    // Restore the persisted session on app initialization
     restoreAuth();
+    usePlaybackStore.getState().restorePlaybackSettings();
   }, [restoreAuth]);
 
+  const authInitialRoute: keyof AuthStackParamList = isPasswordRecovery
+    ? 'ResetPassword'
+    : needsProfile
+      ? 'ChooseUsername'
+      : 'Login';
+
   // Show splash screen while checking authentication
   if (isLoading) {
     return <SplashScreen />;
@@ -95,7 +224,12 @@ export default function AppNavigator() {
 
   return (
     <NavigationContainer>
-      {isAuthenticated ? <MainNavigator /> : <AuthNavigator />}
+      {isAuthenticated && !isPasswordRecovery ? (
+        <MainNavigator />
+      ) : (
+        // Remount when the starting screen changes, e.g. a reset link is opened
+        <AuthNavigator key={authInitialRoute} initialRouteName={authInitialRoute} />
+      )}
     </NavigationContainer>
   );
 }
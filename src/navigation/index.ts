@@ -1,2 +1,7 @@
 export { default as AppNavigator } from './AppNavigator';
-export type { AuthStackParamList, MainTabParamList } from './AppNavigator';
+export type {
+  AuthStackParamList,
+  MainTabParamList,
+  MainStackParamList,
+  CompetitionsStackParamList,
+} from './AppNavigator';
@@ -0,0 +1,133 @@
+/**
+ * ChooseUsernameScreen Component
+ *
+ * Shown after a first OAuth or magic link sign in, before the account has
+ * a profile, so the user can pick their username
+ */
+
+import React, { useState } from 'react';
+import { View, Text, KeyboardAvoidingView, Platform, ScrollView, TouchableOpacity } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+import { Button, Input } from '../../components/common';
+import { useAuth } from '../../hooks/useAuth';
+import { useUsernameAvailability } from '../../hooks/useProfile';
+import { useAuthStore } from '../../store/authStore';
+import { USERNAME_MAX_LENGTH, validateUsername } from '../../utils/validation';
+import { USERNAME_TAKEN_MESSAGE } from '../../services/api/user.service';
+import type { Session } from '../../types';
+import type { AuthStackParamList } from '../../navigation/AppNavigator';
+
+type ChooseUsernameScreenProps = NativeStackScreenProps<AuthStackParamList, 'ChooseUsername'>;
+
+/**
+ * Suggest a username from the provider's display name or the email address
+ */
+const suggestUsername = (session: Session | null): string => {
+  const source: string =
+    session?.user.user_metadata?.user_name ||
+    session?.user.user_metadata?.full_name ||
+    session?.user.email?.split('@')[0] ||
+    '';
+
+  return source.replace(/[^A-Za-z0-9_]/g, '_').slice(0, USERNAME_MAX_LENGTH);
+};
+
+export const ChooseUsernameScreen: React.FC<ChooseUsernameScreenProps> = () => {
+  const session = useAuthStore((state) => state.session);
+  const [username, setUsername] = useState(() => suggestUsername(session));
+  const [error, setError] = useState<string | undefined>();
+
+  const { completeProfile, isCompletingProfile, logout, isLoggingOut } = useAuth();
+  const { isAvailable, isChecking } = useUsernameAvailability(username);
+
+  const usernameError = error ?? (isAvailable === false ? USERNAME_TAKEN_MESSAGE : undefined);
+
+  /**
+   * Create the profile; the app opens once it succeeds
+   */
+  const handleSubmit = async () => {
+    const validationError = validateUsername(username);
+
+    if (validationError || isAvailable === false) {
+      setError(validationError);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
+    completeProfile(username.trim(), {
+      onSuccess: async () => {
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      },
+    });
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      className="flex-1 bg-background"
+    >
+      <ScrollView
+        contentContainerClassName="flex-grow justify-center px-6 py-8"
+        keyboardShouldPersistTaps="handled"
+      >
+        <View className="w-full max-w-md mx-auto">
+          {/* Header */}
+          <Animated.View entering={FadeInDown.delay(100).springify()} className="mb-8">
+            <Text className="text-4xl font-bold text-text text-center mb-2">
+              Pick a Username
+            </Text>
+            <Text className="text-base text-gray-400 text-center">
+              This is how other dancers will find you
+            </Text>
+          </Animated.View>
+
+          <Animated.View entering={FadeInUp.delay(200).springify()}>
+            <Input
+              label="Username"
+              value={username}
+              onChangeText={(text) => {
+                setUsername(text);
+                setError(undefined);
+              }}
+              placeholder="Choose a username"
+              autoCapitalize="none"
+              autoCorrect={false}
+              autoComplete="username"
+              editable={!isCompletingProfile}
+              error={usernameError}
+              className="mb-2"
+            />
+            {!usernameError && isChecking && (
+              <Text className="text-gray-400 text-sm mb-4">Checking availability…</Text>
+            )}
+            {!usernameError && !isChecking && isAvailable && (
+              <Text className="text-green-500 text-sm mb-4">✓ Username is available</Text>
+            )}
+
+            <Button
+              title="Continue"
+              onPress={handleSubmit}
+              loading={isCompletingProfile}
+              disabled={isCompletingProfile || isChecking || isAvailable === false}
+              variant="primary"
+              className="mt-4 mb-4"
+            />
+          </Animated.View>
+
+          <Animated.View entering={FadeInUp.delay(300).springify()} className="mt-6 flex-row justify-center items-center">
+            <TouchableOpacity
+              onPress={() => logout()}
+              disabled={isCompletingProfile || isLoggingOut}
+            >
+              <Text className="text-primary font-semibold text-base">
+                Use a different account
+              </Text>
+            </TouchableOpacity>
+          </Animated.View>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
@@ -0,0 +1,122 @@
+/**
+ * ForgotPasswordScreen Component
+ *
+ * Emails a password reset link to the given address
+ */
+
+import React, { useState } from 'react';
+import { View, Text, KeyboardAvoidingView, Platform, ScrollView, TouchableOpacity } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+import { Button, Input } from '../../components/common';
+import { useAuth } from '../../hooks/useAuth';
+import type { AuthStackParamList } from '../../navigation/AppNavigator';
+
+type ForgotPasswordScreenProps = NativeStackScreenProps<AuthStackParamList, 'ForgotPassword'>;
+
+export const ForgotPasswordScreen: React.FC<ForgotPasswordScreenProps> = ({
+  navigation,
+  route,
+}) => {
+  const [email, setEmail] = useState(route.params?.email ?? '');
+  const [error, setError] = useState<string | undefined>();
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const { requestPasswordReset, isRequestingPasswordReset } = useAuth();
+
+  /**
+   * Validate the email and request a reset link
+   */
+  const handleSubmit = async () => {
+    const trimmed = email.trim();
+
+    if (!trimmed) {
+      setError('Email is required');
+    } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed)) {
+      setError('Please enter a valid email address');
+    } else {
+      setError(undefined);
+      requestPasswordReset(trimmed, {
+        onSuccess: async () => {
+          await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          setSentTo(trimmed);
+        },
+      });
+      return;
+    }
+
+    await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      className="flex-1 bg-background"
+    >
+      <ScrollView
+        contentContainerClassName="flex-grow justify-center px-6 py-8"
+        keyboardShouldPersistTaps="handled"
+      >
+        <View className="w-full max-w-md mx-auto">
+          {/* Header */}
+          <Animated.View entering={FadeInDown.delay(100).springify()} className="mb-8">
+            <Text className="text-4xl font-bold text-text text-center mb-2">
+              {sentTo ? 'Check Your Email' : 'Reset Password'}
+            </Text>
+            <Text className="text-base text-gray-400 text-center">
+              {sentTo
+                ? `We sent a reset link to ${sentTo}. Open it on this device to choose a new password.`
+                : 'Enter your email and we will send you a link to reset your password'}
+            </Text>
+          </Animated.View>
+
+          <Animated.View entering={FadeInUp.delay(200).springify()}>
+            {sentTo ? (
+              <Button
+                title="Resend Link"
+                onPress={() => requestPasswordReset(sentTo)}
+                loading={isRequestingPasswordReset}
+                disabled={isRequestingPasswordReset}
+                variant="outline"
+                className="mb-4"
+              />
+            ) : (
+              <>
+                <Input
+                  label="Email"
+                  value={email}
+                  onChangeText={setEmail}
+                  placeholder="Enter your email"
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                  autoComplete="email"
+                  error={error}
+                  className="mb-6"
+                />
+
+                <Button
+                  title="Send Reset Link"
+                  onPress={handleSubmit}
+                  loading={isRequestingPasswordReset}
+                  disabled={isRequestingPasswordReset}
+                  variant="primary"
+                  className="mb-4"
+                />
+              </>
+            )}
+          </Animated.View>
+
+          {/* Login Link */}
+          <Animated.View entering={FadeInUp.delay(300).springify()} className="mt-6 flex-row justify-center items-center">
+            <TouchableOpacity onPress={() => navigation.navigate('Login')}>
+              <Text className="text-primary font-semibold text-base">
+                Back to Sign In
+              </Text>
+            </TouchableOpacity>
+          </Animated.View>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
@@ -1,7 +1,8 @@
 /**
  * LoginScreen Component
  * 
- * Handles user authentication with email and password
+ * Handles user authentication with email and password, Google or Apple,
+ * or a passwordless email link
  */
 
 import React, { useState } from 'react';
@@ -11,6 +12,7 @@ import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
 import * as Haptics from 'expo-haptics';
 import { Button, Input, ErrorMessage } from '../../components/common';
 import { useAuth } from '../../hooks/useAuth';
+import { showSuccessToast } from '../../utils/toast';
 import type { AuthStackParamList } from '../../navigation/AppNavigator';
 
 type LoginScreenProps = NativeStackScreenProps<AuthStackParamList, 'Login'>;
@@ -20,7 +22,21 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
   const [password, setPassword] = useState('');
   const [errors, setErrors] = useState<{ email?: string; password?: string }>({});
 
-  const { login, isLoggingIn, loginError } = useAuth();
+  const {
+    login,
+    isLoggingIn,
+    loginError,
+    resendConfirmation,
+    isResendingConfirmation,
+    loginWithProvider,
+    isLoggingInWithProvider,
+    sendMagicLink,
+    isSendingMagicLink,
+  } = useAuth();
+
+  const isBusy = isLoggingIn || isLoggingInWithProvider || isSendingMagicLink;
+
+  const isEmailUnconfirmed = loginError?.message === 'Email not confirmed';
 
   /**
    * Validate form fields
@@ -70,6 +86,24 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
     }
   };
 
+  /**
+   * Email a passwordless sign in link to the entered address
+   */
+  const handleMagicLink = async () => {
+    const trimmed = email.trim();
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed)) {
+      setErrors({ email: 'Enter your email to get a sign in link' });
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
+    setErrors({});
+    sendMagicLink(trimmed, {
+      onSuccess: () => showSuccessToast(`Check ${trimmed} for your sign in link`),
+    });
+  };
+
   /**
    * Clear error message
    */
@@ -104,6 +138,19 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
                 message={loginError.message || 'Login failed. Please check your credentials.'}
                 onRetry={clearError}
               />
+              {isEmailUnconfirmed && (
+                <Button
+                  title="Resend Confirmation Email"
+                  onPress={() =>
+                    resendConfirmation(email.trim(), {
+                      onSuccess: () => showSuccessToast('Confirmation email sent'),
+                    })
+                  }
+                  loading={isResendingConfirmation}
+                  disabled={isResendingConfirmation}
+                  variant="outline"
+                />
+              )}
             </View>
           )}
 
@@ -130,17 +177,58 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
               autoCapitalize="none"
               autoComplete="password"
               error={errors.password}
-              className="mb-6"
+              className="mb-2"
             />
 
+            <TouchableOpacity
+              onPress={() => navigation.navigate('ForgotPassword', { email: email.trim() })}
+              className="self-end mb-6"
+            >
+              <Text className="text-primary font-semibold text-sm">
+                Forgot password?
+              </Text>
+            </TouchableOpacity>
+
             <Button
               title="Sign In"
               onPress={handleLogin}
               loading={isLoggingIn}
-              disabled={isLoggingIn}
+              disabled={isBusy}
               variant="primary"
               className="mb-4"
             />
+
+            <Button
+              title="Email Me a Sign In Link"
+              onPress={handleMagicLink}
+              loading={isSendingMagicLink}
+              disabled={isBusy}
+              variant="outline"
+              className="mb-4"
+            />
+          </Animated.View>
+
+          {/* Social Sign In */}
+          <Animated.View entering={FadeInUp.delay(250).springify()}>
+            <View className="flex-row items-center my-4">
+              <View className="flex-1 h-px bg-gray-700" />
+              <Text className="text-gray-400 text-sm mx-3">or</Text>
+              <View className="flex-1 h-px bg-gray-700" />
+            </View>
+
+            <Button
+              title="Continue with Google"
+              onPress={() => loginWithProvider('google')}
+              disabled={isBusy}
+              variant="secondary"
+              className="mb-3"
+            />
+            <Button
+              title="Continue with Apple"
+              onPress={() => loginWithProvider('apple')}
+              disabled={isBusy}
+              variant="secondary"
+            />
           </Animated.View>
 
           {/* Register Link */}
@@ -11,6 +11,11 @@ import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
 import * as Haptics from 'expo-haptics';
 import { Button, Input, ErrorMessage } from '../../components/common';
 import { useAuth } from '../../hooks/useAuth';
+import { useUsernameAvailability } from '../../hooks/useProfile';
+import { SignUpError } from '../../services/api/auth.service';
+import { USERNAME_TAKEN_MESSAGE } from '../../services/api/user.service';
+import { validateUsername } from '../../utils/validation';
+import { showSuccessToast } from '../../utils/toast';
 import type { AuthStackParamList } from '../../navigation/AppNavigator';
 
 type RegisterScreenProps = NativeStackScreenProps<AuthStackParamList, 'Register'>;
@@ -27,7 +32,19 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({ navigation }) =>
     confirmPassword?: string;
   }>({});
 
-  const { register, isRegistering, registerError } = useAuth();
+  const [pendingConfirmation, setPendingConfirmation] = useState<string | null>(null);
+
+  const {
+    register,
+    isRegistering,
+    registerError,
+    resendConfirmation,
+    isResendingConfirmation,
+  } = useAuth();
+  const { isAvailable, isChecking } = useUsernameAvailability(username);
+
+  const usernameError =
+    errors.username ?? (isAvailable === false ? USERNAME_TAKEN_MESSAGE : undefined);
 
   /**
    * Validate form fields
@@ -48,12 +65,9 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({ navigation }) =>
     }
 
     // Username validation
-    if (!username.trim()) {
-      newErrors.username = 'Username is required';
-    } else if (username.trim().length < 3) {
-      newErrors.username = 'Username must be at least 3 characters';
-    } else if (!/^[a-zA-Z0-9_]+$/.test(username.trim())) {
-      newErrors.username = 'Username can only contain letters, numbers, and underscores';
+    const usernameError = validateUsername(username);
+    if (usernameError) {
+      newErrors.username = usernameError;
     }
 
     // Password validation
@@ -88,11 +102,33 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({ navigation }) =>
     }
 
     try {
-      register({
-        email: email.trim(),
-        password,
-        username: username.trim(),
-      });
+      register(
+        {
+          email: email.trim(),
+          password,
+          username: username.trim(),
+        },
+        {
+          // Without a session the project requires email confirmation first
+          onSuccess: (data) => {
+            if (!data.session) {
+              setPendingConfirmation(email.trim());
+            }
+          },
+          // Point at the field that caused the failure
+          onError: async (error) => {
+            if (error instanceof SignUpError) {
+              const field = {
+                USERNAME_TAKEN: 'username',
+                EMAIL_TAKEN: 'email',
+                WEAK_PASSWORD: 'password',
+              }[error.code];
+              setErrors({ [field]: error.message });
+            }
+            await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+          },
+        }
+      );
       // Navigation to main app is handled automatically by AppNavigator
       // when authentication state changes
     } catch (error) {
@@ -109,6 +145,41 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({ navigation }) =>
     setErrors({});
   };
 
+  if (pendingConfirmation) {
+    return (
+      <View className="flex-1 bg-background justify-center px-6">
+        <Animated.View entering={FadeInDown.springify()} className="w-full max-w-md mx-auto">
+          <Text className="text-5xl text-center mb-4">📬</Text>
+          <Text className="text-3xl font-bold text-text text-center mb-2">
+            Confirm Your Email
+          </Text>
+          <Text className="text-base text-gray-400 text-center mb-8">
+            We sent a confirmation link to {pendingConfirmation}. Open it on this device to
+            finish creating your account.
+          </Text>
+
+          <Button
+            title="Resend Email"
+            onPress={() =>
+              resendConfirmation(pendingConfirmation, {
+                onSuccess: () => showSuccessToast('Confirmation email sent'),
+              })
+            }
+            loading={isResendingConfirmation}
+            disabled={isResendingConfirmation}
+            variant="outline"
+            className="mb-4"
+          />
+          <Button
+            title="Back to Sign In"
+            onPress={() => navigation.navigate('Login')}
+            variant="primary"
+          />
+        </Animated.View>
+      </View>
+    );
+  }
+
   return (
     <KeyboardAvoidingView
       behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
@@ -130,7 +201,7 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({ navigation }) =>
           </Animated.View>
 
           {/* Error Message */}
-          {registerError && (
+          {registerError && !(registerError instanceof SignUpError) && (
             <View className="mb-4">
               <ErrorMessage
                 message={
@@ -159,13 +230,22 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({ navigation }) =>
             <Input
               label="Username"
               value={username}
-              onChangeText={setUsername}
+              onChangeText={(text) => {
+                setUsername(text);
+                setErrors((current) => ({ ...current, username: undefined }));
+              }}
               placeholder="Choose a username"
               autoCapitalize="none"
               autoComplete="username"
-              error={errors.username}
-              className="mb-4"
+              error={usernameError}
+              className={isChecking || isAvailable ? 'mb-1' : 'mb-4'}
             />
+            {!usernameError && isChecking && (
+              <Text className="text-gray-400 text-sm mb-4">Checking availability…</Text>
+            )}
+            {!usernameError && !isChecking && isAvailable && (
+              <Text className="text-green-500 text-sm mb-4">✓ Username is available</Text>
+            )}
 
             <Input
               label="Password"
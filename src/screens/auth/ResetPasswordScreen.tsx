@@ -0,0 +1,155 @@
+/**
+ * ResetPasswordScreen Component
+ *
+ * Lets a user who opened a password reset link choose a new password
+ */
+
+import React, { useState } from 'react';
+import { View, Text, KeyboardAvoidingView, Platform, ScrollView, TouchableOpacity } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+import { Button, Input, ErrorMessage } from '../../components/common';
+import { useAuth } from '../../hooks/useAuth';
+import { useAuthStore } from '../../store/authStore';
+import { signOut } from '../../services/api/auth.service';
+import { showSuccessToast } from '../../utils/toast';
+import type { AuthStackParamList } from '../../navigation/AppNavigator';
+
+type ResetPasswordScreenProps = NativeStackScreenProps<AuthStackParamList, 'ResetPassword'>;
+
+export const ResetPasswordScreen: React.FC<ResetPasswordScreenProps> = () => {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [errors, setErrors] = useState<{ password?: string; confirmPassword?: string }>({});
+
+  const { updatePassword, isUpdatingPassword, updatePasswordError } = useAuth();
+  const setPasswordRecovery = useAuthStore((state) => state.setPasswordRecovery);
+
+  /**
+   * Validate form fields
+   */
+  const validateForm = (): boolean => {
+    const newErrors: { password?: string; confirmPassword?: string } = {};
+
+    if (!password) {
+      newErrors.password = 'Password is required';
+    } else if (password.length < 6) {
+      newErrors.password = 'Password must be at least 6 characters';
+    }
+
+    if (!confirmPassword) {
+      newErrors.confirmPassword = 'Please confirm your password';
+    } else if (password !== confirmPassword) {
+      newErrors.confirmPassword = 'Passwords do not match';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  /**
+   * Save the new password; the user is signed in once it succeeds
+   */
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
+    updatePassword(password, {
+      onSuccess: async () => {
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        showSuccessToast('Password updated');
+      },
+    });
+  };
+
+  /**
+   * Abandon the reset and drop the recovery session
+   */
+  const handleCancel = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      console.error('Error ending recovery session:', error);
+    }
+    setPasswordRecovery(false);
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      className="flex-1 bg-background"
+    >
+      <ScrollView
+        contentContainerClassName="flex-grow justify-center px-6 py-8"
+        keyboardShouldPersistTaps="handled"
+      >
+        <View className="w-full max-w-md mx-auto">
+          {/* Header */}
+          <Animated.View entering={FadeInDown.delay(100).springify()} className="mb-8">
+            <Text className="text-4xl font-bold text-text text-center mb-2">
+              New Password
+            </Text>
+            <Text className="text-base text-gray-400 text-center">
+              Choose a new password for your account
+            </Text>
+          </Animated.View>
+
+          {/* Error Message */}
+          {updatePasswordError && (
+            <View className="mb-4">
+              <ErrorMessage
+                message={updatePasswordError.message || 'Could not update your password.'}
+              />
+            </View>
+          )}
+
+          <Animated.View entering={FadeInUp.delay(200).springify()}>
+            <Input
+              label="New Password"
+              value={password}
+              onChangeText={setPassword}
+              placeholder="Create a password"
+              secureTextEntry
+              autoCapitalize="none"
+              autoComplete="password-new"
+              error={errors.password}
+              className="mb-4"
+            />
+
+            <Input
+              label="Confirm Password"
+              value={confirmPassword}
+              onChangeText={setConfirmPassword}
+              placeholder="Confirm your password"
+              secureTextEntry
+              autoCapitalize="none"
+              autoComplete="password-new"
+              error={errors.confirmPassword}
+              className="mb-6"
+            />
+
+            <Button
+              title="Update Password"
+              onPress={handleSubmit}
+              loading={isUpdatingPassword}
+              disabled={isUpdatingPassword}
+              variant="primary"
+              className="mb-4"
+            />
+          </Animated.View>
+
+          <Animated.View entering={FadeInUp.delay(300).springify()} className="mt-6 flex-row justify-center items-center">
+            <TouchableOpacity onPress={handleCancel} disabled={isUpdatingPassword}>
+              <Text className="text-primary font-semibold text-base">
+                Back to Sign In
+              </Text>
+            </TouchableOpacity>
+          </Animated.View>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
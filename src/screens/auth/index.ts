@@ -6,3 +6,6 @@
 
 export { LoginScreen } from './LoginScreen';
 export { RegisterScreen } from './RegisterScreen';
+export { ForgotPasswordScreen } from './ForgotPasswordScreen';
+export { ResetPasswordScreen } from './ResetPasswordScreen';
+export { ChooseUsernameScreen } from './ChooseUsernameScreen';
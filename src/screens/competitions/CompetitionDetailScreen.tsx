@@ -0,0 +1,207 @@
+/**
+ * CompetitionDetailScreen Component
+ * 
+ * Shows a competition's rules, submission window and its own leaderboard
+ */
+
+import React from 'react';
+import { View, Text, FlatList, RefreshControl, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { useCompetition } from '../../hooks/useCompetitions';
+import { useLeaderboard } from '../../hooks/useLeaderboard';
+import { useIsCompetitionJudge } from '../../hooks/useJudging';
+import { useRole } from '../../hooks/useRole';
+import { useAuthStore } from '../../store/authStore';
+import { LeaderboardItem } from '../../components/leaderboard/LeaderboardItem';
+import {
+  formatCompetitionDate,
+  getStatusStyle,
+} from '../../components/competition/CompetitionCard';
+import { Button } from '../../components/common/Button';
+import { LoadingSpinner } from '../../components/common/LoadingSpinner';
+import { ErrorMessage } from '../../components/common/ErrorMessage';
+import { isSubmissionWindowOpen } from '../../services/api/competition.service';
+import { formatDuration } from '../../utils/videoMetadata';
+import type { LeaderboardEntryWithUser } from '../../types/leaderboard.types';
+import type { CompetitionsStackParamList } from '../../navigation/AppNavigator';
+
+type CompetitionDetailScreenProps = NativeStackScreenProps<
+  CompetitionsStackParamList,
+  'CompetitionDetail'
+>;
+
+export const CompetitionDetailScreen: React.FC<CompetitionDetailScreenProps> = ({
+  navigation,
+  route,
+}) => {
+  const { competitionId } = route.params;
+  const userId = useAuthStore((state) => state.user?.id);
+
+  const {
+    data: competition,
+    isLoading: isLoadingCompetition,
+    error: competitionError,
+    refetch: refetchCompetition,
+  } = useCompetition(competitionId);
+
+  const {
+    data: leaderboard,
+    isLoading: isLoadingLeaderboard,
+    refetch: refetchLeaderboard,
+    isRefetching,
+  } = useLeaderboard({ competitionId, limit: 100 });
+
+  const { data: isAssignedJudge } = useIsCompetitionJudge(competitionId, userId);
+  const { hasRole, isAdmin } = useRole();
+
+  // Mirrors is_competition_judge(): assigned judges with the judge role, or any admin
+  const isJudge = isAdmin || (Boolean(isAssignedJudge) && hasRole('judge'));
+
+  /**
+   * Refresh both the competition and its leaderboard
+   */
+  const handleRefresh = () => {
+    refetchCompetition();
+    refetchLeaderboard();
+  };
+
+  /**
+   * Render individual leaderboard item
+   */
+  const renderItem = ({ item, index }: { item: LeaderboardEntryWithUser; index: number }) => (
+    <LeaderboardItem entry={item} index={index} />
+  );
+
+  /**
+   * Render competition details above the leaderboard
+   */
+  const renderHeader = () => {
+    if (!competition) return null;
+
+    const style = getStatusStyle(competition.status);
+    const acceptingEntries = isSubmissionWindowOpen(competition);
+
+    return (
+      <Animated.View entering={FadeInDown.springify()} className="mb-6">
+        <TouchableOpacity onPress={() => navigation.goBack()} className="mb-4">
+          <Text className="text-blue-600 font-semibold text-base">‹ Competitions</Text>
+        </TouchableOpacity>
+
+        <View className="flex-row items-center mb-2">
+          <Text className="text-3xl font-bold text-gray-900 flex-1 mr-3">
+            {competition.title}
+          </Text>
+          <View className={`px-3 py-1 rounded-full ${style.badge}`}>
+            <Text className={`text-xs font-semibold ${style.text}`}>{style.label}</Text>
+          </View>
+        </View>
+
+        <Text className="text-blue-600 text-base font-medium mb-2">
+          💃 {competition.dance_style}
+        </Text>
+
+        <Text className="text-gray-600 text-sm mb-1">
+          Submission window: {formatCompetitionDate(competition.opens_at)} –{' '}
+          {formatCompetitionDate(competition.closes_at)}
+        </Text>
+
+        {competition.max_duration_seconds ? (
+          <Text className="text-gray-600 text-sm mb-1">
+            Maximum clip length: {formatDuration(competition.max_duration_seconds * 1000)}
+          </Text>
+        ) : null}
+
+        <Text
+          className={`text-sm font-semibold mb-4 ${acceptingEntries ? 'text-green-600' : 'text-gray-500'}`}
+        >
+          {acceptingEntries ? 'Accepting entries' : 'Not accepting entries'}
+        </Text>
+
+        {competition.rules && (
+          <View className="bg-white rounded-xl border-2 border-gray-200 p-4 mb-4">
+            <Text className="text-gray-900 font-semibold mb-2">Rules</Text>
+            <Text className="text-gray-700 text-sm">{competition.rules}</Text>
+          </View>
+        )}
+
+        {isJudge && competition.status === 'judging' && (
+          <Button
+            title="Judge Entries"
+            onPress={() => navigation.navigate('Judging', { competitionId })}
+            className="mb-4"
+          />
+        )}
+
+        <Text className="text-xl font-bold text-gray-900">Leaderboard</Text>
+      </Animated.View>
+    );
+  };
+
+  /**
+   * Render empty state when no entries
+   */
+  const renderEmpty = () => {
+    if (isLoadingLeaderboard) return null;
+
+    return (
+      <View className="items-center justify-center py-12">
+        <Text className="text-6xl mb-4">🏆</Text>
+        <Text className="text-gray-900 text-xl font-semibold mb-2">
+          No Entries Yet
+        </Text>
+        <Text className="text-gray-500 text-center px-8">
+          Entries will appear here once dancers submit.
+        </Text>
+      </View>
+    );
+  };
+
+  if (isLoadingCompetition && !competition) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <LoadingSpinner />
+      </SafeAreaView>
+    );
+  }
+
+  if (competitionError && !competition) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <View className="flex-1 px-4 justify-center">
+          <ErrorMessage
+            message={competitionError.message || 'Failed to load competition'}
+            onRetry={() => refetchCompetition()}
+          />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50" edges={['top']}>
+      <FlatList
+        data={leaderboard || []}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.id}
+        ListHeaderComponent={renderHeader}
+        ListEmptyComponent={renderEmpty}
+        contentContainerStyle={{
+          paddingHorizontal: 16,
+          paddingTop: 20,
+          paddingBottom: 32,
+        }}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefetching}
+            onRefresh={handleRefresh}
+            tintColor="#2563eb"
+            colors={['#2563eb']}
+          />
+        }
+        showsVerticalScrollIndicator={false}
+      />
+    </SafeAreaView>
+  );
+};
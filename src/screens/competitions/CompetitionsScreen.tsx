@@ -0,0 +1,120 @@
+/**
+ * CompetitionsScreen Component
+ * 
+ * Lists published competitions so dancers can browse and open each one
+ */
+
+import React from 'react';
+import { View, Text, FlatList, RefreshControl } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { useCompetitions } from '../../hooks/useCompetitions';
+import { CompetitionCard } from '../../components/competition/CompetitionCard';
+import { LoadingSpinner } from '../../components/common/LoadingSpinner';
+import { ErrorMessage } from '../../components/common/ErrorMessage';
+import type { Competition } from '../../types/competition.types';
+import type { CompetitionsStackParamList } from '../../navigation/AppNavigator';
+
+type CompetitionsScreenProps = NativeStackScreenProps<CompetitionsStackParamList, 'CompetitionList'>;
+
+export const CompetitionsScreen: React.FC<CompetitionsScreenProps> = ({ navigation }) => {
+  const { data: competitions, isLoading, error, refetch, isRefetching } = useCompetitions({
+    status: ['open', 'judging', 'closed'],
+    limit: 50,
+  });
+
+  /**
+   * Open the selected competition
+   */
+  const handlePress = (competition: Competition) => {
+    navigation.navigate('CompetitionDetail', { competitionId: competition.id });
+  };
+
+  /**
+   * Render individual competition card
+   */
+  const renderItem = ({ item, index }: { item: Competition; index: number }) => (
+    <CompetitionCard competition={item} index={index} onPress={handlePress} />
+  );
+
+  /**
+   * Render header with title and description
+   */
+  const renderHeader = () => (
+    <Animated.View entering={FadeInDown.springify()} className="mb-6">
+      <Text className="text-3xl font-bold text-gray-900 mb-2">
+        Competitions
+      </Text>
+      <Text className="text-gray-600 text-base">
+        Find a stage and show your moves 🎶
+      </Text>
+    </Animated.View>
+  );
+
+  /**
+   * Render empty state when no data
+   */
+  const renderEmpty = () => {
+    if (isLoading) return null;
+
+    return (
+      <View className="items-center justify-center py-12">
+        <Text className="text-6xl mb-4">🎭</Text>
+        <Text className="text-gray-900 text-xl font-semibold mb-2">
+          No Competitions Yet
+        </Text>
+        <Text className="text-gray-500 text-center px-8">
+          Check back soon for the next competition.
+        </Text>
+      </View>
+    );
+  };
+
+  if (isLoading && !competitions) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <LoadingSpinner />
+      </SafeAreaView>
+    );
+  }
+
+  if (error && !competitions) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <View className="flex-1 px-4 justify-center">
+          <ErrorMessage
+            message={error.message || 'Failed to load competitions'}
+            onRetry={() => refetch()}
+          />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50" edges={['top']}>
+      <FlatList
+        data={competitions || []}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.id}
+        ListHeaderComponent={renderHeader}
+        ListEmptyComponent={renderEmpty}
+        contentContainerStyle={{
+          paddingHorizontal: 16,
+          paddingTop: 20,
+          paddingBottom: 32,
+        }}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefetching}
+            onRefresh={() => refetch()}
+            tintColor="#2563eb"
+            colors={['#2563eb']}
+          />
+        }
+        showsVerticalScrollIndicator={false}
+      />
+    </SafeAreaView>
+  );
+};
@@ -0,0 +1,128 @@
+/**
+ * JudgeDashboardScreen Component
+ *
+ * Judge tab listing the competitions the signed in judge is assigned to,
+ * with those currently being judged first
+ */
+
+import React from 'react';
+import { View, Text, FlatList, RefreshControl } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { useJudgeAssignments } from '../../hooks/useJudging';
+import { useAuthStore } from '../../store/authStore';
+import { CompetitionCard } from '../../components/competition/CompetitionCard';
+import { LoadingSpinner } from '../../components/common/LoadingSpinner';
+import { ErrorMessage } from '../../components/common/ErrorMessage';
+import type { Competition } from '../../types/competition.types';
+import type { MainTabParamList } from '../../navigation/AppNavigator';
+
+type JudgeDashboardScreenProps = BottomTabScreenProps<MainTabParamList, 'Judge'>;
+
+export const JudgeDashboardScreen: React.FC<JudgeDashboardScreenProps> = ({ navigation }) => {
+  const userId = useAuthStore((state) => state.user?.id);
+  const { data: competitions, isLoading, error, refetch, isRefetching } =
+    useJudgeAssignments(userId);
+
+  const judgingCount = competitions?.filter((c) => c.status === 'judging').length ?? 0;
+
+  /**
+   * Go straight to scoring for competitions being judged, otherwise open the details
+   */
+  const handlePress = (competition: Competition) => {
+    navigation.navigate('Competitions', {
+      screen: competition.status === 'judging' ? 'Judging' : 'CompetitionDetail',
+      params: { competitionId: competition.id },
+    });
+  };
+
+  /**
+   * Render individual competition card
+   */
+  const renderItem = ({ item, index }: { item: Competition; index: number }) => (
+    <CompetitionCard competition={item} index={index} onPress={handlePress} />
+  );
+
+  /**
+   * Render header with title and how many competitions need scores
+   */
+  const renderHeader = () => (
+    <Animated.View entering={FadeInDown.springify()} className="mb-6">
+      <Text className="text-3xl font-bold text-gray-900 mb-2">
+        Judging
+      </Text>
+      <Text className="text-gray-600 text-base">
+        {judgingCount > 0
+          ? `${judgingCount} ${judgingCount === 1 ? 'competition needs' : 'competitions need'} your scores ⚖️`
+          : 'Competitions you judge will appear here ⚖️'}
+      </Text>
+    </Animated.View>
+  );
+
+  /**
+   * Render empty state when the judge has no assignments
+   */
+  const renderEmpty = () => {
+    if (isLoading) return null;
+
+    return (
+      <View className="items-center justify-center py-12">
+        <Text className="text-6xl mb-4">⚖️</Text>
+        <Text className="text-gray-900 text-xl font-semibold mb-2">
+          No Assignments
+        </Text>
+        <Text className="text-gray-500 text-center px-8">
+          An admin will assign you to competitions to judge.
+        </Text>
+      </View>
+    );
+  };
+
+  if (isLoading && !competitions) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <LoadingSpinner />
+      </SafeAreaView>
+    );
+  }
+
+  if (error && !competitions) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <View className="flex-1 px-4 justify-center">
+          <ErrorMessage
+            message={error.message || 'Failed to load your judging assignments'}
+            onRetry={() => refetch()}
+          />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50" edges={['top']}>
+      <FlatList
+        data={competitions || []}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.id}
+        ListHeaderComponent={renderHeader}
+        ListEmptyComponent={renderEmpty}
+        contentContainerStyle={{
+          paddingHorizontal: 16,
+          paddingTop: 20,
+          paddingBottom: 32,
+        }}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefetching}
+            onRefresh={() => refetch()}
+            tintColor="#2563eb"
+            colors={['#2563eb']}
+          />
+        }
+        showsVerticalScrollIndicator={false}
+      />
+    </SafeAreaView>
+  );
+};
@@ -0,0 +1,229 @@
+/**
+ * JudgingScreen Component
+ *
+ * Lets a judge watch each competition entry and score it against
+ * the competition's weighted rubric
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import * as Haptics from 'expo-haptics';
+import { VideoPlayer } from '../../components/video/VideoPlayer';
+import { CriterionSlider } from '../../components/judging/CriterionSlider';
+import { Button } from '../../components/common/Button';
+import { LoadingSpinner } from '../../components/common/LoadingSpinner';
+import { ErrorMessage } from '../../components/common/ErrorMessage';
+import { useAuthStore } from '../../store/authStore';
+import { useCompetition } from '../../hooks/useCompetitions';
+import { useRubric, useJudgingEntries, useSubmitJudgeScores } from '../../hooks/useJudging';
+import { calculateWeightedScore } from '../../services/api/judging.service';
+import type { CriterionScoreInput } from '../../types/judging.types';
+import type { CompetitionsStackParamList } from '../../navigation/AppNavigator';
+
+type JudgingScreenProps = NativeStackScreenProps<CompetitionsStackParamList, 'Judging'>;
+
+const PLAYER_HEIGHT = 280;
+
+export const JudgingScreen: React.FC<JudgingScreenProps> = ({ navigation, route }) => {
+  const { competitionId } = route.params;
+  const judgeId = useAuthStore((state) => state.user?.id);
+
+  const [entryIndex, setEntryIndex] = useState(0);
+  const [scores, setScores] = useState<Record<string, number>>({});
+
+  const { data: competition } = useCompetition(competitionId);
+  const { data: rubric, isLoading: isLoadingRubric } = useRubric(competitionId);
+  const {
+    data: entries,
+    isLoading: isLoadingEntries,
+    error,
+    refetch,
+  } = useJudgingEntries(competitionId, judgeId);
+  const submitScoresMutation = useSubmitJudgeScores(competitionId);
+
+  const entry = entries?.[entryIndex];
+  const isJudgingOpen = competition?.status === 'judging';
+
+  // Load the judge's existing scores whenever the entry changes
+  useEffect(() => {
+    if (!entry || !rubric) return;
+
+    const initialScores: Record<string, number> = {};
+    rubric.forEach((criterion) => {
+      const existing = entry.judgeScores.find((score) => score.criterion_id === criterion.id);
+      initialScores[criterion.id] = existing ? existing.score : 0;
+    });
+    setScores(initialScores);
+  }, [entry, rubric]);
+
+  const scoreInputs: CriterionScoreInput[] = useMemo(
+    () =>
+      Object.entries(scores).map(([criterionId, score]) => ({
+        criterionId,
+        score,
+      })),
+    [scores]
+  );
+
+  const previewScore = rubric ? calculateWeightedScore(rubric, scoreInputs) : 0;
+
+  /**
+   * Update a single criterion score
+   */
+  const handleScoreChange = (criterionId: string, value: number) => {
+    setScores((current) => ({ ...current, [criterionId]: value }));
+  };
+
+  /**
+   * Move to another entry
+   */
+  const goToEntry = async (index: number) => {
+    await Haptics.selectionAsync();
+    setEntryIndex(index);
+  };
+
+  /**
+   * Save scores for the current entry and advance to the next one
+   */
+  const handleSubmit = () => {
+    if (!entry || !judgeId) return;
+
+    submitScoresMutation.mutate(
+      { entryId: entry.id, judgeId, scores: scoreInputs },
+      {
+        onSuccess: async () => {
+          await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          if (entries && entryIndex < entries.length - 1) {
+            setEntryIndex(entryIndex + 1);
+          }
+        },
+      }
+    );
+  };
+
+  if ((isLoadingEntries && !entries) || (isLoadingRubric && !rubric)) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <LoadingSpinner message="Loading entries..." />
+      </SafeAreaView>
+    );
+  }
+
+  if (error && !entries) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <View className="flex-1 px-4 justify-center">
+          <ErrorMessage
+            message={error.message || 'Failed to load entries'}
+            onRetry={() => refetch()}
+          />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50" edges={['top']}>
+      {/* Header */}
+      <View className="flex-row items-center justify-between px-4 py-3">
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text className="text-blue-600 font-semibold text-base">‹ Back</Text>
+        </TouchableOpacity>
+        <Text className="text-gray-900 font-semibold text-base" numberOfLines={1}>
+          {competition?.title || 'Judging'}
+        </Text>
+        <Text className="text-gray-500 text-sm">
+          {entries && entries.length > 0 ? `${entryIndex + 1}/${entries.length}` : ''}
+        </Text>
+      </View>
+
+      {!entry ? (
+        <View className="items-center justify-center py-12">
+          <Text className="text-6xl mb-4">🎬</Text>
+          <Text className="text-gray-900 text-xl font-semibold mb-2">
+            No Entries To Judge
+          </Text>
+        </View>
+      ) : (
+        <>
+          {/* Entry video */}
+          {entry.video ? (
+            <VideoPlayer
+              key={entry.id}
+              videoUrl={entry.video.video_url}
+              isActive
+              videoData={entry.video}
+              height={PLAYER_HEIGHT}
+              interactive
+            />
+          ) : (
+            <View className="bg-black items-center justify-center" style={{ height: PLAYER_HEIGHT }}>
+              <Text className="text-white">Video unavailable</Text>
+            </View>
+          )}
+
+          <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 32 }}>
+            <View className="flex-row justify-between items-center mb-4">
+              <Text className="text-gray-900 text-lg font-semibold">
+                @{entry.user?.username || 'Unknown'}
+              </Text>
+              <Text className="text-gray-900 text-2xl font-bold">
+                {previewScore}
+                <Text className="text-gray-500 text-sm font-normal"> / 100</Text>
+              </Text>
+            </View>
+
+            {!isJudgingOpen && (
+              <Text className="text-yellow-700 bg-yellow-50 rounded-lg p-3 mb-4 text-sm">
+                Scores can only be submitted while the competition is in judging.
+              </Text>
+            )}
+
+            {(rubric || []).map((criterion) => (
+              <CriterionSlider
+                key={criterion.id}
+                criterion={criterion}
+                value={scores[criterion.id] ?? 0}
+                onChange={handleScoreChange}
+                disabled={!isJudgingOpen}
+              />
+            ))}
+
+            <Button
+              title={entry.judgeScores.length > 0 ? 'Update Scores' : 'Submit Scores'}
+              onPress={handleSubmit}
+              loading={submitScoresMutation.isPending}
+              disabled={!isJudgingOpen || !rubric || rubric.length === 0}
+              className="mb-3"
+            />
+
+            <View className="flex-row justify-between">
+              <TouchableOpacity
+                onPress={() => goToEntry(entryIndex - 1)}
+                disabled={entryIndex === 0}
+              >
+                <Text className={`font-semibold ${entryIndex === 0 ? 'text-gray-300' : 'text-blue-600'}`}>
+                  ‹ Previous
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => goToEntry(entryIndex + 1)}
+                disabled={!entries || entryIndex >= entries.length - 1}
+              >
+                <Text
+                  className={`font-semibold ${
+                    !entries || entryIndex >= entries.length - 1 ? 'text-gray-300' : 'text-blue-600'
+                  }`}
+                >
+                  Next ›
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </>
+      )}
+    </SafeAreaView>
+  );
+};
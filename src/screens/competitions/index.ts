@@ -0,0 +1,4 @@
+export { CompetitionsScreen } from './CompetitionsScreen';
+export { CompetitionDetailScreen } from './CompetitionDetailScreen';
+export { JudgingScreen } from './JudgingScreen';
+export { JudgeDashboardScreen } from './JudgeDashboardScreen';
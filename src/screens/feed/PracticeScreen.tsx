@@ -0,0 +1,370 @@
+/**
+ * PracticeScreen Component
+ *
+ * Practice player for learning a routine from a video: slow motion from
+ * 0.25x to 1.5x, a mirrored view to dance along facing the screen, an A-B
+ * loop around one section, frame stepping and a "5, 6, 7, 8" count-in
+ * before playback starts.
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Video, AVPlaybackStatus } from 'expo-av';
+import Animated, { FadeIn, ZoomIn } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+import { VideoPlayer } from '../../components/video/VideoPlayer';
+import { LoadingSpinner } from '../../components/common/LoadingSpinner';
+import { ErrorMessage } from '../../components/common/ErrorMessage';
+import { useVideo } from '../../hooks/useVideos';
+import type { MainStackParamList } from '../../navigation/AppNavigator';
+
+type PracticeScreenProps = NativeStackScreenProps<MainStackParamList, 'Practice'>;
+
+const PLAYER_HEIGHT = 360;
+
+const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5];
+
+/**
+ * One frame at 30 fps, the step used by the frame buttons
+ */
+const FRAME_DURATION_MS = 1000 / 30;
+
+/**
+ * How often the player reports its position, which bounds how far past
+ * the B marker playback runs before jumping back to A
+ */
+const LOOP_CHECK_INTERVAL_MS = 50;
+
+const COUNT_IN_BEATS = ['5', '6', '7', '8'];
+
+/**
+ * Time between count-in beats at 1x; slowed down along with the video
+ */
+const BEAT_INTERVAL_MS = 600;
+
+/**
+ * Format a position as m:ss.t
+ */
+const formatPosition = (millis: number) => {
+  const totalSeconds = Math.max(0, millis) / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${seconds}`;
+};
+
+export const PracticeScreen: React.FC<PracticeScreenProps> = ({ route, navigation }) => {
+  const { videoId } = route.params;
+  const { data: video, isLoading, error, refetch } = useVideo(videoId);
+
+  const videoRef = useRef<Video>(null);
+  const countInTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [rate, setRate] = useState(1);
+  const [mirrored, setMirrored] = useState(false);
+  const [countInEnabled, setCountInEnabled] = useState(true);
+  const [countInBeat, setCountInBeat] = useState<string | null>(null);
+  const [positionMillis, setPositionMillis] = useState(0);
+  const [durationMillis, setDurationMillis] = useState(0);
+  const [loopStart, setLoopStart] = useState<number | null>(null);
+  const [loopEnd, setLoopEnd] = useState<number | null>(null);
+
+  const hasLoop = loopStart !== null && loopEnd !== null;
+
+  const stopCountIn = useCallback(() => {
+    if (countInTimer.current) {
+      clearTimeout(countInTimer.current);
+      countInTimer.current = null;
+    }
+    setCountInBeat(null);
+  }, []);
+
+  useEffect(() => stopCountIn, [stopCountIn]);
+
+  /**
+   * Seek precisely, so frame steps and loop markers land where they are set
+   */
+  const seekTo = useCallback(
+    (millis: number) => {
+      const position = Math.min(Math.max(0, millis), durationMillis || millis);
+      setPositionMillis(position);
+      videoRef.current
+        ?.setPositionAsync(position, { toleranceMillisBefore: 0, toleranceMillisAfter: 0 })
+        .catch((seekError) => {
+          console.error('Error seeking practice video:', seekError);
+        });
+    },
+    [durationMillis]
+  );
+
+  // Track the position and jump back to A when playback passes B
+  const handlePlaybackStatusUpdate = (status: AVPlaybackStatus) => {
+    if (!status.isLoaded) return;
+
+    setPositionMillis(status.positionMillis);
+    setDurationMillis(status.durationMillis ?? 0);
+
+    if (!hasLoop) return;
+
+    if (status.didJustFinish) {
+      // B was set at the very end of the video
+      videoRef.current
+        ?.playFromPositionAsync(loopStart, { toleranceMillisBefore: 0, toleranceMillisAfter: 0 })
+        .catch((seekError) => {
+          console.error('Error restarting practice loop:', seekError);
+        });
+    } else if (status.isPlaying && status.positionMillis >= loopEnd) {
+      seekTo(loopStart);
+    }
+  };
+
+  /**
+   * Count "5, 6, 7, 8" with a haptic tap on each beat, then play
+   */
+  const startCountIn = () => {
+    let beat = 0;
+
+    const tick = () => {
+      if (beat === COUNT_IN_BEATS.length) {
+        countInTimer.current = null;
+        setCountInBeat(null);
+        setIsPlaying(true);
+        return;
+      }
+
+      setCountInBeat(COUNT_IN_BEATS[beat]);
+      Haptics.impactAsync(
+        beat === COUNT_IN_BEATS.length - 1
+          ? Haptics.ImpactFeedbackStyle.Heavy
+          : Haptics.ImpactFeedbackStyle.Light
+      );
+      beat += 1;
+      countInTimer.current = setTimeout(tick, BEAT_INTERVAL_MS / rate);
+    };
+
+    tick();
+  };
+
+  const handlePlayPause = () => {
+    if (isPlaying || countInBeat !== null) {
+      stopCountIn();
+      setIsPlaying(false);
+      return;
+    }
+
+    // Start each run of the loop from A
+    if (hasLoop && (positionMillis < loopStart || positionMillis >= loopEnd)) {
+      seekTo(loopStart);
+    }
+
+    if (countInEnabled) {
+      startCountIn();
+    } else {
+      setIsPlaying(true);
+    }
+  };
+
+  const handleStep = (direction: 1 | -1) => {
+    stopCountIn();
+    setIsPlaying(false);
+    seekTo(positionMillis + direction * FRAME_DURATION_MS);
+  };
+
+  const handleSetLoopStart = () => {
+    Haptics.selectionAsync();
+    setLoopStart(positionMillis);
+    if (loopEnd !== null && loopEnd <= positionMillis) {
+      setLoopEnd(null);
+    }
+  };
+
+  const handleSetLoopEnd = () => {
+    Haptics.selectionAsync();
+    if (loopStart !== null && positionMillis <= loopStart) {
+      setLoopStart(null);
+    }
+    setLoopEnd(positionMillis);
+  };
+
+  const handleClearLoop = () => {
+    setLoopStart(null);
+    setLoopEnd(null);
+  };
+
+  const handleRateChange = (value: number) => {
+    Haptics.selectionAsync();
+    setRate(value);
+  };
+
+  // Fraction of the timeline, for the progress bar and loop markers
+  const toPercent = (millis: number): `${number}%` =>
+    durationMillis > 0 ? `${Math.min(100, (millis / durationMillis) * 100)}%` : '0%';
+
+  if (isLoading) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <LoadingSpinner message="Loading video..." />
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !video) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <View className="flex-1 px-4 justify-center">
+          <ErrorMessage
+            message={error?.message || 'Video not found'}
+            onRetry={() => refetch()}
+          />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50" edges={['top']}>
+      {/* Header */}
+      <View className="flex-row items-center justify-between px-4 py-3">
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text className="text-blue-600 font-semibold text-base">‹ Back</Text>
+        </TouchableOpacity>
+        <Text
+          className="text-gray-900 font-semibold text-base flex-1 text-center mx-4"
+          numberOfLines={1}
+        >
+          {video.title}
+        </Text>
+        <Text className="text-gray-500 text-sm">Practice</Text>
+      </View>
+
+      {/* Player */}
+      <View style={{ height: PLAYER_HEIGHT }}>
+        <VideoPlayer
+          ref={videoRef}
+          videoUrl={video.video_url}
+          isActive={isPlaying}
+          videoData={video}
+          height={PLAYER_HEIGHT}
+          rate={rate}
+          mirrored={mirrored}
+          isLooping={!hasLoop}
+          progressUpdateIntervalMillis={LOOP_CHECK_INTERVAL_MS}
+          onPlaybackStatusUpdate={handlePlaybackStatusUpdate}
+        />
+
+        {/* Count-in */}
+        {countInBeat !== null && (
+          <Animated.View
+            entering={FadeIn.duration(100)}
+            className="absolute inset-0 items-center justify-center bg-black/40"
+          >
+            <Animated.Text
+              key={countInBeat}
+              entering={ZoomIn.duration(150)}
+              className="text-white text-7xl font-bold"
+            >
+              {countInBeat}
+            </Animated.Text>
+          </Animated.View>
+        )}
+      </View>
+
+      <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 32 }}>
+        {/* Timeline with loop markers */}
+        <View className="h-2 bg-gray-200 rounded-full mb-2">
+          {hasLoop && (
+            <View
+              className="absolute h-2 bg-blue-200 rounded-full"
+              style={{ left: toPercent(loopStart), width: toPercent(loopEnd - loopStart) }}
+            />
+          )}
+          <View className="absolute h-2 bg-blue-600 rounded-full" style={{ width: toPercent(positionMillis) }} />
+        </View>
+        <View className="flex-row justify-between mb-6">
+          <Text className="text-gray-500 text-xs">{formatPosition(positionMillis)}</Text>
+          <Text className="text-gray-500 text-xs">{formatPosition(durationMillis)}</Text>
+        </View>
+
+        {/* Transport */}
+        <View className="flex-row items-center justify-center mb-6">
+          <TouchableOpacity
+            onPress={() => handleStep(-1)}
+            className="w-12 h-12 rounded-full bg-white items-center justify-center shadow-sm"
+          >
+            <Text className="text-gray-900 text-lg">⏮</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handlePlayPause}
+            className="w-16 h-16 rounded-full bg-blue-600 items-center justify-center mx-6"
+          >
+            <Text className="text-white text-2xl">
+              {isPlaying || countInBeat !== null ? '⏸' : '▶️'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => handleStep(1)}
+            className="w-12 h-12 rounded-full bg-white items-center justify-center shadow-sm"
+          >
+            <Text className="text-gray-900 text-lg">⏭</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Speed */}
+        <Text className="text-gray-900 font-semibold mb-2">Speed</Text>
+        <View className="flex-row flex-wrap mb-6">
+          {PLAYBACK_RATES.map((value) => (
+            <TouchableOpacity
+              key={value}
+              onPress={() => handleRateChange(value)}
+              className={`px-4 py-2 rounded-full mr-2 mb-2 ${value === rate ? 'bg-blue-600' : 'bg-white'}`}
+            >
+              <Text className={value === rate ? 'text-white font-semibold' : 'text-gray-700'}>
+                {value}x
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* A-B loop */}
+        <Text className="text-gray-900 font-semibold mb-2">Loop</Text>
+        <View className="flex-row items-center mb-6">
+          <TouchableOpacity onPress={handleSetLoopStart} className="bg-white px-4 py-2 rounded-full mr-2">
+            <Text className="text-gray-700">
+              A {loopStart !== null ? formatPosition(loopStart) : '–'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleSetLoopEnd} className="bg-white px-4 py-2 rounded-full mr-2">
+            <Text className="text-gray-700">
+              B {loopEnd !== null ? formatPosition(loopEnd) : '–'}
+            </Text>
+          </TouchableOpacity>
+          {(loopStart !== null || loopEnd !== null) && (
+            <TouchableOpacity onPress={handleClearLoop} className="px-3 py-2">
+              <Text className="text-blue-600 font-semibold">Clear</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Toggles */}
+        <View className="flex-row">
+          <TouchableOpacity
+            onPress={() => setMirrored((value) => !value)}
+            className={`px-4 py-2 rounded-full mr-2 ${mirrored ? 'bg-blue-600' : 'bg-white'}`}
+          >
+            <Text className={mirrored ? 'text-white font-semibold' : 'text-gray-700'}>🪞 Mirror</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => setCountInEnabled((value) => !value)}
+            className={`px-4 py-2 rounded-full ${countInEnabled ? 'bg-blue-600' : 'bg-white'}`}
+          >
+            <Text className={countInEnabled ? 'text-white font-semibold' : 'text-gray-700'}>
+              🥁 Count-in
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
@@ -1,36 +1,74 @@
 /**
  * VideoFeedScreen Component
  * 
- * Main video feed screen with vertical scrolling and auto-play functionality
+ * Main video feed screen with vertical infinite scrolling and auto-play functionality.
+ * Viewers can switch between every video ("For You") and videos from
+ * creators they follow ("Following").
  */
 
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { View, FlatList, Dimensions, ViewToken, RefreshControl } from 'react-native';
 import type { ViewabilityConfig } from 'react-native';
 import Animated, { FadeIn } from 'react-native-reanimated';
+import { useIsFocused } from '@react-navigation/native';
 import { VideoPlayer } from '../../components/video/VideoPlayer';
 import { VideoControls } from '../../components/video/VideoControls';
+import { FeedModeToggle } from '../../components/video/FeedModeToggle';
 import { LoadingSpinner } from '../../components/common/LoadingSpinner';
 import { ErrorMessage } from '../../components/common/ErrorMessage';
-import { useVideos, useIncrementViews } from '../../hooks/useVideos';
-import type { VideoWithUser } from '../../types/video.types';
+import { useInfiniteVideos, useToggleLike } from '../../hooks/useVideos';
+import { useViewTracking } from '../../hooks/useViewTracking';
+import { usePlayerPool } from '../../hooks/usePlayerPool';
+import type { VideoFeedItem } from '../../types/video.types';
+import type { FeedMode } from '../../types/social.types';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 
 export const VideoFeedScreen: React.FC = () => {
+  const [feedMode, setFeedMode] = useState<FeedMode>('forYou');
   const [activeVideoIndex, setActiveVideoIndex] = useState(0);
+  const isFocused = useIsFocused();
   const viewabilityConfig = useRef<ViewabilityConfig>({
     itemVisiblePercentThreshold: 50,
   }).current;
 
-  // Fetch videos
-  const { data: videos, isLoading, error, refetch, isRefetching } = useVideos({
-    limit: 20,
+  // Fetch videos page by page
+  const {
+    data,
+    isLoading,
+    error,
+    refetch,
+    isRefetching,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteVideos({
+    feed: feedMode,
+    limit: 10,
     orderBy: 'created_at',
     orderDirection: 'desc',
   });
 
-  const incrementViewsMutation = useIncrementViews();
+  const videos = useMemo(
+    () => data?.pages.flatMap((page) => page.data),
+    [data]
+  );
+
+  const videoIds = useMemo(() => videos?.map((video) => video.id) ?? [], [videos]);
+
+  const { trackStatus, flush: flushWatchSession } = useViewTracking();
+  const { isInPool, handleFirstFrame } = usePlayerPool(videoIds, activeVideoIndex);
+  const { mutate: toggleLike } = useToggleLike();
+
+  // Double-tapping only ever likes; unliking stays on the like button
+  const handleDoubleTap = useCallback(
+    (item: VideoFeedItem) => {
+      if (!item.isLiked) {
+        toggleLike({ videoId: item.id, liked: true });
+      }
+    },
+    [toggleLike]
+  );
 
   // Handle viewability change for auto-play/pause
   const onViewableItemsChanged = useRef(
@@ -39,38 +77,74 @@ export const VideoFeedScreen: React.FC = () => {
         const visibleIndex = viewableItems[0].index;
         if (visibleIndex !== null && visibleIndex !== activeVideoIndex) {
           setActiveVideoIndex(visibleIndex);
-          
-          // Increment views for the newly visible video
-          const visibleVideo = viewableItems[0].item as VideoWithUser;
-          if (visibleVideo?.id) {
-            incrementViewsMutation.mutate(visibleVideo.id);
-          }
         }
       }
     }
   ).current;
 
-  // Render individual video item
+  // Report the watch session of the previous video when the active one changes
+  useEffect(() => {
+    flushWatchSession();
+  }, [activeVideoIndex, flushWatchSession]);
+
+  // Render individual video item; only items in the player pool get a player
   const renderVideoItem = useCallback(
-    ({ item, index }: { item: VideoWithUser; index: number }) => {
-      const isActive = index === activeVideoIndex;
+    ({ item, index }: { item: VideoFeedItem; index: number }) => {
+      // Nothing plays while another screen, e.g. the practice player, is on top
+      const isActive = index === activeVideoIndex && isFocused;
 
       return (
         <View style={{ height: SCREEN_HEIGHT }}>
-          <VideoPlayer
-            videoUrl={item.video_url}
-            isActive={isActive}
-            videoData={item}
-          />
+          {isInPool(index) ? (
+            <VideoPlayer
+              videoUrl={item.video_url}
+              isActive={isActive}
+              videoData={item}
+              onPlaybackStatusUpdate={
+                isActive ? (status) => trackStatus(item.id, status) : undefined
+              }
+              onFirstFrame={() => handleFirstFrame(item.id)}
+              interactive
+              onDoubleTap={() => handleDoubleTap(item)}
+            />
+          ) : (
+            <View className="flex-1 bg-black" />
+          )}
           <VideoControls videoData={item} />
         </View>
       );
     },
-    [activeVideoIndex]
+    [activeVideoIndex, isFocused, isInPool, trackStatus, handleFirstFrame, handleDoubleTap]
   );
 
+  // Load the next page as the viewer approaches the end of the feed
+  const handleEndReached = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Show a spinner below the last video while the next page loads
+  const renderFooter = useCallback(
+    () =>
+      isFetchingNextPage ? (
+        <View className="py-6">
+          <LoadingSpinner size="small" color="#ffffff" />
+        </View>
+      ) : null,
+    [isFetchingNextPage]
+  );
+
+  // Start the other feed from its first video
+  const handleFeedModeChange = useCallback((mode: FeedMode) => {
+    setFeedMode(mode);
+    setActiveVideoIndex(0);
+  }, []);
+
+  const feedModeToggle = <FeedModeToggle mode={feedMode} onChange={handleFeedModeChange} />;
+
   // Key extractor for FlatList
-  const keyExtractor = useCallback((item: VideoWithUser) => item.id, []);
+  const keyExtractor = useCallback((item: VideoFeedItem) => item.id, []);
 
   // Get item layout for optimization
   const getItemLayout = useCallback(
@@ -90,6 +164,7 @@ export const VideoFeedScreen: React.FC = () => {
         className="flex-1 bg-black"
       >
         <LoadingSpinner size="large" color="#ffffff" />
+        {feedModeToggle}
       </Animated.View>
     );
   }
@@ -105,6 +180,7 @@ export const VideoFeedScreen: React.FC = () => {
           message="Failed to load videos. Please check your connection and try again."
           onRetry={() => refetch()}
         />
+        {feedModeToggle}
       </Animated.View>
     );
   }
@@ -117,9 +193,14 @@ export const VideoFeedScreen: React.FC = () => {
         className="flex-1 bg-black items-center justify-center px-6"
       >
         <ErrorMessage
-          message="No videos available at the moment."
+          message={
+            feedMode === 'following'
+              ? 'No videos from creators you follow yet. Follow dancers from their profiles to see their videos here.'
+              : 'No videos available at the moment.'
+          }
           onRetry={() => refetch()}
         />
+        {feedModeToggle}
       </Animated.View>
     );
   }
@@ -127,6 +208,7 @@ export const VideoFeedScreen: React.FC = () => {
   return (
     <View className="flex-1 bg-black">
       <FlatList
+        key={feedMode}
         data={videos}
         renderItem={renderVideoItem}
         keyExtractor={keyExtractor}
@@ -142,6 +224,9 @@ export const VideoFeedScreen: React.FC = () => {
         maxToRenderPerBatch={2}
         initialNumToRender={1}
         removeClippedSubviews={true}
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={2}
+        ListFooterComponent={renderFooter}
         refreshControl={
           <RefreshControl
             refreshing={isRefetching}
@@ -151,6 +236,7 @@ export const VideoFeedScreen: React.FC = () => {
           />
         }
       />
+      {feedModeToggle}
     </View>
   );
 };
@@ -1 +1,2 @@
 export { VideoFeedScreen } from './VideoFeedScreen';
+export { PracticeScreen } from './PracticeScreen';
@@ -0,0 +1,152 @@
+/**
+ * AccountSettingsScreen Component
+ *
+ * Lets the signed in user export their data and delete their account, with
+ * a grace period during which the deletion can be cancelled
+ */
+
+import React from 'react';
+import { Text, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+import { useAuthStore } from '../../store/authStore';
+import { useAuth } from '../../hooks/useAuth';
+import {
+  useCancelAccountDeletion,
+  useExportUserData,
+  useRequestAccountDeletion,
+} from '../../hooks/useAccount';
+import { Button } from '../../components/common';
+import { showSuccessToast } from '../../utils/toast';
+import type { MainStackParamList } from '../../navigation/AppNavigator';
+
+type AccountSettingsScreenProps = NativeStackScreenProps<MainStackParamList, 'AccountSettings'>;
+
+/**
+ * Format a deletion date for display
+ */
+const formatDeletionDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+
+export const AccountSettingsScreen: React.FC<AccountSettingsScreenProps> = ({ navigation }) => {
+  const user = useAuthStore((state) => state.user);
+  const { logout, isLoggingOut } = useAuth();
+
+  const { mutate: exportData, isPending: isExporting } = useExportUserData();
+  const { mutate: requestDeletion, isPending: isRequestingDeletion } = useRequestAccountDeletion();
+  const { mutate: cancelDeletion, isPending: isCancellingDeletion } = useCancelAccountDeletion();
+
+  const deletionScheduledFor = user?.deletion_scheduled_for;
+  const isBusy = isExporting || isRequestingDeletion || isCancellingDeletion || isLoggingOut;
+
+  /**
+   * Confirm, then schedule the account for deletion and sign out
+   */
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete Account',
+      'Your account, videos, likes, comments and scores will be permanently deleted after 30 days. Sign back in and cancel before then to keep your account.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () =>
+            requestDeletion(undefined, {
+              onSuccess: async (scheduledFor) => {
+                await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+                showSuccessToast(`Your account will be deleted on ${formatDeletionDate(scheduledFor)}`);
+                logout();
+              },
+            }),
+        },
+      ]
+    );
+  };
+
+  /**
+   * Keep the account
+   */
+  const handleCancelDeletion = () => {
+    cancelDeletion(undefined, {
+      onSuccess: async () => {
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        showSuccessToast('Your account will not be deleted');
+      },
+    });
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50" edges={['top']}>
+      <ScrollView contentContainerClassName="px-4 py-5">
+        {/* Header */}
+        <Animated.View entering={FadeInDown.springify()} className="mb-6">
+          <TouchableOpacity onPress={() => navigation.goBack()} className="mb-4">
+            <Text className="text-blue-600 text-base font-semibold">← Back</Text>
+          </TouchableOpacity>
+          <Text className="text-3xl font-bold text-gray-900">Account</Text>
+        </Animated.View>
+
+        {/* Export */}
+        <Animated.View
+          entering={FadeInUp.delay(100).springify()}
+          className="bg-white rounded-xl p-4 mb-4"
+        >
+          <Text className="text-gray-900 text-lg font-semibold mb-1">Export My Data</Text>
+          <Text className="text-gray-500 mb-4">
+            Download your profile, videos, likes, comments and scores as a JSON file.
+          </Text>
+          <Button
+            title="Export My Data"
+            onPress={() => exportData()}
+            variant="outline"
+            loading={isExporting}
+            disabled={isBusy}
+          />
+        </Animated.View>
+
+        {/* Delete */}
+        <Animated.View
+          entering={FadeInUp.delay(200).springify()}
+          className="bg-white rounded-xl p-4"
+        >
+          <Text className="text-gray-900 text-lg font-semibold mb-1">Delete Account</Text>
+          {deletionScheduledFor ? (
+            <>
+              <Text className="text-red-600 mb-4">
+                Your account will be permanently deleted on{' '}
+                {formatDeletionDate(deletionScheduledFor)}.
+              </Text>
+              <Button
+                title="Keep My Account"
+                onPress={handleCancelDeletion}
+                loading={isCancellingDeletion}
+                disabled={isBusy}
+              />
+            </>
+          ) : (
+            <>
+              <Text className="text-gray-500 mb-4">
+                Permanently delete your account and everything you have posted. You have 30 days
+                to change your mind.
+              </Text>
+              <Button
+                title="Delete Account"
+                onPress={handleDelete}
+                variant="secondary"
+                loading={isRequestingDeletion}
+                disabled={isBusy}
+              />
+            </>
+          )}
+        </Animated.View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
@@ -0,0 +1,261 @@
+/**
+ * EditProfileScreen Component
+ *
+ * Lets the signed in user change their profile picture, username and bio
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
+import * as ImagePicker from 'expo-image-picker';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import * as Haptics from 'expo-haptics';
+import { useAuthStore } from '../../store/authStore';
+import { useUpdateProfile, useUsernameAvailability } from '../../hooks/useProfile';
+import { Button, Input } from '../../components/common';
+import { BIO_MAX_LENGTH, validateUsername } from '../../utils/validation';
+import { USERNAME_TAKEN_MESSAGE } from '../../services/api/user.service';
+import { showErrorToast, showSuccessToast } from '../../utils/toast';
+import type { MainStackParamList } from '../../navigation/AppNavigator';
+
+type EditProfileScreenProps = NativeStackScreenProps<MainStackParamList, 'EditProfile'>;
+
+// Avatars are stored as square JPEGs of this size
+const AVATAR_SIZE = 512;
+
+/**
+ * Center-crop a picked image to a square and shrink it for upload
+ *
+ * @param asset - Image picked from the library or camera
+ * @returns Local URI of the processed JPEG
+ */
+const prepareAvatar = async (asset: ImagePicker.ImagePickerAsset): Promise<string> => {
+  const side = Math.min(asset.width, asset.height);
+
+  const image = await ImageManipulator.manipulate(asset.uri)
+    .crop({
+      originX: (asset.width - side) / 2,
+      originY: (asset.height - side) / 2,
+      width: side,
+      height: side,
+    })
+    .resize({ width: Math.min(side, AVATAR_SIZE) })
+    .renderAsync();
+
+  const result = await image.saveAsync({ compress: 0.8, format: SaveFormat.JPEG });
+  return result.uri;
+};
+
+export const EditProfileScreen: React.FC<EditProfileScreenProps> = ({ navigation }) => {
+  const user = useAuthStore((state) => state.user);
+
+  const [username, setUsername] = useState(user?.username ?? '');
+  const [bio, setBio] = useState(user?.bio ?? '');
+  const [avatarUri, setAvatarUri] = useState<string | null>(null);
+  const [errors, setErrors] = useState<{ username?: string; bio?: string }>({});
+
+  const { isAvailable, isChecking } = useUsernameAvailability(username);
+  const { mutate: saveProfile, isPending: isSaving } = useUpdateProfile();
+
+  const displayedAvatar = avatarUri ?? user?.avatar_url;
+  const usernameError =
+    errors.username ?? (isAvailable === false ? USERNAME_TAKEN_MESSAGE : undefined);
+
+  /**
+   * Pick a new profile picture from the library or take one with the camera
+   */
+  const pickAvatar = async (source: 'library' | 'camera') => {
+    const permission = source === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+
+    if (!permission.granted) {
+      showErrorToast(
+        source === 'camera'
+          ? 'Camera access is needed to take a photo.'
+          : 'Library access is needed to choose a photo.'
+      );
+      return;
+    }
+
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 1,
+    };
+
+    const result = source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+
+    if (!result.canceled && result.assets.length > 0) {
+      try {
+        setAvatarUri(await prepareAvatar(result.assets[0]));
+        await Haptics.selectionAsync();
+      } catch (error) {
+        console.error('Error preparing avatar:', error);
+        showErrorToast('Could not process that photo. Please try another one.');
+      }
+    }
+  };
+
+  /**
+   * Validate form fields
+   */
+  const validateForm = (): boolean => {
+    const newErrors: { username?: string; bio?: string } = {};
+
+    const usernameValidation = validateUsername(username);
+    if (usernameValidation) {
+      newErrors.username = usernameValidation;
+    }
+
+    if (bio.trim().length > BIO_MAX_LENGTH) {
+      newErrors.bio = `Bio must be at most ${BIO_MAX_LENGTH} characters`;
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0 && isAvailable !== false;
+  };
+
+  /**
+   * Save the profile and return to it
+   */
+  const handleSave = async () => {
+    if (!validateForm()) {
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
+    saveProfile(
+      {
+        username: username.trim(),
+        bio: bio.trim() || null,
+        avatar: avatarUri ? { uri: avatarUri, mimeType: 'image/jpeg' } : undefined,
+      },
+      {
+        onSuccess: async () => {
+          await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          showSuccessToast('Profile updated');
+          navigation.goBack();
+        },
+      }
+    );
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50" edges={['top']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        className="flex-1"
+      >
+        <ScrollView
+          contentContainerClassName="px-4 py-5"
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Header */}
+          <Animated.View entering={FadeInDown.springify()} className="mb-6">
+            <TouchableOpacity onPress={() => navigation.goBack()} className="mb-4">
+              <Text className="text-blue-600 text-base font-semibold">← Back</Text>
+            </TouchableOpacity>
+            <Text className="text-3xl font-bold text-gray-900">Edit Profile</Text>
+          </Animated.View>
+
+          {/* Avatar */}
+          <Animated.View entering={FadeInUp.delay(100).springify()} className="items-center mb-6">
+            {displayedAvatar ? (
+              <Image
+                source={{ uri: displayedAvatar }}
+                className="w-28 h-28 rounded-full bg-gray-200 mb-4"
+                resizeMode="cover"
+              />
+            ) : (
+              <View className="w-28 h-28 rounded-full bg-blue-100 items-center justify-center mb-4">
+                <Text className="text-blue-600 text-5xl font-bold">
+                  {(username || '?').charAt(0).toUpperCase()}
+                </Text>
+              </View>
+            )}
+            <View className="flex-row">
+              <Button
+                title="Choose Photo"
+                onPress={() => pickAvatar('library')}
+                variant="outline"
+                disabled={isSaving}
+                className="flex-1 mr-2"
+              />
+              <Button
+                title="Take Photo"
+                onPress={() => pickAvatar('camera')}
+                variant="outline"
+                disabled={isSaving}
+                className="flex-1 ml-2"
+              />
+            </View>
+          </Animated.View>
+
+          {/* Username */}
+          <Animated.View entering={FadeInUp.delay(200).springify()} className="mb-4">
+            <Input
+              label="Username"
+              value={username}
+              onChangeText={(text) => {
+                setUsername(text);
+                setErrors((current) => ({ ...current, username: undefined }));
+              }}
+              placeholder="Choose a username"
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!isSaving}
+              error={usernameError}
+            />
+            {!usernameError && isChecking && (
+              <Text className="text-gray-500 text-sm mt-1">Checking availability…</Text>
+            )}
+            {!usernameError && !isChecking && isAvailable && (
+              <Text className="text-green-600 text-sm mt-1">✓ Username is available</Text>
+            )}
+          </Animated.View>
+
+          {/* Bio */}
+          <Animated.View entering={FadeInUp.delay(300).springify()} className="mb-6">
+            <Input
+              label="Bio"
+              value={bio}
+              onChangeText={(text) => {
+                setBio(text);
+                setErrors((current) => ({ ...current, bio: undefined }));
+              }}
+              placeholder="Tell people about your dancing"
+              multiline
+              maxLength={BIO_MAX_LENGTH}
+              editable={!isSaving}
+              error={errors.bio}
+            />
+            <Text className="text-gray-400 text-xs text-right mt-1">
+              {bio.length}/{BIO_MAX_LENGTH}
+            </Text>
+          </Animated.View>
+
+          <Button
+            title="Save"
+            onPress={handleSave}
+            loading={isSaving}
+            disabled={isChecking || isAvailable === false}
+          />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
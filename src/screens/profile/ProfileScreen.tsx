@@ -0,0 +1,366 @@
+/**
+ * ProfileScreen Component
+ *
+ * Shows a user's avatar, bio, overall rank, competition history and a grid
+ * of their videos. Used both for the signed in user's Profile tab and for
+ * viewing other users.
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  FlatList,
+  RefreshControl,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
+import { NativeStackNavigationProp, NativeStackScreenProps } from '@react-navigation/native-stack';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { useUserProfile } from '../../hooks/useProfile';
+import { useUserRank } from '../../hooks/useLeaderboard';
+import { useUserPlacements } from '../../hooks/useCompetitions';
+import { useInfiniteVideos } from '../../hooks/useVideos';
+import { useIsFollowing, useToggleFollow } from '../../hooks/useSocial';
+import { useAuth } from '../../hooks/useAuth';
+import { useAuthStore } from '../../store/authStore';
+import { VideoGridItem } from '../../components/profile/VideoGridItem';
+import { PlacementItem } from '../../components/profile/PlacementItem';
+import { Button } from '../../components/common/Button';
+import { LoadingSpinner } from '../../components/common/LoadingSpinner';
+import { ErrorMessage } from '../../components/common/ErrorMessage';
+import type { Video, VideoPaginationParams } from '../../types/video.types';
+import type { CompetitionPlacement } from '../../types/competition.types';
+import type { MainStackParamList, MainTabParamList } from '../../navigation/AppNavigator';
+
+type ProfileScreenProps =
+  | BottomTabScreenProps<MainTabParamList, 'Profile'>
+  | NativeStackScreenProps<MainStackParamList, 'UserProfile'>;
+
+const GRID_COLUMNS = 3;
+
+type VideoSort = 'newest' | 'mostViewed' | 'shortest' | 'longest';
+
+const VIDEO_SORTS: {
+  sort: VideoSort;
+  label: string;
+  params: Pick<VideoPaginationParams, 'orderBy' | 'orderDirection'>;
+}[] = [
+  { sort: 'newest', label: 'Newest', params: { orderBy: 'created_at', orderDirection: 'desc' } },
+  { sort: 'mostViewed', label: 'Most Viewed', params: { orderBy: 'views', orderDirection: 'desc' } },
+  { sort: 'shortest', label: 'Shortest', params: { orderBy: 'duration_ms', orderDirection: 'asc' } },
+  { sort: 'longest', label: 'Longest', params: { orderBy: 'duration_ms', orderDirection: 'desc' } },
+];
+
+export const ProfileScreen: React.FC<ProfileScreenProps> = ({ route }) => {
+  const navigation = useNavigation<NativeStackNavigationProp<MainStackParamList>>();
+  const currentUserId = useAuthStore((state) => state.user?.id);
+  const { logout, isLoggingOut } = useAuth();
+
+  const userId = route.params?.userId ?? currentUserId;
+  const isOwnProfile = userId === currentUserId;
+  const canGoBack = route.name === 'UserProfile';
+  const [videoSort, setVideoSort] = useState<VideoSort>('newest');
+  const sortParams = VIDEO_SORTS.find(({ sort }) => sort === videoSort)!.params;
+
+  const {
+    data: profile,
+    isLoading: isLoadingProfile,
+    error: profileError,
+    refetch: refetchProfile,
+  } = useUserProfile(userId);
+  const { data: userRank, refetch: refetchRank } = useUserRank(userId);
+  const { data: placements, refetch: refetchPlacements } = useUserPlacements(userId);
+  const {
+    data: videosData,
+    isLoading: isLoadingVideos,
+    isRefetching,
+    refetch: refetchVideos,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfiniteVideos({ userId, limit: 18, ...sortParams });
+  const { data: isFollowing = false } = useIsFollowing(userId, !isOwnProfile);
+  const toggleFollowMutation = useToggleFollow();
+
+  const videos = videosData?.pages.flatMap((page) => page.data) ?? [];
+
+  /**
+   * Refresh every section of the profile
+   */
+  const handleRefresh = () => {
+    refetchProfile();
+    refetchRank();
+    refetchPlacements();
+    refetchVideos();
+  };
+
+  /**
+   * Load the next page of videos when nearing the end of the grid
+   */
+  const handleEndReached = () => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  };
+
+  /**
+   * Open the competition a placement belongs to
+   */
+  const handlePlacementPress = (placement: CompetitionPlacement) => {
+    navigation.navigate('Tabs', {
+      screen: 'Competitions',
+      params: {
+        screen: 'CompetitionDetail',
+        params: { competitionId: placement.competition_id as string },
+      },
+    });
+  };
+
+  /**
+   * Render a video in the grid
+   */
+  const renderItem = ({ item }: { item: Video }) => (
+    <VideoGridItem video={item} columns={GRID_COLUMNS} />
+  );
+
+  /**
+   * Render profile details, rank and competition history above the grid
+   */
+  const renderHeader = () => {
+    if (!profile) return null;
+
+    return (
+      <View className="px-4 pt-4">
+        {canGoBack && (
+          <TouchableOpacity onPress={() => navigation.goBack()} className="mb-4">
+            <Text className="text-blue-600 text-base font-semibold">← Back</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Scheduled Deletion */}
+        {isOwnProfile && profile.deletion_scheduled_for && (
+          <TouchableOpacity
+            onPress={() => navigation.navigate('AccountSettings')}
+            className="bg-red-50 border border-red-200 rounded-xl p-4 mb-4"
+          >
+            <Text className="text-red-700 font-semibold">
+              Your account will be deleted on{' '}
+              {new Date(profile.deletion_scheduled_for).toLocaleDateString()}
+            </Text>
+            <Text className="text-red-600 text-sm mt-1">Tap to keep your account</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Avatar, Username and Bio */}
+        <Animated.View entering={FadeInDown.springify()} className="items-center mb-6">
+          {profile.avatar_url ? (
+            <Image
+              source={{ uri: profile.avatar_url }}
+              className="w-24 h-24 rounded-full bg-gray-200 mb-3"
+              resizeMode="cover"
+            />
+          ) : (
+            <View className="w-24 h-24 rounded-full bg-blue-100 items-center justify-center mb-3">
+              <Text className="text-blue-600 text-4xl font-bold">
+                {profile.username.charAt(0).toUpperCase()}
+              </Text>
+            </View>
+          )}
+          <Text className="text-2xl font-bold text-gray-900">@{profile.username}</Text>
+          <View className="flex-row mt-2">
+            <Text className="text-gray-600 text-sm mr-4">
+              <Text className="text-gray-900 font-bold">
+                {profile.followers_count.toLocaleString()}
+              </Text>{' '}
+              {profile.followers_count === 1 ? 'follower' : 'followers'}
+            </Text>
+            <Text className="text-gray-600 text-sm">
+              <Text className="text-gray-900 font-bold">
+                {profile.following_count.toLocaleString()}
+              </Text>{' '}
+              following
+            </Text>
+          </View>
+          {profile.bio ? (
+            <Text className="text-gray-600 text-base text-center mt-2 px-6">{profile.bio}</Text>
+          ) : null}
+          {isOwnProfile ? (
+            <Button
+              title="Edit Profile"
+              variant="outline"
+              onPress={() => navigation.navigate('EditProfile')}
+              className="mt-4 px-8"
+            />
+          ) : (
+            <Button
+              title={isFollowing ? 'Following' : 'Follow'}
+              variant={isFollowing ? 'outline' : 'primary'}
+              onPress={() => toggleFollowMutation.mutate({ userId: profile.id, isFollowing })}
+              disabled={toggleFollowMutation.isPending}
+              className="mt-4 px-8"
+            />
+          )}
+        </Animated.View>
+
+        {/* Overall Rank */}
+        <Animated.View
+          entering={FadeInDown.delay(100).springify()}
+          className="flex-row bg-white rounded-xl border border-gray-200 p-4 mb-6"
+        >
+          <View className="flex-1 items-center">
+            <Text className="text-2xl font-bold text-gray-900">
+              {userRank ? `#${userRank.rank}` : '–'}
+            </Text>
+            <Text className="text-gray-500 text-xs">Overall Rank</Text>
+          </View>
+          <View className="flex-1 items-center border-l border-gray-100">
+            <Text className="text-2xl font-bold text-gray-900">
+              {userRank ? userRank.score.toLocaleString() : '–'}
+            </Text>
+            <Text className="text-gray-500 text-xs">Best Score</Text>
+          </View>
+          <View className="flex-1 items-center border-l border-gray-100">
+            <Text className="text-2xl font-bold text-gray-900">{placements?.length ?? 0}</Text>
+            <Text className="text-gray-500 text-xs">Competitions</Text>
+          </View>
+        </Animated.View>
+
+        {/* Competition History */}
+        {placements && placements.length > 0 && (
+          <Animated.View entering={FadeInDown.delay(200).springify()} className="mb-6">
+            <Text className="text-lg font-bold text-gray-900 mb-3">Competition History</Text>
+            {placements.map((placement) => (
+              <PlacementItem
+                key={placement.id}
+                placement={placement}
+                onPress={handlePlacementPress}
+              />
+            ))}
+          </Animated.View>
+        )}
+
+        <Text className="text-lg font-bold text-gray-900 mb-2">Videos</Text>
+
+        {/* Video Sort */}
+        <View className="flex-row flex-wrap mb-3">
+          {VIDEO_SORTS.map(({ sort, label }) => {
+            const isSelected = sort === videoSort;
+            return (
+              <TouchableOpacity
+                key={sort}
+                onPress={() => setVideoSort(sort)}
+                className={`px-3 py-1 rounded-full mr-2 mb-1 ${isSelected ? 'bg-blue-600' : 'bg-white'}`}
+              >
+                <Text className={`text-sm ${isSelected ? 'text-white font-semibold' : 'text-gray-700'}`}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+    );
+  };
+
+  /**
+   * Render empty state when the user has no videos
+   */
+  const renderEmpty = () => {
+    if (isLoadingVideos) {
+      return <ActivityIndicator size="small" color="#2563eb" className="py-8" />;
+    }
+
+    return (
+      <View className="items-center justify-center py-12">
+        <Text className="text-5xl mb-3">🎬</Text>
+        <Text className="text-gray-500 text-center px-8">
+          {isOwnProfile ? 'Upload your first dance video!' : 'No videos yet'}
+        </Text>
+      </View>
+    );
+  };
+
+  /**
+   * Render sign out for the signed in user's own profile
+   */
+  const renderFooter = () => (
+    <View className="px-4 pt-4">
+      {isFetchingNextPage && <ActivityIndicator size="small" color="#2563eb" className="py-4" />}
+      {isOwnProfile && (
+        <>
+          <Button
+            title="Account Settings"
+            variant="outline"
+            onPress={() => navigation.navigate('AccountSettings')}
+            className="mb-3"
+          />
+          <Button
+            title="Sign Out"
+            variant="outline"
+            onPress={() => logout()}
+            loading={isLoggingOut}
+          />
+        </>
+      )}
+    </View>
+  );
+
+  /**
+   * Show loading spinner on initial load
+   */
+  if (isLoadingProfile && !profile) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <LoadingSpinner />
+      </SafeAreaView>
+    );
+  }
+
+  /**
+   * Show error message if fetch failed
+   */
+  if (profileError && !profile) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50">
+        <View className="flex-1 px-4 justify-center">
+          <ErrorMessage
+            message={profileError.message || 'Failed to load profile'}
+            onRetry={() => refetchProfile()}
+          />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50" edges={['top']}>
+      <FlatList
+        data={videos}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.id}
+        numColumns={GRID_COLUMNS}
+        columnWrapperStyle={{ gap: 2 }}
+        ListHeaderComponent={renderHeader}
+        ListEmptyComponent={renderEmpty}
+        ListFooterComponent={renderFooter}
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={0.5}
+        contentContainerStyle={{ paddingBottom: 32 }}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefetching}
+            onRefresh={handleRefresh}
+            tintColor="#2563eb"
+            colors={['#2563eb']}
+          />
+        }
+        showsVerticalScrollIndicator={false}
+      />
+    </SafeAreaView>
+  );
+};
@@ -0,0 +1,3 @@
+export { ProfileScreen } from './ProfileScreen';
+export { EditProfileScreen } from './EditProfileScreen';
+export { AccountSettingsScreen } from './AccountSettingsScreen';
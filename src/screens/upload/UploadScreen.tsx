@@ -0,0 +1,338 @@
+/**
+ * UploadScreen Component
+ *
+ * Lets dancers pick or record a clip, choose a frame as its thumbnail,
+ * add a title and description, and upload it to the feed (optionally
+ * entering an open competition)
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, KeyboardAvoidingView, Platform, ScrollView, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
+import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+import * as ImagePicker from 'expo-image-picker';
+import { Button, Input, ErrorMessage } from '../../components/common';
+import { ThumbnailPicker } from '../../components/upload';
+import { useVideoUpload } from '../../hooks/useVideoUpload';
+import { useVideoFrames } from '../../hooks/useVideoFrames';
+import { useCompetitions } from '../../hooks/useCompetitions';
+import {
+  CLIP_TOO_LONG_MESSAGE,
+  DURATION_UNKNOWN_MESSAGE,
+  exceedsMaxDuration,
+  isSubmissionWindowOpen,
+  requiresKnownDuration,
+} from '../../services/api/competition.service';
+import { formatDuration, getAssetMetadata } from '../../utils/videoMetadata';
+import { showErrorToast, showSuccessToast } from '../../utils/toast';
+import type { MainTabParamList } from '../../navigation/AppNavigator';
+
+type UploadScreenProps = BottomTabScreenProps<MainTabParamList, 'Upload'>;
+
+// Maximum length of a recorded clip in seconds
+const MAX_RECORDING_DURATION = 180;
+
+export const UploadScreen: React.FC<UploadScreenProps> = ({ navigation }) => {
+  const [asset, setAsset] = useState<ImagePicker.ImagePickerAsset | null>(null);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [competitionId, setCompetitionId] = useState<string | undefined>();
+  const [thumbnailUri, setThumbnailUri] = useState<string | undefined>();
+  const [errors, setErrors] = useState<{ video?: string; title?: string; competition?: string }>({});
+
+  const { upload, isUploading, uploadError, progress } = useVideoUpload();
+  const { frames, isExtracting } = useVideoFrames(asset?.uri ?? null, asset?.duration);
+  const { data: competitions } = useCompetitions({ status: 'open' });
+  const openCompetitions = (competitions || []).filter((competition) =>
+    isSubmissionWindowOpen(competition)
+  );
+  const selectedCompetition = openCompetitions.find(
+    (competition) => competition.id === competitionId
+  );
+
+  // Default to the first frame of the current video until the dancer picks another
+  useEffect(() => {
+    if (frames.length > 0 && !frames.some((frame) => frame.uri === thumbnailUri)) {
+      setThumbnailUri(frames[0].uri);
+    }
+  }, [frames, thumbnailUri]);
+
+  /**
+   * Pick a video from the library or record one with the camera
+   */
+  const pickVideo = async (source: 'library' | 'camera') => {
+    const permission = source === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+
+    if (!permission.granted) {
+      showErrorToast(
+        source === 'camera'
+          ? 'Camera access is needed to record a video.'
+          : 'Library access is needed to choose a video.'
+      );
+      return;
+    }
+
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ['videos'],
+      allowsEditing: true,
+      quality: 1,
+      videoMaxDuration: MAX_RECORDING_DURATION,
+    };
+
+    const result = source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+
+    if (!result.canceled && result.assets.length > 0) {
+      await Haptics.selectionAsync();
+      setAsset(result.assets[0]);
+      setThumbnailUri(undefined);
+      setErrors((current) => ({ ...current, video: undefined }));
+    }
+  };
+
+  /**
+   * Validate form fields
+   */
+  const validateForm = (): boolean => {
+    const newErrors: { video?: string; title?: string; competition?: string } = {};
+
+    if (!asset) {
+      newErrors.video = 'Please choose or record a video';
+    }
+
+    if (asset && selectedCompetition && requiresKnownDuration(selectedCompetition, asset.duration)) {
+      newErrors.competition = DURATION_UNKNOWN_MESSAGE;
+    } else if (
+      asset &&
+      selectedCompetition &&
+      exceedsMaxDuration(selectedCompetition, asset.duration)
+    ) {
+      newErrors.competition = `${CLIP_TOO_LONG_MESSAGE} (max ${formatDuration(
+        (selectedCompetition.max_duration_seconds ?? 0) * 1000
+      )})`;
+    }
+
+    if (!title.trim()) {
+      newErrors.title = 'Title is required';
+    } else if (title.trim().length > 100) {
+      newErrors.title = 'Title must be 100 characters or less';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  /**
+   * Clear the form after a successful upload
+   */
+  const resetForm = () => {
+    setAsset(null);
+    setThumbnailUri(undefined);
+    setTitle('');
+    setDescription('');
+    setCompetitionId(undefined);
+    setErrors({});
+  };
+
+  /**
+   * Handle upload submission
+   */
+  const handleUpload = async () => {
+    if (!validateForm() || !asset) {
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
+    upload(
+      {
+        fileUri: asset.uri,
+        mimeType: asset.mimeType,
+        title: title.trim(),
+        description: description.trim() || undefined,
+        competitionId,
+        metadata: getAssetMetadata(asset),
+        thumbnailUri,
+      },
+      {
+        onSuccess: async () => {
+          await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          resetForm();
+          showSuccessToast('Your video has been uploaded!');
+          navigation.navigate('VideoFeed');
+        },
+      }
+    );
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-gray-50" edges={['top']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        className="flex-1"
+      >
+        <ScrollView
+          contentContainerClassName="px-4 py-5"
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Header */}
+          <Animated.View entering={FadeInDown.springify()} className="mb-6">
+            <Text className="text-3xl font-bold text-gray-900 mb-2">
+              Upload
+            </Text>
+            <Text className="text-gray-600 text-base">
+              Share your latest performance 🕺
+            </Text>
+          </Animated.View>
+
+          {/* Error Message */}
+          {uploadError && !isUploading && (
+            <View className="mb-4">
+              <ErrorMessage
+                message={uploadError.message || 'Upload failed. Please try again.'}
+                onRetry={handleUpload}
+              />
+            </View>
+          )}
+
+          {/* Video Selection */}
+          <Animated.View entering={FadeInUp.delay(100).springify()} className="mb-6">
+            <View className="flex-row">
+              <Button
+                title="Choose Video"
+                onPress={() => pickVideo('library')}
+                variant="outline"
+                disabled={isUploading}
+                className="flex-1 mr-2"
+              />
+              <Button
+                title="Record"
+                onPress={() => pickVideo('camera')}
+                variant="outline"
+                disabled={isUploading}
+                className="flex-1 ml-2"
+              />
+            </View>
+
+            {asset && (
+              <View className="mt-3 p-3 rounded-lg bg-white border-2 border-gray-200">
+                <Text className="text-gray-900 font-semibold" numberOfLines={1}>
+                  🎬 {asset.fileName || 'Selected video'}
+                </Text>
+                {asset.duration ? (
+                  <Text className="text-gray-500 text-sm">
+                    {formatDuration(asset.duration)}
+                    {asset.width && asset.height ? ` · ${asset.width}×${asset.height}` : ''}
+                  </Text>
+                ) : null}
+              </View>
+            )}
+
+            {asset && (
+              <ThumbnailPicker
+                frames={frames}
+                isExtracting={isExtracting}
+                selectedUri={thumbnailUri}
+                onSelect={(frame) => setThumbnailUri(frame.uri)}
+                disabled={isUploading}
+              />
+            )}
+
+            {errors.video && (
+              <Text className="text-red-500 text-sm mt-2">{errors.video}</Text>
+            )}
+          </Animated.View>
+
+          {/* Details Form */}
+          <Animated.View entering={FadeInUp.delay(200).springify()}>
+            <Input
+              label="Title"
+              value={title}
+              onChangeText={setTitle}
+              placeholder="Name your performance"
+              maxLength={100}
+              editable={!isUploading}
+              error={errors.title}
+              className="mb-4"
+            />
+
+            <Input
+              label="Description"
+              value={description}
+              onChangeText={setDescription}
+              placeholder="Tell us about it (optional)"
+              multiline
+              numberOfLines={3}
+              editable={!isUploading}
+              className="mb-4"
+            />
+
+            {/* Competition Selection */}
+            {openCompetitions.length > 0 && (
+              <View className="mb-6">
+                <Text className="text-gray-700 font-medium mb-2 text-sm">
+                  Enter a competition (optional)
+                </Text>
+                <View className="flex-row flex-wrap">
+                  {openCompetitions.map((competition) => {
+                    const isSelected = competition.id === competitionId;
+                    return (
+                      <TouchableOpacity
+                        key={competition.id}
+                        onPress={() => {
+                          setCompetitionId(isSelected ? undefined : competition.id);
+                          setErrors((current) => ({ ...current, competition: undefined }));
+                        }}
+                        disabled={isUploading}
+                        className={`px-3 py-2 rounded-full mr-2 mb-2 border-2 ${
+                          isSelected ? 'bg-blue-600 border-blue-600' : 'bg-white border-gray-300'
+                        }`}
+                      >
+                        <Text className={isSelected ? 'text-white font-semibold' : 'text-gray-700'}>
+                          {competition.title}
+                          {competition.max_duration_seconds
+                            ? ` · max ${formatDuration(competition.max_duration_seconds * 1000)}`
+                            : ''}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                {errors.competition && (
+                  <Text className="text-red-500 text-sm mt-1">{errors.competition}</Text>
+                )}
+              </View>
+            )}
+
+            {/* Upload Progress */}
+            {isUploading && progress && (
+              <View className="mb-4">
+                <View className="h-2 rounded-full bg-gray-200 overflow-hidden">
+                  <View
+                    className="h-2 bg-blue-600"
+                    style={{ width: `${progress.percentage}%` }}
+                  />
+                </View>
+                <Text className="text-gray-600 text-sm mt-2 text-center">
+                  Uploading... {progress.percentage}%
+                </Text>
+              </View>
+            )}
+
+            <Button
+              title="Upload Video"
+              onPress={handleUpload}
+              loading={isUploading}
+              disabled={isUploading}
+              variant="primary"
+            />
+          </Animated.View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
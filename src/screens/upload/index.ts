@@ -0,0 +1 @@
+export { UploadScreen } from './UploadScreen';
@@ -0,0 +1,46 @@
+import { parseAuthParams } from '../auth.service';
+
+describe('parseAuthParams', () => {
+  it('reads tokens from the fragment of an implicit flow link', () => {
+    const url =
+      'dancecompetition://auth/callback#access_token=abc&refresh_token=def&type=recovery';
+
+    expect(parseAuthParams(url)).toEqual({
+      access_token: 'abc',
+      refresh_token: 'def',
+      type: 'recovery',
+    });
+  });
+
+  it('reads a PKCE code from the query string', () => {
+    expect(parseAuthParams('dancecompetition://auth/callback?code=xyz')).toEqual({ code: 'xyz' });
+  });
+
+  it('merges the query string and the fragment', () => {
+    expect(parseAuthParams('dancecompetition://auth/callback?type=signup#access_token=abc')).toEqual({
+      type: 'signup',
+      access_token: 'abc',
+    });
+  });
+
+  it('decodes encoded values and plus signs', () => {
+    const url =
+      'dancecompetition://auth/callback#error=access_denied&error_description=Email+link+is+invalid%2C+or+has+expired';
+
+    expect(parseAuthParams(url)).toEqual({
+      error: 'access_denied',
+      error_description: 'Email link is invalid, or has expired',
+    });
+  });
+
+  it('returns nothing for a link without parameters', () => {
+    expect(parseAuthParams('dancecompetition://auth/callback')).toEqual({});
+  });
+
+  it('keeps keys without a value', () => {
+    expect(parseAuthParams('dancecompetition://auth/callback?code=xyz&&flag')).toEqual({
+      code: 'xyz',
+      flag: '',
+    });
+  });
+});
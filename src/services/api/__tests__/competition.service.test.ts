@@ -0,0 +1,73 @@
+import {
+  exceedsMaxDuration,
+  isSubmissionWindowOpen,
+  requiresKnownDuration,
+} from '../competition.service';
+
+describe('exceedsMaxDuration', () => {
+  const competition = { max_duration_seconds: 60 };
+
+  it('flags clips longer than the limit', () => {
+    expect(exceedsMaxDuration(competition, 60_001)).toBe(true);
+  });
+
+  it('accepts clips up to the limit', () => {
+    expect(exceedsMaxDuration(competition, 60_000)).toBe(false);
+    expect(exceedsMaxDuration(competition, 15_000)).toBe(false);
+  });
+
+  it('accepts any length when the competition has no limit', () => {
+    expect(exceedsMaxDuration({ max_duration_seconds: null }, 600_000)).toBe(false);
+  });
+
+  it('does not flag clips of unknown length', () => {
+    expect(exceedsMaxDuration(competition, null)).toBe(false);
+    expect(exceedsMaxDuration(competition, undefined)).toBe(false);
+  });
+});
+
+describe('requiresKnownDuration', () => {
+  it('requires a length when the competition has a limit', () => {
+    expect(requiresKnownDuration({ max_duration_seconds: 60 }, null)).toBe(true);
+    expect(requiresKnownDuration({ max_duration_seconds: 60 }, undefined)).toBe(true);
+    expect(requiresKnownDuration({ max_duration_seconds: 60 }, 0)).toBe(true);
+  });
+
+  it('is satisfied by a known length', () => {
+    expect(requiresKnownDuration({ max_duration_seconds: 60 }, 30_000)).toBe(false);
+  });
+
+  it('does not need a length without a limit', () => {
+    expect(requiresKnownDuration({ max_duration_seconds: null }, null)).toBe(false);
+  });
+});
+
+describe('isSubmissionWindowOpen', () => {
+  const competition = {
+    status: 'open' as const,
+    opens_at: '2026-03-01T00:00:00.000Z',
+    closes_at: '2026-03-31T23:59:59.000Z',
+  };
+
+  it('is open between the opening and closing times', () => {
+    expect(isSubmissionWindowOpen(competition, new Date('2026-03-15T12:00:00.000Z'))).toBe(true);
+  });
+
+  it('includes the exact opening and closing times', () => {
+    expect(isSubmissionWindowOpen(competition, new Date(competition.opens_at))).toBe(true);
+    expect(isSubmissionWindowOpen(competition, new Date(competition.closes_at))).toBe(true);
+  });
+
+  it('is closed before opening and after closing', () => {
+    expect(isSubmissionWindowOpen(competition, new Date('2026-02-28T23:59:59.000Z'))).toBe(false);
+    expect(isSubmissionWindowOpen(competition, new Date('2026-04-01T00:00:00.000Z'))).toBe(false);
+  });
+
+  it('is closed unless the competition is open', () => {
+    const during = new Date('2026-03-15T12:00:00.000Z');
+
+    expect(isSubmissionWindowOpen({ ...competition, status: 'draft' }, during)).toBe(false);
+    expect(isSubmissionWindowOpen({ ...competition, status: 'judging' }, during)).toBe(false);
+    expect(isSubmissionWindowOpen({ ...competition, status: 'closed' }, during)).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+import { supabase } from '../../../config/supabase.config';
+import { fetchVideos } from '../video.service';
+
+jest.mock('../../../config/supabase.config', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+    auth: { getSession: jest.fn() },
+  },
+}));
+
+type QueryMethod = 'select' | 'eq' | 'in' | 'not' | 'or' | 'order' | 'limit';
+
+type MockQuery = Record<QueryMethod, jest.Mock<MockQuery>> & PromiseLike<unknown>;
+
+/**
+ * Chainable stand-in for a Supabase query that resolves to `rows`
+ */
+const mockQuery = (
+  rows: Record<string, unknown>[],
+  source: jest.Mock = jest.mocked(supabase.from)
+): MockQuery => {
+  const query: MockQuery = {
+    select: jest.fn(() => query),
+    eq: jest.fn(() => query),
+    in: jest.fn(() => query),
+    not: jest.fn(() => query),
+    or: jest.fn(() => query),
+    order: jest.fn(() => query),
+    limit: jest.fn(() => query),
+    then: (resolve, reject) => Promise.resolve({ data: rows, error: null }).then(resolve, reject),
+  };
+
+  source.mockReturnValueOnce(query as never);
+  return query;
+};
+
+const video = (id: string, createdAt: string, views = 0) => ({
+  id,
+  title: `Video ${id}`,
+  created_at: createdAt,
+  views,
+  user: null,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  jest.mocked(supabase.auth.getSession).mockResolvedValue({
+    data: { session: null },
+    error: null,
+  } as never);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('fetchVideos', () => {
+  it('fetches one extra row to know whether another page exists', async () => {
+    const query = mockQuery([
+      video('c', '2026-05-03T00:00:00.000Z'),
+      video('b', '2026-05-02T00:00:00.000Z'),
+      video('a', '2026-05-01T00:00:00.000Z'),
+    ]);
+
+    const page = await fetchVideos({ limit: 2 });
+
+    expect(query.limit).toHaveBeenCalledWith(3);
+    expect(query.or).not.toHaveBeenCalled();
+    expect(page.data.map((item) => item.id)).toEqual(['c', 'b']);
+    expect(page.meta.hasMore).toBe(true);
+  });
+
+  it('returns no cursor on the last page', async () => {
+    mockQuery([video('a', '2026-05-01T00:00:00.000Z')]);
+
+    const page = await fetchVideos({ limit: 2 });
+
+    expect(page.meta).toEqual({ pageSize: 2, hasMore: false, nextCursor: null });
+  });
+
+  it('continues strictly after the last video of the previous page', async () => {
+    mockQuery([
+      video('c', '2026-05-03T00:00:00.000Z'),
+      video('b', '2026-05-02T00:00:00.000Z'),
+      video('a', '2026-05-01T00:00:00.000Z'),
+    ]);
+    const { meta } = await fetchVideos({ limit: 2 });
+
+    const query = mockQuery([]);
+    await fetchVideos({ limit: 2, cursor: meta.nextCursor ?? undefined });
+
+    expect(query.or).toHaveBeenCalledWith(
+      'created_at.lt."2026-05-02T00:00:00.000Z",' +
+        'and(created_at.eq."2026-05-02T00:00:00.000Z",id.lt.b)'
+    );
+    expect(query.order).toHaveBeenCalledWith('created_at', { ascending: false });
+    expect(query.order).toHaveBeenCalledWith('id', { ascending: false });
+  });
+
+  it('pages forwards when sorting in ascending order', async () => {
+    mockQuery([video('a', '2026-05-01T00:00:00.000Z', 5), video('b', '2026-05-02T00:00:00.000Z', 9)]);
+    const { meta } = await fetchVideos({ limit: 1, orderBy: 'views', orderDirection: 'asc' });
+
+    const query = mockQuery([]);
+    await fetchVideos({
+      limit: 1,
+      orderBy: 'views',
+      orderDirection: 'asc',
+      cursor: meta.nextCursor ?? undefined,
+    });
+
+    expect(query.or).toHaveBeenCalledWith('views.gt."5",and(views.eq."5",id.gt.a)');
+  });
+
+  it('leaves out videos of unknown length when sorting by duration', async () => {
+    const query = mockQuery([]);
+
+    await fetchVideos({ orderBy: 'duration_ms' });
+
+    expect(query.not).toHaveBeenCalledWith('duration_ms', 'is', null);
+  });
+
+  it('leaves filtering the Following feed to the database', async () => {
+    const query = mockQuery([video('a', '2026-05-01T00:00:00.000Z')], jest.mocked(supabase.rpc));
+
+    const page = await fetchVideos({ feed: 'following' });
+
+    expect(supabase.rpc).toHaveBeenCalledWith('followed_videos');
+    expect(supabase.from).not.toHaveBeenCalledWith('videos');
+    expect(query.in).not.toHaveBeenCalled();
+    expect(page.data.map((item) => item.id)).toEqual(['a']);
+  });
+
+  it('rejects a cursor it did not create', async () => {
+    mockQuery([]);
+
+    await expect(fetchVideos({ cursor: 'not-a-cursor' })).rejects.toThrow(
+      'Invalid pagination cursor'
+    );
+  });
+});
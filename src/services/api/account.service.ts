@@ -0,0 +1,156 @@
+/**
+ * Account Service
+ *
+ * Service functions for scheduling account deletion and exporting
+ * everything the app stores about a user
+ */
+
+import { File, Paths } from 'expo-file-system';
+import { supabase } from '../../config/supabase.config';
+import type { AccountExport } from '../../types/account.types';
+
+/**
+ * Schedule the signed in user's account for deletion
+ *
+ * The account is purged after a grace period and can be kept by cancelling
+ * before then. Asking again keeps the original date.
+ *
+ * @returns Promise with when the account will be deleted
+ * @throws Error if the request fails
+ */
+export const requestAccountDeletion = async (): Promise<string> => {
+  try {
+    const { data, error } = await supabase.rpc('request_account_deletion');
+
+    if (error) {
+      console.error('Error requesting account deletion:', error);
+      throw new Error(`Failed to delete account: ${error.message}`);
+    }
+
+    return data as string;
+  } catch (error) {
+    console.error('Error in requestAccountDeletion:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while deleting account');
+  }
+};
+
+/**
+ * Cancel a scheduled deletion of the signed in user's account
+ *
+ * @throws Error if the request fails
+ */
+export const cancelAccountDeletion = async (): Promise<void> => {
+  try {
+    const { error } = await supabase.rpc('cancel_account_deletion');
+
+    if (error) {
+      console.error('Error cancelling account deletion:', error);
+      throw new Error(`Failed to cancel account deletion: ${error.message}`);
+    }
+  } catch (error) {
+    console.error('Error in cancelAccountDeletion:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while cancelling account deletion');
+  }
+};
+
+/**
+ * Run one query of the export, failing the whole export if it errors
+ */
+const exportRows = async <T>(
+  name: string,
+  query: PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> => {
+  const { data, error } = await query;
+
+  if (error) {
+    console.error(`Error exporting ${name}:`, error);
+    throw new Error(`Failed to export ${name}: ${error.message}`);
+  }
+
+  return data ?? [];
+};
+
+/**
+ * Collect everything the app stores about a user
+ *
+ * @param userId - ID of the signed in user
+ * @returns Promise with the user's profile, videos, likes, watch history, comments, scores and follows
+ * @throws Error if any part of the export fails
+ */
+export const exportUserData = async (userId: string): Promise<AccountExport> => {
+  try {
+    const { data: profile, error } = await supabase
+      .from('users')
+      .select('*')
+      .eq('id', userId)
+      .single();
+
+    if (error) {
+      console.error('Error exporting profile:', error);
+      throw new Error(`Failed to export profile: ${error.message}`);
+    }
+
+    const [videos, likes, videoViews, comments, leaderboardEntries, judgeScores, follows] =
+      await Promise.all([
+        exportRows('videos', supabase.from('videos').select('*').eq('user_id', userId)),
+        exportRows('likes', supabase.from('video_likes').select('*').eq('user_id', userId)),
+        exportRows(
+          'watch history',
+          supabase.from('video_views').select('*').eq('user_id', userId)
+        ),
+        exportRows('comments', supabase.from('comments').select('*').eq('user_id', userId)),
+        exportRows('scores', supabase.from('leaderboard').select('*').eq('user_id', userId)),
+        exportRows('judge scores', supabase.from('judge_scores').select('*').eq('judge_id', userId)),
+        exportRows(
+          'follows',
+          supabase
+            .from('follows')
+            .select('*')
+            .or(`follower_id.eq.${userId},followee_id.eq.${userId}`)
+        ),
+      ]);
+
+    return {
+      exported_at: new Date().toISOString(),
+      profile,
+      videos,
+      likes,
+      video_views: videoViews,
+      comments,
+      leaderboard_entries: leaderboardEntries,
+      judge_scores: judgeScores,
+      follows,
+    } as AccountExport;
+  } catch (error) {
+    console.error('Error in exportUserData:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while exporting your data');
+  }
+};
+
+/**
+ * Write an export to a JSON file in the cache directory
+ *
+ * @param archive - Export to write
+ * @returns Local URI of the file, ready to share
+ * @throws Error if the file cannot be written
+ */
+export const writeExportFile = (archive: AccountExport): string => {
+  try {
+    const file = new File(Paths.cache, `dance-competition-export-${Date.now()}.json`);
+    file.create({ overwrite: true });
+    file.write(JSON.stringify(archive, null, 2));
+
+    return file.uri;
+  } catch (error) {
+    console.error('Error in writeExportFile:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while saving your data');
+  }
+};
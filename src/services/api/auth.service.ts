@@ -2,36 +2,180 @@
  * Authentication Service
  * 
  * Handles all authentication-related operations with Supabase
- * including sign up, sign in, sign out, and session management.
+ * including sign up, sign in (password, OAuth and magic link), sign out,
+ * password reset, email confirmation, and session management.
  */
 
+import * as Linking from 'expo-linking';
+import * as WebBrowser from 'expo-web-browser';
+import { isAuthWeakPasswordError } from '@supabase/supabase-js';
 import { supabase } from '../../config/supabase.config';
-import type { LoginCredentials, RegisterData, User, Session, UserInsert } from '../../types';
+import { USERNAME_TAKEN_MESSAGE, isUsernameAvailable } from './user.service';
+import type {
+  LoginCredentials,
+  RegisterData,
+  User,
+  Session,
+  UserInsert,
+  OAuthProvider,
+  AuthError,
+  AuthErrorCode,
+} from '../../types';
 
 /**
  * Authentication response type
+ *
+ * A session without a user means the account has no profile yet (first
+ * OAuth or magic link sign in) and a username must be chosen.
  */
 interface AuthResponse {
   user: User | null;
   session: Session | null;
 }
 
+/**
+ * Error thrown by signUp for failures the form can show next to a field
+ */
+export class SignUpError extends Error implements AuthError {
+  code: AuthErrorCode;
+
+  constructor(code: AuthErrorCode, message: string) {
+    super(message);
+    this.name = 'SignUpError';
+    this.code = code;
+  }
+}
+
+/**
+ * Kind of email link that opened the app
+ */
+export type AuthLinkType =
+  | 'recovery'
+  | 'signup'
+  | 'email_change'
+  | 'magiclink'
+  | 'invite'
+  | 'oauth';
+
+/**
+ * Result of opening an auth email link
+ */
+export interface AuthLinkResult {
+  type: AuthLinkType;
+  session: Session;
+}
+
+/**
+ * App paths that Supabase auth links redirect back to. All must be listed
+ * under Authentication → URL Configuration → Redirect URLs.
+ */
+export const AUTH_REDIRECT_PATHS = {
+  RESET_PASSWORD: 'reset-password',
+  CONFIRM_EMAIL: 'auth/confirm',
+  OAUTH: 'auth/callback',
+} as const;
+
+/**
+ * Build the deep link Supabase should redirect to for a path
+ */
+const getRedirectUrl = (path: string): string => Linking.createURL(path);
+
+/**
+ * Read auth parameters from a redirect URL
+ *
+ * Supabase puts tokens in the fragment for the implicit flow and a `code`
+ * in the query string for PKCE, so both are merged.
+ */
+export const parseAuthParams = (url: string): Record<string, string> => {
+  const params: Record<string, string> = {};
+  const [beforeHash, hash = ''] = url.split('#');
+  const query = beforeHash.split('?')[1] ?? '';
+
+  for (const part of [query, hash]) {
+    for (const pair of part.split('&')) {
+      if (!pair) continue;
+      const [key, value = ''] = pair.split('=');
+      params[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+    }
+  }
+
+  return params;
+};
+
+/**
+ * Work out what kind of link a redirect URL is
+ *
+ * Email links carry a `type`; OAuth and PKCE redirects don't, so fall back
+ * to the path the link was sent to.
+ */
+const getLinkType = (url: string, params: Record<string, string>): AuthLinkType => {
+  if (params.type) return params.type as AuthLinkType;
+  if (url.includes(AUTH_REDIRECT_PATHS.RESET_PASSWORD)) return 'recovery';
+  if (url.includes(AUTH_REDIRECT_PATHS.OAUTH)) return 'oauth';
+  return 'signup';
+};
+
+/**
+ * Fetch the profile row for an auth user
+ *
+ * @returns The profile, or null if the user has not created one yet
+ */
+const fetchProfile = async (userId: string): Promise<User | null> => {
+  const { data, error } = await supabase
+    .from('users')
+    .select('*')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch user profile: ${error.message}`);
+  }
+
+  return data;
+};
+
 /**
  * Sign up a new user
- * 
+ *
+ * The users profile is created by a database trigger in the same
+ * transaction as the auth account, from the username passed as user
+ * metadata. If the username was taken in the meantime the account is still
+ * created without a profile, and the user is asked for another username.
+ *
  * @param data - Registration data including email, password, and username
- * @returns Promise with user and session data
- * @throws Error if registration fails
+ * @returns Promise with user and session data; the session is null when
+ * the email must be confirmed first
+ * @throws SignUpError with USERNAME_TAKEN, EMAIL_TAKEN or WEAK_PASSWORD
+ * @throws Error if registration fails for another reason
  */
 export const signUp = async (data: RegisterData): Promise<AuthResponse> => {
   try {
-    // Create auth user with Supabase
+    if (!(await isUsernameAvailable(data.username))) {
+      throw new SignUpError('USERNAME_TAKEN', USERNAME_TAKEN_MESSAGE);
+    }
+
+    // Create auth user (and, through the trigger, the profile) with Supabase
     const { data: authData, error: authError } = await supabase.auth.signUp({
       email: data.email,
       password: data.password,
+      options: {
+        emailRedirectTo: getRedirectUrl(AUTH_REDIRECT_PATHS.CONFIRM_EMAIL),
+        data: { username: data.username },
+      },
     });
 
     if (authError) {
+      if (isAuthWeakPasswordError(authError)) {
+        throw new SignUpError(
+          'WEAK_PASSWORD',
+          authError.reasons.includes('pwned')
+            ? 'This password has appeared in a data breach. Please choose another.'
+            : 'Password is too weak. Use a longer mix of letters, numbers and symbols.'
+        );
+      }
+      if (authError.code === 'user_already_exists' || authError.code === 'email_exists') {
+        throw new SignUpError('EMAIL_TAKEN', 'An account with this email already exists.');
+      }
       throw new Error(authError.message);
     }
 
@@ -39,21 +183,15 @@ export const signUp = async (data: RegisterData): Promise<AuthResponse> => {
       throw new Error('Failed to create user account');
     }
 
-    // Create user profile in the users table
-    const { data: userData, error: userError } = await supabase
-      .from('users')
-      .insert({
-        id: authData.user.id,
-        email: data.email,
-        username: data.username,
-      } as any)
-      .select()
-      .single();
-
-    if (userError) {
-      throw new Error(`Failed to create user profile: ${userError.message}`);
+    // With email confirmation on, Supabase hides existing accounts by
+    // returning a user without identities instead of an error
+    if (authData.user.identities?.length === 0) {
+      throw new SignUpError('EMAIL_TAKEN', 'An account with this email already exists.');
     }
 
+    // Profiles can only be read once signed in
+    const userData = authData.session ? await fetchProfile(authData.user.id) : null;
+
     return {
       user: userData,
       session: authData.session as Session | null,
@@ -89,16 +227,8 @@ export const signIn = async (credentials: LoginCredentials): Promise<AuthRespons
       throw new Error('Authentication failed');
     }
 
-    // Fetch user profile from users table
-    const { data: userData, error: userError } = await supabase
-      .from('users')
-      .select('*')
-      .eq('id', authData.user.id)
-      .single();
-
-    if (userError) {
-      throw new Error(`Failed to fetch user profile: ${userError.message}`);
-    }
+    // Fetch user profile from users table (missing if sign up never finished)
+    const userData = await fetchProfile(authData.user.id);
 
     return {
       user: userData,
@@ -133,6 +263,298 @@ export const signOut = async (): Promise<void> => {
   }
 };
 
+/**
+ * Sign in with a third-party provider
+ *
+ * Opens the provider's sign in page in an in-app browser session that
+ * redirects back to the app with the Supabase session.
+ *
+ * @param provider - Provider to sign in with
+ * @returns Promise with user and session data, or null if the user cancelled
+ * @throws Error if authentication fails
+ */
+export const signInWithProvider = async (
+  provider: OAuthProvider
+): Promise<AuthResponse | null> => {
+  try {
+    const redirectTo = getRedirectUrl(AUTH_REDIRECT_PATHS.OAUTH);
+
+    const { data, error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: {
+        redirectTo,
+        skipBrowserRedirect: true,
+      },
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const result = await WebBrowser.openAuthSessionAsync(data.url, redirectTo);
+
+    if (result.type !== 'success') {
+      return null;
+    }
+
+    const link = await createSessionFromUrl(result.url);
+
+    if (!link) {
+      throw new Error('Authentication failed');
+    }
+
+    // First sign in with a provider has no profile yet
+    const userData = await fetchProfile(link.session.user.id);
+
+    return {
+      user: userData,
+      session: link.session,
+    };
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('An unexpected error occurred during sign in');
+  }
+};
+
+/**
+ * Email a passwordless sign in link
+ *
+ * Creates the auth account if the email is new. The link opens the app and
+ * signs the user in through useAuthDeepLinks.
+ *
+ * @param email - Email address to send the link to
+ * @returns Promise that resolves once the email has been requested
+ * @throws Error if the request fails
+ */
+export const sendMagicLink = async (email: string): Promise<void> => {
+  try {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo: getRedirectUrl(AUTH_REDIRECT_PATHS.CONFIRM_EMAIL),
+        shouldCreateUser: true,
+      },
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('An unexpected error occurred while sending the sign in link');
+  }
+};
+
+/**
+ * Create the profile for a signed in user who doesn't have one yet
+ *
+ * The avatar from the OAuth provider, if any, is used as the profile picture.
+ *
+ * @param username - Username the user chose
+ * @returns Promise with user and session data
+ * @throws Error if there is no session or the username is taken
+ */
+export const completeProfile = async (username: string): Promise<AuthResponse> => {
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+
+    if (sessionError) {
+      throw new Error(sessionError.message);
+    }
+
+    if (!session) {
+      throw new Error('Your session has expired. Please sign in again.');
+    }
+
+    const metadata = session.user.user_metadata ?? {};
+    const profile: UserInsert = {
+      id: session.user.id,
+      email: session.user.email ?? '',
+      username,
+      avatar_url: metadata.avatar_url ?? metadata.picture ?? null,
+    };
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .insert(profile)
+      .select()
+      .single();
+
+    if (userError) {
+      // Unique violation on username
+      if (userError.code === '23505' && userError.message.includes('username')) {
+        throw new Error(USERNAME_TAKEN_MESSAGE);
+      }
+      throw new Error(`Failed to create user profile: ${userError.message}`);
+    }
+
+    return {
+      user: userData as User,
+      session: session as Session,
+    };
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('An unexpected error occurred while creating your profile');
+  }
+};
+
+/**
+ * Send a password reset email
+ *
+ * The email links back into the app, which opens the reset password screen.
+ *
+ * @param email - Email address of the account
+ * @returns Promise that resolves once the email has been requested
+ * @throws Error if the request fails
+ */
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  try {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: getRedirectUrl(AUTH_REDIRECT_PATHS.RESET_PASSWORD),
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('An unexpected error occurred while requesting a password reset');
+  }
+};
+
+/**
+ * Set a new password for the user signed in by a reset link
+ *
+ * @param password - New password
+ * @returns Promise with user and session data
+ * @throws Error if there is no recovery session or the update fails
+ */
+export const updatePassword = async (password: string): Promise<AuthResponse> => {
+  try {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+
+    if (sessionError) {
+      throw new Error(sessionError.message);
+    }
+
+    if (!session) {
+      throw new Error('Your reset link has expired. Please request a new one.');
+    }
+
+    const { error: updateError } = await supabase.auth.updateUser({ password });
+
+    if (updateError) {
+      throw new Error(updateError.message);
+    }
+
+    // Missing if the account never finished choosing a username
+    const userData = await fetchProfile(session.user.id);
+
+    return {
+      user: userData,
+      session: session as Session,
+    };
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('An unexpected error occurred while updating password');
+  }
+};
+
+/**
+ * Resend the sign up confirmation email
+ *
+ * @param email - Email address the account was registered with
+ * @returns Promise that resolves once the email has been requested
+ * @throws Error if the request fails
+ */
+export const resendConfirmation = async (email: string): Promise<void> => {
+  try {
+    const { error } = await supabase.auth.resend({
+      type: 'signup',
+      email,
+      options: {
+        emailRedirectTo: getRedirectUrl(AUTH_REDIRECT_PATHS.CONFIRM_EMAIL),
+      },
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('An unexpected error occurred while resending the confirmation email');
+  }
+};
+
+/**
+ * Create a session from an auth email link that opened the app
+ *
+ * @param url - Deep link URL
+ * @returns Promise with the link type and session, or null if the URL is not an auth link
+ * @throws Error if the link is invalid or has expired
+ */
+export const createSessionFromUrl = async (url: string): Promise<AuthLinkResult | null> => {
+  try {
+    const params = parseAuthParams(url);
+
+    if (params.error_description || params.error) {
+      throw new Error(params.error_description || params.error);
+    }
+
+    if (params.code) {
+      const { data, error } = await supabase.auth.exchangeCodeForSession(params.code);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return {
+        type: getLinkType(url, params),
+        session: data.session as Session,
+      };
+    }
+
+    if (!params.access_token || !params.refresh_token) {
+      return null;
+    }
+
+    const { data, error } = await supabase.auth.setSession({
+      access_token: params.access_token,
+      refresh_token: params.refresh_token,
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (!data.session) {
+      throw new Error('Email link is invalid or has expired');
+    }
+
+    return {
+      type: getLinkType(url, params),
+      session: data.session as Session,
+    };
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('An unexpected error occurred while opening the email link');
+  }
+};
+
 /**
  * Get the current authenticated user
  * 
@@ -156,15 +578,7 @@ export const getCurrentUser = async (): Promise<AuthResponse> => {
     }
 
     // Fetch user profile from users table
-    const { data: userData, error: userError } = await supabase
-      .from('users')
-      .select('*')
-      .eq('id', session.user.id)
-      .single();
-
-    if (userError) {
-      throw new Error(`Failed to fetch user profile: ${userError.message}`);
-    }
+    const userData = await fetchProfile(session.user.id);
 
     return {
       user: userData,
@@ -179,66 +593,51 @@ export const getCurrentUser = async (): Promise<AuthResponse> => {
 };
 
 /**
- * Validate and refresh session if needed
- * 
- * @param session - Current session to validate
- * @returns Promise with refreshed session or null if invalid
+ * Validate and refresh the persisted session
+ *
+ * The Supabase client restores its session from secure storage and
+ * refreshes it when the access token has expired, so this only has to ask
+ * for the session. A session saved by older app versions, which kept it
+ * outside the client, is adopted when the client has none.
+ *
+ * @param legacySession - Session saved by an older app version, if any
+ * @returns Promise with the user and session, or nulls if there is no valid session
  */
-export const validateAndRefreshSession = async (session: Session | null): Promise<AuthResponse> => {
+export const validateAndRefreshSession = async (
+  legacySession: Session | null = null
+): Promise<AuthResponse> => {
   try {
-    if (!session) {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+
+    // Refresh failed; the client has already dropped the session
+    if (sessionError) {
       return {
         user: null,
         session: null,
       };
     }
 
-    // Check if session is expired
-    if (session.expires_at && session.expires_at * 1000 < Date.now()) {
-      // Try to refresh the session
-      const { data, error } = await supabase.auth.refreshSession({
-        refresh_token: session.refresh_token,
-      });
-
-      if (error || !data.session) {
-        // Refresh failed, session is invalid
-        return {
-          user: null,
-          session: null,
-        };
-      }
+    let currentSession = session;
 
-      // Fetch user profile with refreshed session
-      const { data: userData, error: userError } = await supabase
-        .from('users')
-        .select('*')
-        .eq('id', data.session.user.id)
-        .single();
+    if (!currentSession && legacySession) {
+      const { data, error } = await supabase.auth.setSession({
+        access_token: legacySession.access_token,
+        refresh_token: legacySession.refresh_token,
+      });
 
-      if (userError) {
-        throw new Error(`Failed to fetch user profile: ${userError.message}`);
-      }
+      currentSession = error ? null : data.session;
+    }
 
+    if (!currentSession) {
       return {
-        user: userData,
-        session: data.session as Session,
+        user: null,
+        session: null,
       };
     }
 
-    // Session is still valid, fetch user profile
-    const { data: userData, error: userError } = await supabase
-      .from('users')
-      .select('*')
-      .eq('id', session.user.id)
-      .single();
-
-    if (userError) {
-      throw new Error(`Failed to fetch user profile: ${userError.message}`);
-    }
-
     return {
-      user: userData,
-      session: session,
+      user: await fetchProfile(currentSession.user.id),
+      session: currentSession as Session,
     };
   } catch (error) {
     if (error instanceof Error) {
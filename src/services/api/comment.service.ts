@@ -0,0 +1,231 @@
+/**
+ * Comment Service
+ *
+ * Service functions for reading, posting, editing and deleting comments
+ * and threaded replies on videos.
+ */
+
+import { supabase } from '../../config/supabase.config';
+import type {
+  CommentCursor,
+  CommentInput,
+  CommentParams,
+  CommentWithUser,
+} from '../../types/comment.types';
+import type { PaginatedResponse } from '../../types/api.types';
+
+/**
+ * Maximum length of a comment body, matching the database constraint
+ */
+export const MAX_COMMENT_LENGTH = 1000;
+
+const COMMENT_SELECT = `
+  *,
+  user:users(*)
+`;
+
+/**
+ * Encode the position of a comment as an opaque pagination cursor
+ */
+const encodeCursor = (cursor: CommentCursor): string => JSON.stringify(cursor);
+
+/**
+ * Decode a pagination cursor created by encodeCursor
+ */
+const decodeCursor = (cursor: string): CommentCursor => {
+  try {
+    return JSON.parse(cursor) as CommentCursor;
+  } catch {
+    throw new Error('Invalid pagination cursor');
+  }
+};
+
+/**
+ * Trim a comment body and check it fits the database constraint
+ *
+ * @param body - Comment text as typed by the user
+ * @returns The trimmed body
+ * @throws Error if the body is empty or too long
+ */
+const normalizeBody = (body: string): string => {
+  const trimmed = body.trim();
+
+  if (!trimmed) {
+    throw new Error('Comment cannot be empty');
+  }
+
+  if (trimmed.length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Comments can be at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+
+  return trimmed;
+};
+
+/**
+ * Fetch a page of comments on a video, or replies to a comment
+ *
+ * Uses keyset pagination on (`created_at`, `id`): pass the previous page's
+ * `meta.nextCursor` as `cursor` to fetch the following page.
+ *
+ * @param params - Video, optional parent comment, page size and cursor
+ * @returns Promise with a page of comments and their authors
+ * @throws Error if the fetch fails
+ */
+export const fetchComments = async (
+  params: CommentParams
+): Promise<PaginatedResponse<CommentWithUser>> => {
+  try {
+    const { videoId, parentId = null, limit = 20, cursor } = params;
+
+    // Threads read newest first; replies within a thread read oldest first
+    const ascending = parentId !== null;
+
+    let query = supabase
+      .from('comments')
+      .select(COMMENT_SELECT)
+      .eq('video_id', videoId);
+
+    query = parentId ? query.eq('parent_id', parentId) : query.is('parent_id', null);
+
+    if (cursor) {
+      // Continue strictly after the last comment of the previous page
+      const { createdAt, id } = decodeCursor(cursor);
+      const operator = ascending ? 'gt' : 'lt';
+      query = query.or(
+        `created_at.${operator}."${createdAt}",and(created_at.eq."${createdAt}",id.${operator}.${id})`
+      );
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const { data, error } = await query
+      .order('created_at', { ascending })
+      .order('id', { ascending })
+      .limit(limit + 1);
+
+    if (error) {
+      console.error('Error fetching comments:', error);
+      throw new Error(`Failed to fetch comments: ${error.message}`);
+    }
+
+    const rows = (data || []) as CommentWithUser[];
+    const hasMore = rows.length > limit;
+    const pageComments = rows.slice(0, limit);
+    const lastComment = pageComments[pageComments.length - 1];
+
+    return {
+      data: pageComments,
+      meta: {
+        pageSize: limit,
+        hasMore,
+        nextCursor: hasMore && lastComment
+          ? encodeCursor({ createdAt: lastComment.created_at, id: lastComment.id })
+          : null,
+      },
+    };
+  } catch (error) {
+    console.error('Error in fetchComments:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while fetching comments');
+  }
+};
+
+/**
+ * Post a comment on a video, or a reply to a top-level comment
+ *
+ * @param input - Video, comment text and optional parent comment
+ * @returns Promise with the created comment and its author
+ * @throws Error if the user is signed out, the text is invalid, or the insert fails
+ */
+export const createComment = async (input: CommentInput): Promise<CommentWithUser> => {
+  try {
+    const body = normalizeBody(input.body);
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      throw new Error('You must be signed in to comment');
+    }
+
+    const { data, error } = await supabase
+      .from('comments')
+      .insert({
+        video_id: input.videoId,
+        user_id: session.user.id,
+        parent_id: input.parentId ?? null,
+        body,
+      })
+      .select(COMMENT_SELECT)
+      .single();
+
+    if (error) {
+      console.error('Error creating comment:', error);
+      throw new Error(`Failed to post comment: ${error.message}`);
+    }
+
+    return data as CommentWithUser;
+  } catch (error) {
+    console.error('Error in createComment:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while posting comment');
+  }
+};
+
+/**
+ * Edit the text of one of the current user's comments
+ *
+ * @param commentId - Comment to edit
+ * @param body - New comment text
+ * @returns Promise with the updated comment and its author
+ * @throws Error if the text is invalid or the update fails
+ */
+export const updateComment = async (
+  commentId: string,
+  body: string
+): Promise<CommentWithUser> => {
+  try {
+    const { data, error } = await supabase
+      .from('comments')
+      .update({ body: normalizeBody(body) })
+      .eq('id', commentId)
+      .select(COMMENT_SELECT)
+      .single();
+
+    if (error) {
+      console.error('Error updating comment:', error);
+      throw new Error(`Failed to edit comment: ${error.message}`);
+    }
+
+    return data as CommentWithUser;
+  } catch (error) {
+    console.error('Error in updateComment:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while editing comment');
+  }
+};
+
+/**
+ * Delete one of the current user's comments, along with its replies
+ *
+ * @param commentId - Comment to delete
+ * @throws Error if the delete fails
+ */
+export const deleteComment = async (commentId: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('comments')
+      .delete()
+      .eq('id', commentId);
+
+    if (error) {
+      console.error('Error deleting comment:', error);
+      throw new Error(`Failed to delete comment: ${error.message}`);
+    }
+  } catch (error) {
+    console.error('Error in deleteComment:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while deleting comment');
+  }
+};
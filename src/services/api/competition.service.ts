@@ -0,0 +1,321 @@
+/**
+ * Competition Service
+ *
+ * Service functions for browsing competitions and submitting entries
+ * within a competition's submission window.
+ */
+
+import { supabase } from '../../config/supabase.config';
+import type {
+  Competition,
+  CompetitionEntryInput,
+  CompetitionParams,
+  CompetitionPlacement,
+} from '../../types/competition.types';
+import type { LeaderboardEntry } from '../../types/leaderboard.types';
+
+/**
+ * Message used when an entry is submitted outside the submission window
+ */
+export const SUBMISSIONS_CLOSED_MESSAGE = 'Submissions are closed for this competition';
+
+/**
+ * Message used when an entry is longer than the competition allows
+ */
+export const CLIP_TOO_LONG_MESSAGE = 'Video is longer than this competition allows';
+
+/**
+ * Message used when a dancer enters a competition a second time
+ */
+export const ALREADY_ENTERED_MESSAGE = 'You have already entered this competition';
+
+/**
+ * Check whether a clip is too long to enter a competition
+ *
+ * @param competition - Competition to check
+ * @param durationMs - Length of the clip, if known
+ * @returns True if the competition has a maximum length and the clip is known to exceed it
+ */
+export const exceedsMaxDuration = (
+  competition: Pick<Competition, 'max_duration_seconds'>,
+  durationMs: number | null | undefined
+): boolean =>
+  competition.max_duration_seconds != null &&
+  durationMs != null &&
+  durationMs > competition.max_duration_seconds * 1000;
+
+/**
+ * Message used when an entry's length is unknown and the competition caps it
+ */
+export const DURATION_UNKNOWN_MESSAGE = 'Video length is needed to enter this competition';
+
+/**
+ * Check whether a clip's length must be known to enter a competition
+ *
+ * @param competition - Competition to check
+ * @param durationMs - Length of the clip, if known
+ * @returns True if the competition has a maximum length and the clip's length is unknown
+ */
+export const requiresKnownDuration = (
+  competition: Pick<Competition, 'max_duration_seconds'>,
+  durationMs: number | null | undefined
+): boolean => competition.max_duration_seconds != null && !durationMs;
+
+/**
+ * Check whether a competition currently accepts entries
+ *
+ * @param competition - Competition to check
+ * @param now - Point in time to check against (defaults to the current time)
+ * @returns True if the competition is open and inside its submission window
+ */
+export const isSubmissionWindowOpen = (
+  competition: Pick<Competition, 'status' | 'opens_at' | 'closes_at'>,
+  now: Date = new Date()
+): boolean => {
+  if (competition.status !== 'open') {
+    return false;
+  }
+
+  const opensAt = new Date(competition.opens_at).getTime();
+  const closesAt = new Date(competition.closes_at).getTime();
+  const time = now.getTime();
+
+  return time >= opensAt && time <= closesAt;
+};
+
+/**
+ * Fetch competitions, most recently opened first
+ *
+ * @param params - Optional status filter and pagination parameters
+ * @returns Promise with array of competitions
+ * @throws Error if the fetch fails
+ */
+export const fetchCompetitions = async (
+  params: CompetitionParams = {}
+): Promise<Competition[]> => {
+  try {
+    const { status, limit = 20, offset = 0 } = params;
+
+    let query = supabase
+      .from('competitions')
+      .select('*');
+
+    if (Array.isArray(status)) {
+      query = query.in('status', status);
+    } else if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query
+      .order('opens_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error('Error fetching competitions:', error);
+      throw new Error(`Failed to fetch competitions: ${error.message}`);
+    }
+
+    return (data || []) as Competition[];
+  } catch (error) {
+    console.error('Error in fetchCompetitions:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while fetching competitions');
+  }
+};
+
+/**
+ * Fetch a single competition by ID
+ *
+ * @param id - Competition ID
+ * @returns Promise with competition data
+ * @throws Error if the fetch fails or the competition does not exist
+ */
+export const fetchCompetitionById = async (id: string): Promise<Competition> => {
+  try {
+    const { data, error } = await supabase
+      .from('competitions')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching competition by ID:', error);
+      throw new Error(`Failed to fetch competition: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('Competition not found');
+    }
+
+    return data as Competition;
+  } catch (error) {
+    console.error('Error in fetchCompetitionById:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while fetching competition');
+  }
+};
+
+/**
+ * Check that a clip can be entered into a competition before it is uploaded
+ *
+ * Runs the same checks the database applies to a new entry, so a clip that
+ * would be rejected is never uploaded and published on its own.
+ *
+ * @param competitionId - Competition to enter
+ * @param userId - Dancer entering the competition
+ * @param durationMs - Length of the clip, if known
+ * @throws Error if the window is closed, the clip is too long or of unknown length, or the dancer has already entered
+ */
+export const validateCompetitionEntry = async (
+  competitionId: string,
+  userId: string,
+  durationMs: number | null | undefined
+): Promise<void> => {
+  try {
+    const competition = await fetchCompetitionById(competitionId);
+
+    if (!isSubmissionWindowOpen(competition)) {
+      throw new Error(SUBMISSIONS_CLOSED_MESSAGE);
+    }
+
+    if (requiresKnownDuration(competition, durationMs)) {
+      throw new Error(DURATION_UNKNOWN_MESSAGE);
+    }
+
+    if (exceedsMaxDuration(competition, durationMs)) {
+      throw new Error(CLIP_TOO_LONG_MESSAGE);
+    }
+
+    const { count, error } = await supabase
+      .from('leaderboard')
+      .select('id', { count: 'exact', head: true })
+      .eq('competition_id', competitionId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error checking competition entry:', error);
+      throw new Error(`Failed to check competition entry: ${error.message}`);
+    }
+
+    if (count) {
+      throw new Error(ALREADY_ENTERED_MESSAGE);
+    }
+  } catch (error) {
+    console.error('Error in validateCompetitionEntry:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while checking competition entry');
+  }
+};
+
+/**
+ * Submit a video as an entry to a competition
+ *
+ * The submission window is checked before inserting; the database enforces
+ * the same rule so entries cannot slip in after the window closes.
+ *
+ * @param input - Competition, user and video for the entry
+ * @returns Promise with the created leaderboard entry
+ * @throws Error if the window is closed or the insert fails
+ */
+export const submitCompetitionEntry = async (
+  input: CompetitionEntryInput
+): Promise<LeaderboardEntry> => {
+  try {
+    const competition = await fetchCompetitionById(input.competitionId);
+
+    if (!isSubmissionWindowOpen(competition)) {
+      throw new Error(SUBMISSIONS_CLOSED_MESSAGE);
+    }
+
+    const { data, error } = await supabase
+      .from('leaderboard')
+      .insert({
+        competition_id: input.competitionId,
+        user_id: input.userId,
+        video_id: input.videoId,
+        score: 0,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error submitting competition entry:', error);
+
+      if (error.message?.includes(SUBMISSIONS_CLOSED_MESSAGE)) {
+        throw new Error(SUBMISSIONS_CLOSED_MESSAGE);
+      }
+
+      if (error.message?.includes(CLIP_TOO_LONG_MESSAGE)) {
+        throw new Error(CLIP_TOO_LONG_MESSAGE);
+      }
+
+      if (error.message?.includes(DURATION_UNKNOWN_MESSAGE)) {
+        throw new Error(DURATION_UNKNOWN_MESSAGE);
+      }
+
+      // Unique violation on (competition_id, user_id)
+      if (error.code === '23505') {
+        throw new Error(ALREADY_ENTERED_MESSAGE);
+      }
+
+      throw new Error(`Failed to submit entry: ${error.message}`);
+    }
+
+    return data as LeaderboardEntry;
+  } catch (error) {
+    console.error('Error in submitCompetitionEntry:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while submitting entry');
+  }
+};
+
+/**
+ * Fetch a user's competition entries and where they placed, most recent first
+ *
+ * @param userId - User whose placements to fetch
+ * @param limit - Maximum number of placements to return
+ * @returns Promise with the user's entries and their competitions
+ * @throws Error if the fetch fails
+ */
+export const fetchUserPlacements = async (
+  userId: string,
+  limit = 20
+): Promise<CompetitionPlacement[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('leaderboard')
+      .select(`
+        *,
+        competition:competitions!inner(*),
+        video:videos (
+          id,
+          title,
+          video_url,
+          thumbnail_url
+        )
+      `)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching user placements:', error);
+      throw new Error(`Failed to fetch competition history: ${error.message}`);
+    }
+
+    return (data || []).map((entry) => ({
+      ...entry,
+      competition: Array.isArray(entry.competition) ? entry.competition[0] : entry.competition,
+      video: Array.isArray(entry.video) ? entry.video[0] : entry.video,
+    })) as CompetitionPlacement[];
+  } catch (error) {
+    console.error('Error in fetchUserPlacements:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while fetching competition history');
+  }
+};
@@ -0,0 +1,253 @@
+/**
+ * Judging Service
+ *
+ * Service functions for judges scoring competition entries against
+ * a weighted rubric. Leaderboard scores are derived from these scores
+ * by the database.
+ */
+
+import { supabase } from '../../config/supabase.config';
+import type { Competition } from '../../types/competition.types';
+import type {
+  CriterionScoreInput,
+  JudgeScore,
+  JudgeScoresSubmission,
+  JudgingEntry,
+  RubricCriterion,
+} from '../../types/judging.types';
+
+/**
+ * Calculate the weighted 0-100 score for one judge's criterion scores
+ *
+ * Mirrors the aggregation done by the database so judges can preview
+ * the score an entry will receive.
+ *
+ * @param criteria - Rubric criteria for the competition
+ * @param scores - Criterion scores given by the judge
+ * @returns Weighted score between 0 and 100
+ */
+export const calculateWeightedScore = (
+  criteria: RubricCriterion[],
+  scores: CriterionScoreInput[]
+): number => {
+  let weightedTotal = 0;
+  let totalWeight = 0;
+
+  criteria.forEach((criterion) => {
+    const criterionScore = scores.find((score) => score.criterionId === criterion.id);
+    if (!criterionScore) return;
+
+    weightedTotal += (criterionScore.score / criterion.max_score) * criterion.weight;
+    totalWeight += criterion.weight;
+  });
+
+  if (totalWeight === 0) {
+    return 0;
+  }
+
+  return Math.round((weightedTotal / totalWeight) * 100);
+};
+
+/**
+ * Fetch the scoring rubric for a competition
+ *
+ * @param competitionId - Competition ID
+ * @returns Promise with rubric criteria in display order
+ * @throws Error if the fetch fails
+ */
+export const fetchRubric = async (competitionId: string): Promise<RubricCriterion[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('rubric_criteria')
+      .select('*')
+      .eq('competition_id', competitionId)
+      .order('position', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching rubric:', error);
+      throw new Error(`Failed to fetch rubric: ${error.message}`);
+    }
+
+    return (data || []) as RubricCriterion[];
+  } catch (error) {
+    console.error('Error in fetchRubric:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while fetching rubric');
+  }
+};
+
+/**
+ * Check whether a user judges a competition
+ *
+ * @param competitionId - Competition ID
+ * @param userId - User ID
+ * @returns Promise resolving to true if the user is a judge
+ * @throws Error if the check fails
+ */
+export const isCompetitionJudge = async (
+  competitionId: string,
+  userId: string
+): Promise<boolean> => {
+  try {
+    const { count, error } = await supabase
+      .from('competition_judges')
+      .select('*', { count: 'exact', head: true })
+      .eq('competition_id', competitionId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error checking judge assignment:', error);
+      throw new Error(`Failed to check judge assignment: ${error.message}`);
+    }
+
+    return (count || 0) > 0;
+  } catch (error) {
+    console.error('Error in isCompetitionJudge:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while checking judge assignment');
+  }
+};
+
+/**
+ * Fetch the competitions a judge is assigned to that are open or being judged
+ *
+ * @param judgeId - Judge's user ID
+ * @returns Promise with competitions, those being judged first
+ * @throws Error if the fetch fails
+ */
+export const fetchJudgeAssignments = async (judgeId: string): Promise<Competition[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('competition_judges')
+      .select('competition:competitions!inner(*)')
+      .eq('user_id', judgeId)
+      .in('competition.status', ['open', 'judging']);
+
+    if (error) {
+      console.error('Error fetching judge assignments:', error);
+      throw new Error(`Failed to fetch judge assignments: ${error.message}`);
+    }
+
+    const competitions = (data || []).map((assignment) =>
+      Array.isArray(assignment.competition) ? assignment.competition[0] : assignment.competition
+    ) as Competition[];
+
+    return competitions.sort((a, b) => {
+      if (a.status !== b.status) {
+        return a.status === 'judging' ? -1 : 1;
+      }
+      return new Date(a.closes_at).getTime() - new Date(b.closes_at).getTime();
+    });
+  } catch (error) {
+    console.error('Error in fetchJudgeAssignments:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while fetching judge assignments');
+  }
+};
+
+/**
+ * Fetch a competition's entries together with the judge's existing scores
+ *
+ * @param competitionId - Competition ID
+ * @param judgeId - ID of the judge scoring the entries
+ * @returns Promise with entries in submission order
+ * @throws Error if the fetch fails
+ */
+export const fetchJudgingEntries = async (
+  competitionId: string,
+  judgeId: string
+): Promise<JudgingEntry[]> => {
+  try {
+    const { data: entries, error: entriesError } = await supabase
+      .from('leaderboard')
+      .select(`
+        *,
+        user:users (
+          id,
+          username,
+          avatar_url,
+          email,
+          created_at
+        ),
+        video:videos (*)
+      `)
+      .eq('competition_id', competitionId)
+      .order('created_at', { ascending: true });
+
+    if (entriesError) {
+      console.error('Error fetching judging entries:', entriesError);
+      throw new Error(`Failed to fetch entries: ${entriesError.message}`);
+    }
+
+    if (!entries || entries.length === 0) {
+      return [];
+    }
+
+    const entryIds = entries.map((entry) => entry.id);
+
+    const { data: scores, error: scoresError } = await supabase
+      .from('judge_scores')
+      .select('*')
+      .eq('judge_id', judgeId)
+      .in('entry_id', entryIds);
+
+    if (scoresError) {
+      console.error('Error fetching judge scores:', scoresError);
+      throw new Error(`Failed to fetch judge scores: ${scoresError.message}`);
+    }
+
+    const judgeScores = (scores || []) as JudgeScore[];
+
+    return entries.map((entry) => ({
+      ...entry,
+      user: Array.isArray(entry.user) ? entry.user[0] : entry.user,
+      video: Array.isArray(entry.video) ? entry.video[0] : entry.video,
+      judgeScores: judgeScores.filter((score) => score.entry_id === entry.id),
+    })) as JudgingEntry[];
+  } catch (error) {
+    console.error('Error in fetchJudgingEntries:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while fetching entries');
+  }
+};
+
+/**
+ * Submit or update a judge's scores for an entry
+ *
+ * @param submission - Entry, judge and per-criterion scores
+ * @returns Promise with the saved judge scores
+ * @throws Error if saving fails
+ */
+export const submitJudgeScores = async (
+  submission: JudgeScoresSubmission
+): Promise<JudgeScore[]> => {
+  try {
+    const rows = submission.scores.map((score) => ({
+      entry_id: submission.entryId,
+      judge_id: submission.judgeId,
+      criterion_id: score.criterionId,
+      score: score.score,
+    }));
+
+    const { data, error } = await supabase
+      .from('judge_scores')
+      .upsert(rows, { onConflict: 'entry_id,judge_id,criterion_id' })
+      .select();
+
+    if (error) {
+      console.error('Error submitting judge scores:', error);
+      throw new Error(`Failed to submit scores: ${error.message}`);
+    }
+
+    return (data || []) as JudgeScore[];
+  } catch (error) {
+    console.error('Error in submitJudgeScores:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while submitting scores');
+  }
+};
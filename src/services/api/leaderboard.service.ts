@@ -18,10 +18,10 @@ export const fetchLeaderboard = async (
   params: LeaderboardParams = {}
 ): Promise<LeaderboardEntryWithUser[]> => {
   try {
-    const { limit = 50, offset = 0 } = params;
+    const { competitionId, limit = 50, offset = 0 } = params;
 
     // Fetch leaderboard entries with user data joined
-    const { data, error } = await supabase
+    let query = supabase
       .from('leaderboard')
       .select(`
         *,
@@ -38,7 +38,13 @@ export const fetchLeaderboard = async (
           video_url,
           thumbnail_url
         )
-      `)
+      `);
+
+    if (competitionId) {
+      query = query.eq('competition_id', competitionId);
+    }
+
+    const { data, error } = await query
       .order('score', { ascending: false })
       .range(offset, offset + limit - 1);
 
@@ -52,8 +58,10 @@ export const fetchLeaderboard = async (
     }
 
     // Transform the data to match our type structure
-    return data.map((entry: any) => ({
+    return data.map((entry: any, index: number) => ({
       ...entry,
+      // Stored ranks are per competition, so the global view ranks by position
+      rank: competitionId ? entry.rank : offset + index + 1,
       user: Array.isArray(entry.user) ? entry.user[0] : entry.user,
       video: Array.isArray(entry.video) ? entry.video[0] : entry.video,
     })) as LeaderboardEntryWithUser[];
@@ -68,28 +76,39 @@ export const fetchLeaderboard = async (
 /**
  * Fetch rank information for a specific user
  * 
+ * When no competition is given, the user's best entry is ranked against
+ * every entry on the global leaderboard.
+ * 
  * @param userId - The ID of the user to fetch rank for
+ * @param competitionId - Optional competition to scope the rank to
  * @returns Promise with user rank information
  * @throws Error if the fetch fails
  */
-export const fetchUserRank = async (userId: string): Promise<UserRank | null> => {
+export const fetchUserRank = async (
+  userId: string,
+  competitionId?: string
+): Promise<UserRank | null> => {
   try {
     if (!userId) {
       throw new Error('User ID is required');
     }
 
-    // Fetch the user's leaderboard entry
-    const { data: userEntry, error: userError } = await supabase
+    // Fetch the user's best leaderboard entry
+    let entryQuery = supabase
       .from('leaderboard')
       .select('score, rank')
-      .eq('user_id', userId)
-      .single();
+      .eq('user_id', userId);
+
+    if (competitionId) {
+      entryQuery = entryQuery.eq('competition_id', competitionId);
+    }
+
+    const { data: userEntry, error: userError } = await entryQuery
+      .order('score', { ascending: false })
+      .limit(1)
+      .maybeSingle();
 
     if (userError) {
-      // If user not found in leaderboard, return null instead of throwing
-      if (userError.code === 'PGRST116') {
-        return null;
-      }
       console.error('Error fetching user rank:', userError);
       throw new Error(`Failed to fetch user rank: ${userError.message}`);
     }
@@ -98,21 +117,45 @@ export const fetchUserRank = async (userId: string): Promise<UserRank | null> =>
       return null;
     }
 
+    const entry = userEntry as any;
+
     // Get total number of entries to provide context
-    const { count, error: countError } = await supabase
+    let countQuery = supabase
       .from('leaderboard')
       .select('*', { count: 'exact', head: true });
 
+    if (competitionId) {
+      countQuery = countQuery.eq('competition_id', competitionId);
+    }
+
+    const { count, error: countError } = await countQuery;
+
     if (countError) {
       console.error('Error counting leaderboard entries:', countError);
       throw new Error(`Failed to count leaderboard entries: ${countError.message}`);
     }
 
-    const entry = userEntry as any;
+    let rank = entry.rank || 0;
+
+    if (!competitionId) {
+      // Stored ranks are per competition, so count higher scores globally
+      const { count: higherCount, error: higherError } = await supabase
+        .from('leaderboard')
+        .select('*', { count: 'exact', head: true })
+        .gt('score', entry.score);
+
+      if (higherError) {
+        console.error('Error ranking user entry:', higherError);
+        throw new Error(`Failed to rank user entry: ${higherError.message}`);
+      }
+
+      rank = (higherCount || 0) + 1;
+    }
 
     return {
       userId,
-      rank: entry.rank || 0,
+      competitionId,
+      rank,
       score: entry.score,
       totalEntries: count || 0,
     };
@@ -0,0 +1,125 @@
+/**
+ * Social Service
+ *
+ * Service functions for following and unfollowing creators and reading
+ * the follow graph
+ */
+
+import { supabase } from '../../config/supabase.config';
+import type { FollowToggleResult } from '../../types/social.types';
+
+/**
+ * Get the ID of the signed in user
+ *
+ * @throws Error if no user is signed in
+ */
+const getCurrentUserId = async (): Promise<string> => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session) {
+    throw new Error('You must be signed in to follow creators');
+  }
+
+  return session.user.id;
+};
+
+/**
+ * Check whether the signed in user follows a user
+ *
+ * @param followeeId - User who may be followed
+ * @returns Promise resolving to true if the signed in user follows them
+ * @throws Error if the check fails
+ */
+export const fetchIsFollowing = async (followeeId: string): Promise<boolean> => {
+  try {
+    const followerId = await getCurrentUserId();
+
+    const { data, error } = await supabase
+      .from('follows')
+      .select('followee_id')
+      .eq('follower_id', followerId)
+      .eq('followee_id', followeeId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching follow status:', error);
+      throw new Error(`Failed to fetch follow status: ${error.message}`);
+    }
+
+    return Boolean(data);
+  } catch (error) {
+    console.error('Error in fetchIsFollowing:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while fetching follow status');
+  }
+};
+
+/**
+ * Follow a user as the signed in user
+ *
+ * Following someone who is already followed is a no-op.
+ *
+ * @param followeeId - User to follow
+ * @returns Promise with the new follow state
+ * @throws Error if the follow fails
+ */
+export const followUser = async (followeeId: string): Promise<FollowToggleResult> => {
+  try {
+    const followerId = await getCurrentUserId();
+
+    if (followerId === followeeId) {
+      throw new Error('You cannot follow yourself');
+    }
+
+    const { error } = await supabase
+      .from('follows')
+      .upsert(
+        { follower_id: followerId, followee_id: followeeId },
+        { onConflict: 'follower_id,followee_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.error('Error following user:', error);
+      throw new Error(`Failed to follow user: ${error.message}`);
+    }
+
+    return { followeeId, isFollowing: true };
+  } catch (error) {
+    console.error('Error in followUser:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while following user');
+  }
+};
+
+/**
+ * Unfollow a user as the signed in user
+ *
+ * @param followeeId - User to unfollow
+ * @returns Promise with the new follow state
+ * @throws Error if the unfollow fails
+ */
+export const unfollowUser = async (followeeId: string): Promise<FollowToggleResult> => {
+  try {
+    const followerId = await getCurrentUserId();
+
+    const { error } = await supabase
+      .from('follows')
+      .delete()
+      .eq('follower_id', followerId)
+      .eq('followee_id', followeeId);
+
+    if (error) {
+      console.error('Error unfollowing user:', error);
+      throw new Error(`Failed to unfollow user: ${error.message}`);
+    }
+
+    return { followeeId, isFollowing: false };
+  } catch (error) {
+    console.error('Error in unfollowUser:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while unfollowing user');
+  }
+};
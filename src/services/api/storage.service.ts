@@ -0,0 +1,316 @@
+/**
+ * Storage Service
+ *
+ * Uploads video files from the device to Supabase Storage using the
+ * resumable (TUS) upload endpoint, so large clips are sent in chunks
+ * and interrupted uploads continue where they left off. Thumbnails are
+ * small enough to be sent in one request.
+ */
+
+import { File } from 'expo-file-system';
+import { supabase, SUPABASE_URL } from '../../config/supabase.config';
+import type { UploadProgress, UploadedVideoFile } from '../../types/video.types';
+
+/**
+ * Storage bucket uploaded videos are stored in
+ */
+export const VIDEO_BUCKET = 'videos';
+
+/**
+ * Storage bucket video thumbnails are stored in
+ */
+export const THUMBNAIL_BUCKET = 'thumbnails';
+
+// Supabase requires resumable uploads to be sent in 6 MB chunks
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const MAX_CHUNK_RETRIES = 3;
+const TUS_VERSION = '1.0.0';
+
+/**
+ * Upload session that can be resumed after a failure
+ */
+interface UploadSession {
+  uploadUrl: string;
+  storagePath: string;
+}
+
+/**
+ * Parameters for uploading a video file
+ */
+interface UploadVideoFileParams {
+  fileUri: string;
+  userId: string;
+  mimeType?: string;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+// Unfinished uploads keyed by file fingerprint, so retrying the same file resumes it
+const uploadSessions = new Map<string, UploadSession>();
+
+/**
+ * Wait before retrying a failed chunk
+ */
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Encode TUS Upload-Metadata header (comma separated "key base64(value)" pairs)
+ */
+const encodeMetadata = (metadata: Record<string, string>): string => {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(value)}`)
+    .join(',');
+};
+
+/**
+ * Get the access token of the signed in user
+ *
+ * Fetched for every request, so a long or resumed upload picks up the
+ * refreshed token instead of failing once the first one expires.
+ */
+const getAccessToken = async (): Promise<string> => {
+  const { data: { session }, error } = await supabase.auth.getSession();
+
+  if (error || !session) {
+    throw new Error('You must be signed in to upload videos');
+  }
+
+  return session.access_token;
+};
+
+/**
+ * Build the storage path for a new upload
+ */
+const buildStoragePath = (userId: string, mimeType: string): string => {
+  const extension = mimeType === 'video/quicktime' ? 'mov' : 'mp4';
+  return `${userId}/${Date.now()}.${extension}`;
+};
+
+/**
+ * Create a resumable upload session
+ */
+const createUploadSession = async (
+  storagePath: string,
+  totalBytes: number,
+  mimeType: string
+): Promise<string> => {
+  const response = await fetch(`${SUPABASE_URL}/storage/v1/upload/resumable`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${await getAccessToken()}`,
+      'Tus-Resumable': TUS_VERSION,
+      'Upload-Length': String(totalBytes),
+      'Upload-Metadata': encodeMetadata({
+        bucketName: VIDEO_BUCKET,
+        objectName: storagePath,
+        contentType: mimeType,
+        cacheControl: '3600',
+      }),
+    },
+  });
+
+  const uploadUrl = response.headers.get('Location');
+
+  if (!response.ok || !uploadUrl) {
+    throw new Error(`Failed to start upload: ${response.status}`);
+  }
+
+  return uploadUrl;
+};
+
+/**
+ * Ask the server how many bytes of an upload it has received
+ */
+const getUploadOffset = async (uploadUrl: string): Promise<number> => {
+  const response = await fetch(uploadUrl, {
+    method: 'HEAD',
+    headers: {
+      Authorization: `Bearer ${await getAccessToken()}`,
+      'Tus-Resumable': TUS_VERSION,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to resume upload: ${response.status}`);
+  }
+
+  return Number(response.headers.get('Upload-Offset') || 0);
+};
+
+/**
+ * Send a single chunk and return the new upload offset
+ */
+const uploadChunk = async (
+  uploadUrl: string,
+  offset: number,
+  chunk: Uint8Array<ArrayBuffer>
+): Promise<number> => {
+  const response = await fetch(uploadUrl, {
+    method: 'PATCH',
+    headers: {
+      Authorization: `Bearer ${await getAccessToken()}`,
+      'Tus-Resumable': TUS_VERSION,
+      'Upload-Offset': String(offset),
+      'Content-Type': 'application/offset+octet-stream',
+    },
+    body: chunk,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to upload chunk: ${response.status}`);
+  }
+
+  return Number(response.headers.get('Upload-Offset') || offset + chunk.length);
+};
+
+/**
+ * Upload a video file from the device to storage
+ *
+ * The file is sent in chunks with progress reported after each one.
+ * Failed chunks are retried with backoff from the offset the server
+ * confirms; if the upload still fails, calling this again with the
+ * same file resumes the unfinished upload.
+ *
+ * @param params - File to upload, owner and optional progress callback
+ * @returns Promise with the storage path and public URL of the video
+ * @throws Error if the upload fails
+ */
+export const uploadVideoFile = async ({
+  fileUri,
+  userId,
+  mimeType = 'video/mp4',
+  onProgress,
+}: UploadVideoFileParams): Promise<UploadedVideoFile> => {
+  try {
+    const file = new File(fileUri);
+
+    if (!file.exists) {
+      throw new Error('Selected video could not be found on the device');
+    }
+
+    const totalBytes = file.size;
+    const fingerprint = `${fileUri}:${totalBytes}`;
+
+    let session = uploadSessions.get(fingerprint);
+    let offset = 0;
+
+    if (session) {
+      offset = await getUploadOffset(session.uploadUrl);
+    } else {
+      const storagePath = buildStoragePath(userId, mimeType);
+      const uploadUrl = await createUploadSession(storagePath, totalBytes, mimeType);
+      session = { uploadUrl, storagePath };
+      uploadSessions.set(fingerprint, session);
+    }
+
+    const reportProgress = () => {
+      onProgress?.({
+        bytesUploaded: offset,
+        totalBytes,
+        percentage: totalBytes > 0 ? Math.round((offset / totalBytes) * 100) : 100,
+      });
+    };
+
+    reportProgress();
+
+    const handle = file.open();
+    let failedAttempts = 0;
+
+    try {
+      while (offset < totalBytes) {
+        handle.offset = offset;
+        const chunk = handle.readBytes(Math.min(CHUNK_SIZE, totalBytes - offset));
+
+        try {
+          offset = await uploadChunk(session.uploadUrl, offset, chunk);
+          failedAttempts = 0;
+          reportProgress();
+        } catch (chunkError) {
+          failedAttempts += 1;
+
+          if (failedAttempts > MAX_CHUNK_RETRIES) {
+            throw chunkError;
+          }
+
+          console.warn(`Chunk upload failed, retrying (${failedAttempts}/${MAX_CHUNK_RETRIES})`);
+          await wait(1000 * 2 ** failedAttempts);
+          offset = await getUploadOffset(session.uploadUrl);
+        }
+      }
+    } finally {
+      handle.close();
+    }
+
+    uploadSessions.delete(fingerprint);
+
+    const { data } = supabase.storage.from(VIDEO_BUCKET).getPublicUrl(session.storagePath);
+
+    return {
+      storagePath: session.storagePath,
+      publicUrl: data.publicUrl,
+    };
+  } catch (error) {
+    console.error('Error in uploadVideoFile:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while uploading video');
+  }
+};
+
+/**
+ * Delete an uploaded video file from storage
+ *
+ * @param storagePath - Path of the file in the videos bucket
+ * @throws Error if the delete fails
+ */
+export const deleteVideoFile = async (storagePath: string): Promise<void> => {
+  try {
+    const { error } = await supabase.storage.from(VIDEO_BUCKET).remove([storagePath]);
+
+    if (error) {
+      console.error('Error deleting video file:', error);
+      throw new Error(`Failed to delete video file: ${error.message}`);
+    }
+  } catch (error) {
+    console.error('Error in deleteVideoFile:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while deleting video file');
+  }
+};
+
+/**
+ * Upload a video thumbnail from the device to storage
+ *
+ * @param userId - ID of the signed in user
+ * @param fileUri - Local URI of the JPEG frame
+ * @returns Promise with the public URL of the thumbnail
+ * @throws Error if the file is missing or the upload fails
+ */
+export const uploadThumbnail = async (userId: string, fileUri: string): Promise<string> => {
+  try {
+    const file = new File(fileUri);
+
+    if (!file.exists) {
+      throw new Error('Thumbnail could not be found on the device');
+    }
+
+    const storagePath = `${userId}/${Date.now()}.jpg`;
+
+    const { error } = await supabase.storage
+      .from(THUMBNAIL_BUCKET)
+      .upload(storagePath, await file.bytes(), { contentType: 'image/jpeg' });
+
+    if (error) {
+      console.error('Error uploading thumbnail:', error);
+      throw new Error(`Failed to upload thumbnail: ${error.message}`);
+    }
+
+    const { data } = supabase.storage.from(THUMBNAIL_BUCKET).getPublicUrl(storagePath);
+    return data.publicUrl;
+  } catch (error) {
+    console.error('Error in uploadThumbnail:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while uploading thumbnail');
+  }
+};
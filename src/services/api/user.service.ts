@@ -0,0 +1,187 @@
+/**
+ * User Service
+ *
+ * Service functions for reading and editing user profiles and avatars
+ */
+
+import { File } from 'expo-file-system';
+import { supabase } from '../../config/supabase.config';
+import type { ProfileUpdateInput, User, UserUpdate } from '../../types/user.types';
+
+/**
+ * Storage bucket profile pictures are stored in
+ */
+export const AVATAR_BUCKET = 'avatars';
+
+/**
+ * Message used when a username belongs to another user
+ */
+export const USERNAME_TAKEN_MESSAGE = 'That username is already taken';
+
+/**
+ * Fetch a user's public profile
+ *
+ * @param userId - User ID
+ * @returns Promise with the user's profile
+ * @throws Error if the fetch fails or the user does not exist
+ */
+export const fetchUserProfile = async (userId: string): Promise<User> => {
+  try {
+    const { data, error } = await supabase
+      .from('users')
+      .select('*')
+      .eq('id', userId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching user profile:', error);
+      throw new Error(`Failed to fetch profile: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('User not found');
+    }
+
+    return data as User;
+  } catch (error) {
+    console.error('Error in fetchUserProfile:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while fetching profile');
+  }
+};
+
+/**
+ * Check whether a username is free to use
+ *
+ * @param username - Username to check
+ * @param currentUserId - User who would take the username (their own username counts as available)
+ * @returns Promise resolving to true if no other user has the username
+ * @throws Error if the check fails
+ */
+export const isUsernameAvailable = async (
+  username: string,
+  currentUserId?: string
+): Promise<boolean> => {
+  try {
+    // Runs through an RPC so it also works before signing up
+    const { data, error } = await supabase.rpc('is_username_available', {
+      p_username: username.trim(),
+      p_user_id: currentUserId ?? null,
+    });
+
+    if (error) {
+      console.error('Error checking username:', error);
+      throw new Error(`Failed to check username: ${error.message}`);
+    }
+
+    return data as boolean;
+  } catch (error) {
+    console.error('Error in isUsernameAvailable:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while checking username');
+  }
+};
+
+/**
+ * Update the signed in user's profile
+ *
+ * @param userId - ID of the signed in user
+ * @param input - Profile fields to change
+ * @returns Promise with the updated profile
+ * @throws Error if the username is taken or invalid, or the update fails
+ */
+export const updateProfile = async (
+  userId: string,
+  input: ProfileUpdateInput
+): Promise<User> => {
+  try {
+    const updates: UserUpdate = {};
+
+    if (input.username !== undefined) {
+      updates.username = input.username.trim();
+    }
+    if (input.bio !== undefined) {
+      updates.bio = input.bio?.trim() || null;
+    }
+    if (input.avatarUrl !== undefined) {
+      updates.avatar_url = input.avatarUrl;
+    }
+
+    const { data, error } = await supabase
+      .from('users')
+      .update(updates)
+      .eq('id', userId)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error updating profile:', error);
+
+      // Unique violation on username
+      if (error.code === '23505') {
+        throw new Error(USERNAME_TAKEN_MESSAGE);
+      }
+
+      // Check violation on username format or bio length
+      if (error.code === '23514') {
+        throw new Error('Please check your username and bio and try again');
+      }
+
+      throw new Error(`Failed to update profile: ${error.message}`);
+    }
+
+    return data as User;
+  } catch (error) {
+    console.error('Error in updateProfile:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while updating profile');
+  }
+};
+
+/**
+ * Upload a profile picture for a user
+ *
+ * Each upload gets a new path so clients never show a cached old avatar.
+ *
+ * @param userId - ID of the signed in user
+ * @param fileUri - Local URI of the (already cropped and resized) image
+ * @param mimeType - MIME type of the image
+ * @returns Promise with the public URL of the uploaded avatar
+ * @throws Error if the file is missing or the upload fails
+ */
+export const uploadAvatar = async (
+  userId: string,
+  fileUri: string,
+  mimeType = 'image/jpeg'
+): Promise<string> => {
+  try {
+    const file = new File(fileUri);
+
+    if (!file.exists) {
+      throw new Error('Selected image could not be found on the device');
+    }
+
+    const extension = mimeType === 'image/png' ? 'png' : mimeType === 'image/webp' ? 'webp' : 'jpg';
+    const storagePath = `${userId}/avatar-${Date.now()}.${extension}`;
+
+    const { error } = await supabase.storage
+      .from(AVATAR_BUCKET)
+      .upload(storagePath, await file.bytes(), { contentType: mimeType });
+
+    if (error) {
+      console.error('Error uploading avatar:', error);
+      throw new Error(`Failed to upload profile picture: ${error.message}`);
+    }
+
+    const { data } = supabase.storage.from(AVATAR_BUCKET).getPublicUrl(storagePath);
+    return data.publicUrl;
+  } catch (error) {
+    console.error('Error in uploadAvatar:', error);
+    throw error instanceof Error
+      ? error
+      : new Error('An unexpected error occurred while uploading profile picture');
+  }
+};
@@ -2,45 +2,144 @@
  * Video Service
  * 
  * Handles all video-related API operations including fetching videos,
- * updating views, and managing likes.
+ * creating uploaded videos, recording views, and managing likes.
  */
 
 import { supabase } from '../../config/supabase.config';
-import type { Video, VideoWithUser, VideoPaginationParams, VideoUpdate } from '../../types/video.types';
+import type {
+  VideoInsert,
+  VideoMetadata,
+  VideoFeedItem,
+  VideoWithUser,
+  VideoPaginationParams,
+  VideoCursor,
+  VideoUpdate,
+  VideoViewInput,
+  ViewRecordResult,
+  LikeToggleResult,
+} from '../../types/video.types';
+import type { PaginatedResponse } from '../../types/api.types';
 
 /**
- * Fetch videos with pagination and optional user data
+ * Encode the position of a video as an opaque pagination cursor
+ */
+const encodeCursor = (cursor: VideoCursor): string => JSON.stringify(cursor);
+
+/**
+ * Decode a pagination cursor created by encodeCursor
+ */
+const decodeCursor = (cursor: string): VideoCursor => {
+  try {
+    return JSON.parse(cursor) as VideoCursor;
+  } catch {
+    throw new Error('Invalid pagination cursor');
+  }
+};
+
+/**
+ * Mark which videos the signed in user has liked
+ * 
+ * @param videos - Videos to annotate
+ * @returns Promise with the videos and their isLiked flag
+ */
+const attachLikeStatus = async (videos: VideoWithUser[]): Promise<VideoFeedItem[]> => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session || videos.length === 0) {
+    return videos.map((video) => ({ ...video, isLiked: false }));
+  }
+
+  const { data, error } = await supabase
+    .from('video_likes')
+    .select('video_id')
+    .eq('user_id', session.user.id)
+    .in('video_id', videos.map((video) => video.id));
+
+  if (error) {
+    console.error('Error fetching like status:', error);
+    throw new Error(`Failed to fetch like status: ${error.message}`);
+  }
+
+  const likedIds = new Set((data || []).map((like) => like.video_id));
+
+  return videos.map((video) => ({ ...video, isLiked: likedIds.has(video.id) }));
+};
+
+/**
+ * Fetch a page of videos with user data
  * 
- * @param params - Pagination and sorting parameters
- * @returns Promise with array of videos
+ * Uses keyset pagination on the sort column and `id`: pass the previous
+ * page's `meta.nextCursor` as `cursor` to fetch the following page.
+ * 
+ * @param params - Page size, cursor and sorting parameters
+ * @returns Promise with a page of videos, including the current user's like status
  */
 export const fetchVideos = async (
   params: VideoPaginationParams = {}
-): Promise<VideoWithUser[]> => {
+): Promise<PaginatedResponse<VideoFeedItem>> => {
   try {
     const {
+      userId,
+      feed = 'forYou',
       limit = 10,
-      offset = 0,
+      cursor,
       orderBy = 'created_at',
       orderDirection = 'desc',
     } = params;
+    const ascending = orderDirection === 'asc';
 
-    // Query videos with user information
-    const { data, error } = await supabase
-      .from('videos')
+    // Query videos with user information; the Following feed is filtered
+    // by the database so the follow list never has to be sent
+    let query = (feed === 'following' ? supabase.rpc('followed_videos') : supabase.from('videos'))
       .select(`
         *,
         user:users(*)
-      `)
-      .order(orderBy, { ascending: orderDirection === 'asc' })
-      .range(offset, offset + limit - 1);
+      `);
+
+    if (userId) {
+      query = query.eq('user_id', userId);
+    }
+
+    // Videos whose length is not known yet cannot be placed by duration
+    if (orderBy === 'duration_ms') {
+      query = query.not('duration_ms', 'is', null);
+    }
+
+    if (cursor) {
+      // Continue strictly after the last video of the previous page
+      const { value, id } = decodeCursor(cursor);
+      const operator = ascending ? 'gt' : 'lt';
+      query = query.or(
+        `${orderBy}.${operator}."${value}",and(${orderBy}.eq."${value}",id.${operator}.${id})`
+      );
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const { data, error } = await query
+      .order(orderBy, { ascending })
+      .order('id', { ascending })
+      .limit(limit + 1);
 
     if (error) {
       console.error('Error fetching videos:', error);
       throw new Error(`Failed to fetch videos: ${error.message}`);
     }
 
-    return data as VideoWithUser[];
+    const rows = (data || []) as VideoWithUser[];
+    const hasMore = rows.length > limit;
+    const pageVideos = rows.slice(0, limit);
+    const lastVideo = pageVideos[pageVideos.length - 1];
+
+    return {
+      data: await attachLikeStatus(pageVideos),
+      meta: {
+        pageSize: limit,
+        hasMore,
+        nextCursor: hasMore && lastVideo
+          ? encodeCursor({ value: lastVideo[orderBy] as string | number, id: lastVideo.id })
+          : null,
+      },
+    };
   } catch (error) {
     console.error('Error in fetchVideos:', error);
     throw error;
@@ -51,9 +150,9 @@ export const fetchVideos = async (
  * Fetch a single video by ID with user data
  * 
  * @param id - Video ID
- * @returns Promise with video data
+ * @returns Promise with video data, including the current user's like status
  */
-export const fetchVideoById = async (id: string): Promise<VideoWithUser> => {
+export const fetchVideoById = async (id: string): Promise<VideoFeedItem> => {
   try {
     const { data, error } = await supabase
       .from('videos')
@@ -73,7 +172,8 @@ export const fetchVideoById = async (id: string): Promise<VideoWithUser> => {
       throw new Error('Video not found');
     }
 
-    return data as VideoWithUser;
+    const [video] = await attachLikeStatus([data as VideoWithUser]);
+    return video;
   } catch (error) {
     console.error('Error in fetchVideoById:', error);
     throw error;
@@ -81,91 +181,172 @@ export const fetchVideoById = async (id: string): Promise<VideoWithUser> => {
 };
 
 /**
- * Increment view count for a video
+ * Create a video record for an uploaded video
  * 
- * @param videoId - Video ID
- * @returns Promise with updated video data
+ * @param video - Video data, including the URL of the uploaded file
+ * @returns Promise with the created video and its user data
  */
-export const incrementViews = async (videoId: string): Promise<Video> => {
+export const createVideo = async (video: VideoInsert): Promise<VideoWithUser> => {
   try {
-    // First, get the current video data
-    const { data: currentVideo, error: fetchError } = await supabase
+    const { data, error } = await supabase
       .from('videos')
-      .select('views')
-      .eq('id', videoId)
+      .insert(video)
+      .select(`
+        *,
+        user:users(*)
+      `)
       .single();
 
-    if (fetchError) {
-      console.error('Error fetching video for view increment:', fetchError);
-      throw new Error(`Failed to fetch video: ${fetchError.message}`);
+    if (error) {
+      console.error('Error creating video:', error);
+      throw new Error(`Failed to create video: ${error.message}`);
     }
 
-    // Increment the views
-    const newViews = ((currentVideo as any)?.views || 0) + 1;
+    return data as VideoWithUser;
+  } catch (error) {
+    console.error('Error in createVideo:', error);
+    throw error;
+  }
+};
 
-    const { data, error } = await (supabase as any)
-      .from('videos')
-      .update({ views: newViews })
-      .eq('id', videoId)
-      .select()
-      .single();
+/**
+ * Fill in the duration and resolution of the signed in user's own video
+ * as read by the player. The server only sets values that are still
+ * missing, so this is used for videos that were added without metadata.
+ * 
+ * @param videoId - Video ID
+ * @param metadata - Duration and resolution reported by the player
+ */
+export const recordVideoMetadata = async (
+  videoId: string,
+  metadata: Required<Pick<VideoMetadata, 'durationMs' | 'width' | 'height'>>
+): Promise<void> => {
+  try {
+    const { error } = await supabase.rpc('record_video_metadata', {
+      target_video_id: videoId,
+      p_duration_ms: Math.round(metadata.durationMs),
+      p_width: Math.round(metadata.width),
+      p_height: Math.round(metadata.height),
+    });
 
     if (error) {
-      console.error('Error incrementing views:', error);
-      throw new Error(`Failed to increment views: ${error.message}`);
+      console.error('Error recording video metadata:', error);
+      throw new Error(`Failed to record video metadata: ${error.message}`);
     }
-
-    return data as Video;
   } catch (error) {
-    console.error('Error in incrementViews:', error);
+    console.error('Error in recordVideoMetadata:', error);
     throw error;
   }
 };
 
 /**
- * Toggle like status for a video
- * This function increments or decrements the like count
+ * Record a watch session for a video
+ * The server counts it as a view only once the viewer has watched long
+ * enough, and at most once per user per video within a time window.
  * 
- * @param videoId - Video ID
- * @param isLiked - Current like status (true if currently liked, false otherwise)
- * @returns Promise with updated video data
+ * @param view - Video ID, watch duration and completion percentage
+ * @returns Promise with whether the view was counted and the new view count
  */
-export const toggleLike = async (
-  videoId: string,
-  isLiked: boolean
-): Promise<Video> => {
+export const recordView = async (view: VideoViewInput): Promise<ViewRecordResult> => {
   try {
-    // First, get the current video data
-    const { data: currentVideo, error: fetchError } = await supabase
-      .from('videos')
-      .select('likes')
-      .eq('id', videoId)
-      .single();
+    const { data, error } = await supabase.rpc('record_video_view', {
+      target_video_id: view.videoId,
+      watch_duration_ms: Math.round(view.watchDurationMs),
+      completion_percentage: Math.min(100, Math.max(0, view.completionPercentage)),
+    });
 
-    if (fetchError) {
-      console.error('Error fetching video for like toggle:', fetchError);
-      throw new Error(`Failed to fetch video: ${fetchError.message}`);
+    if (error) {
+      console.error('Error recording view:', error);
+      throw new Error(`Failed to record view: ${error.message}`);
     }
 
-    // Calculate new likes count
-    const currentLikes = (currentVideo as any)?.likes || 0;
-    const newLikes = isLiked ? Math.max(0, currentLikes - 1) : currentLikes + 1;
+    const result = Array.isArray(data) ? data[0] : data;
 
-    const { data, error } = await (supabase as any)
-      .from('videos')
-      .update({ likes: newLikes })
-      .eq('id', videoId)
-      .select()
-      .single();
+    if (!result) {
+      throw new Error('Failed to record view: no result returned');
+    }
+
+    return {
+      videoId: view.videoId,
+      counted: result.counted,
+      views: result.views,
+    };
+  } catch (error) {
+    console.error('Error in recordView:', error);
+    throw error;
+  }
+};
+
+/**
+ * Toggle the current user's like on a video
+ * The like is recorded per user and the like count is updated atomically
+ * on the server, so concurrent toggles cannot lose updates.
+ * 
+ * @param videoId - Video ID
+ * @returns Promise with the new like status and like count
+ */
+export const toggleLike = async (videoId: string): Promise<LikeToggleResult> => {
+  try {
+    const { data, error } = await supabase.rpc('toggle_video_like', {
+      target_video_id: videoId,
+    });
 
     if (error) {
       console.error('Error toggling like:', error);
       throw new Error(`Failed to toggle like: ${error.message}`);
     }
 
-    return data as Video;
+    const result = Array.isArray(data) ? data[0] : data;
+
+    if (!result) {
+      throw new Error('Failed to toggle like: no result returned');
+    }
+
+    return {
+      videoId,
+      isLiked: result.is_liked,
+      likes: result.likes,
+    };
   } catch (error) {
     console.error('Error in toggleLike:', error);
     throw error;
   }
 };
+
+/**
+ * Like or unlike a video for the current user
+ * Unlike toggleLike, repeating the call has no further effect, so it is
+ * safe to replay after a request whose response was lost.
+ * 
+ * @param videoId - Video ID
+ * @param liked - Whether the video should end up liked
+ * @returns Promise with the new like status and like count
+ */
+export const setLike = async (videoId: string, liked: boolean): Promise<LikeToggleResult> => {
+  try {
+    const { data, error } = await supabase.rpc('set_video_like', {
+      target_video_id: videoId,
+      liked,
+    });
+
+    if (error) {
+      console.error('Error setting like:', error);
+      throw new Error(`Failed to ${liked ? 'like' : 'unlike'} video: ${error.message}`);
+    }
+
+    const result = Array.isArray(data) ? data[0] : data;
+
+    if (!result) {
+      throw new Error('Failed to set like: no result returned');
+    }
+
+    return {
+      videoId,
+      isLiked: result.is_liked,
+      likes: result.likes,
+    };
+  } catch (error) {
+    console.error('Error in setLike:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,177 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useOutboxStore } from '../outboxStore';
+import { useAuthStore } from '../authStore';
+import type { User } from '../../types/user.types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const NOW = new Date('2026-05-01T12:00:00.000Z').getTime();
+
+beforeEach(() => {
+  jest.spyOn(Date, 'now').mockReturnValue(NOW);
+  useAuthStore.setState({ user: { id: 'user-1' } as User });
+  useOutboxStore.setState({ entries: [], isOnline: true });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('useOutboxStore', () => {
+  describe('enqueue', () => {
+    it('queues mutations for the signed in user in order', () => {
+      const { enqueue } = useOutboxStore.getState();
+
+      enqueue({ type: 'like', videoId: 'video-1', liked: true });
+      enqueue({ type: 'view', view: { videoId: 'video-2', watchDurationMs: 4000, completionPercentage: 50 } });
+
+      const { entries } = useOutboxStore.getState();
+      expect(entries.map((entry) => entry.type)).toEqual(['like', 'view']);
+      expect(entries[0]).toMatchObject({
+        userId: 'user-1',
+        createdAt: NOW,
+        attempts: 0,
+        nextAttemptAt: NOW,
+      });
+    });
+
+    it('replaces a waiting like of the same video', () => {
+      const { enqueue } = useOutboxStore.getState();
+
+      enqueue({ type: 'like', videoId: 'video-1', liked: true });
+      enqueue({ type: 'like', videoId: 'video-2', liked: true });
+      enqueue({ type: 'like', videoId: 'video-1', liked: false });
+
+      const { entries } = useOutboxStore.getState();
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({ videoId: 'video-2', liked: true });
+      expect(entries[1]).toMatchObject({ videoId: 'video-1', liked: false });
+    });
+
+    it('does not let other mutations replace a like', () => {
+      const { enqueue } = useOutboxStore.getState();
+
+      enqueue({ type: 'like', videoId: 'video-1', liked: true });
+      enqueue({ type: 'view', view: { videoId: 'video-1', watchDurationMs: 4000, completionPercentage: 50 } });
+      enqueue({
+        type: 'comment',
+        input: { videoId: 'video-1', body: 'Nice!' },
+        optimisticId: 'optimistic-1',
+      });
+
+      expect(useOutboxStore.getState().entries.map((entry) => entry.type)).toEqual([
+        'like',
+        'view',
+        'comment',
+      ]);
+    });
+
+    it('ignores mutations while signed out', () => {
+      useAuthStore.setState({ user: null });
+
+      useOutboxStore.getState().enqueue({ type: 'like', videoId: 'video-1', liked: true });
+
+      expect(useOutboxStore.getState().entries).toHaveLength(0);
+    });
+  });
+
+  describe('retryLater', () => {
+    const enqueueLike = () => {
+      useOutboxStore.getState().enqueue({ type: 'like', videoId: 'video-1', liked: true });
+      return useOutboxStore.getState().entries[0].id;
+    };
+
+    it('doubles the delay on every failed attempt', () => {
+      const id = enqueueLike();
+      const delays: number[] = [];
+
+      for (let attempt = 0; attempt < 4; attempt++) {
+        useOutboxStore.getState().retryLater(id);
+        delays.push(useOutboxStore.getState().entries[0].nextAttemptAt - NOW);
+      }
+
+      expect(delays).toEqual([2000, 4000, 8000, 16000]);
+      expect(useOutboxStore.getState().entries[0].attempts).toBe(4);
+    });
+
+    it('waits at most five minutes between retries', () => {
+      const id = enqueueLike();
+
+      for (let attempt = 0; attempt < 20; attempt++) {
+        useOutboxStore.getState().retryLater(id);
+      }
+
+      expect(useOutboxStore.getState().entries[0].nextAttemptAt - NOW).toBe(5 * 60 * 1000);
+    });
+
+    it('leaves other entries alone', () => {
+      const id = enqueueLike();
+      useOutboxStore.getState().enqueue({ type: 'like', videoId: 'video-2', liked: true });
+
+      useOutboxStore.getState().retryLater(id);
+
+      expect(useOutboxStore.getState().entries[1]).toMatchObject({
+        attempts: 0,
+        nextAttemptAt: NOW,
+      });
+    });
+  });
+
+  describe('retryNow', () => {
+    it('makes every entry due', () => {
+      useOutboxStore.getState().enqueue({ type: 'like', videoId: 'video-1', liked: true });
+      useOutboxStore.getState().retryLater(useOutboxStore.getState().entries[0].id);
+
+      useOutboxStore.getState().retryNow();
+
+      expect(useOutboxStore.getState().entries[0].nextAttemptAt).toBe(NOW);
+    });
+  });
+
+  describe('restoreOutbox', () => {
+    const storedLike = {
+      type: 'like',
+      videoId: 'video-1',
+      liked: true,
+      id: 'stored-1',
+      userId: 'user-1',
+      createdAt: NOW - 1000,
+      attempts: 0,
+      nextAttemptAt: NOW - 1000,
+    };
+
+    beforeEach(async () => {
+      await AsyncStorage.setItem('outbox_entries', JSON.stringify([storedLike]));
+    });
+
+    it('keeps entries queued before the restore after the stored ones', async () => {
+      useOutboxStore.getState().enqueue({ type: 'like', videoId: 'video-2', liked: true });
+
+      await useOutboxStore.getState().restoreOutbox();
+
+      const { entries } = useOutboxStore.getState();
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({ id: 'stored-1' });
+      expect(entries[1]).toMatchObject({ videoId: 'video-2' });
+    });
+
+    it('does not add entries that are already queued', async () => {
+      await useOutboxStore.getState().restoreOutbox();
+      await useOutboxStore.getState().restoreOutbox();
+
+      expect(useOutboxStore.getState().entries.map((entry) => entry.id)).toEqual(['stored-1']);
+    });
+
+    it('drops a stored like replaced by one queued since launch', async () => {
+      useOutboxStore.getState().enqueue({ type: 'like', videoId: 'video-1', liked: false });
+
+      await useOutboxStore.getState().restoreOutbox();
+
+      const { entries } = useOutboxStore.getState();
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ videoId: 'video-1', liked: false });
+    });
+  });
+});
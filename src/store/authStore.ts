@@ -7,11 +7,15 @@
 
 import { create } from 'zustand';
 import * as SecureStore from 'expo-secure-store';
-import type { User, Session } from '../types';
+import type { User, Session, UserRole } from '../types';
 import { validateAndRefreshSession } from '../services/api/auth.service';
 
 /**
  * Storage keys for secure persistence
+ *
+ * The session itself is persisted by the Supabase client (see
+ * config/secureStorage.ts). SESSION is only read once to move sessions
+ * saved by older app versions over to the client.
  */
 const STORAGE_KEYS = {
   USER: 'auth_user',
@@ -24,12 +28,18 @@ const STORAGE_KEYS = {
 interface AuthStore {
   user: User | null;
   session: Session | null;
+  role: UserRole | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  isPasswordRecovery: boolean;
+  needsProfile: boolean;
   setAuth: (user: User | null, session: Session | null) => Promise<void>;
+  setUser: (user: User) => Promise<void>;
+  setSession: (session: Session | null) => void;
   clearAuth: () => Promise<void>;
   restoreAuth: () => Promise<void>;
   setLoading: (loading: boolean) => void;
+  setPasswordRecovery: (isPasswordRecovery: boolean) => void;
 }
 
 /**
@@ -73,11 +83,17 @@ const deleteFromSecureStore = async (key: string): Promise<void> => {
 export const useAuthStore = create<AuthStore>((set) => ({
   user: null,
   session: null,
+  role: null,
   isAuthenticated: false,
   isLoading: true,
+  isPasswordRecovery: false,
+  needsProfile: false,
 
   /**
    * Set authentication state and persist to secure storage
+   *
+   * A session without a user means the account still needs a profile, so
+   * it is neither authenticated nor persisted.
    */
   setAuth: async (user: User | null, session: Session | null) => {
     try {
@@ -85,14 +101,16 @@ export const useAuthStore = create<AuthStore>((set) => ({
       set({
         user,
         session,
+        role: user?.role ?? null,
         isAuthenticated: Boolean(user && session),
         isLoading: false,
+        isPasswordRecovery: false,
+        needsProfile: Boolean(session && !user),
       });
 
       // Persist to secure storage
       if (user && session) {
         await saveToSecureStore(STORAGE_KEYS.USER, user);
-        await saveToSecureStore(STORAGE_KEYS.SESSION, session);
       }
     } catch (error) {
       console.error('Failed to set auth state:', error);
@@ -100,6 +118,25 @@ export const useAuthStore = create<AuthStore>((set) => ({
     }
   },
 
+  /**
+   * Replace the signed in user's profile (e.g. after editing it) and persist it
+   */
+  setUser: async (user: User) => {
+    try {
+      set({ user, role: user.role });
+      await saveToSecureStore(STORAGE_KEYS.USER, user);
+    } catch (error) {
+      console.error('Failed to update user:', error);
+    }
+  },
+
+  /**
+   * Replace the session after the Supabase client refreshed or updated it
+   */
+  setSession: (session: Session | null) => {
+    set({ session });
+  },
+
   /**
    * Clear authentication state and remove from secure storage
    */
@@ -109,13 +146,15 @@ export const useAuthStore = create<AuthStore>((set) => ({
       set({
         user: null,
         session: null,
+        role: null,
         isAuthenticated: false,
         isLoading: false,
+        isPasswordRecovery: false,
+        needsProfile: false,
       });
 
       // Remove from secure storage
       await deleteFromSecureStore(STORAGE_KEYS.USER);
-      await deleteFromSecureStore(STORAGE_KEYS.SESSION);
     } catch (error) {
       console.error('Failed to clear auth state:', error);
       set({ isLoading: false });
@@ -123,52 +162,46 @@ export const useAuthStore = create<AuthStore>((set) => ({
   },
 
   /**
-   * Restore authentication state from secure storage
+   * Restore authentication state from the Supabase client's persisted session
    * Should be called on app initialization
    */
   restoreAuth: async () => {
     try {
       set({ isLoading: true });
 
-      // Retrieve from secure storage
-      const storedSession = await getFromSecureStore<Session>(STORAGE_KEYS.SESSION);
+      // Hand a session saved by an older app version to the client, once
+      const legacySession = await getFromSecureStore<Session>(STORAGE_KEYS.SESSION);
+      if (legacySession) {
+        await deleteFromSecureStore(STORAGE_KEYS.SESSION);
+      }
 
-      // Validate and refresh session if needed
-      const { user, session } = await validateAndRefreshSession(storedSession);
+      // The client refreshes the session if it has expired
+      const { user, session } = await validateAndRefreshSession(legacySession);
 
-      if (user && session) {
-        // Session is valid, update storage with potentially refreshed session
+      if (user) {
         await saveToSecureStore(STORAGE_KEYS.USER, user);
-        await saveToSecureStore(STORAGE_KEYS.SESSION, session);
-
-        set({
-          user,
-          session,
-          isAuthenticated: true,
-          isLoading: false,
-        });
       } else {
-        // Session is invalid or expired, clear storage
         await deleteFromSecureStore(STORAGE_KEYS.USER);
-        await deleteFromSecureStore(STORAGE_KEYS.SESSION);
-
-        set({
-          user: null,
-          session: null,
-          isAuthenticated: false,
-          isLoading: false,
-        });
       }
+
+      set({
+        user,
+        session,
+        role: user?.role ?? null,
+        isAuthenticated: Boolean(user && session),
+        isLoading: false,
+        needsProfile: Boolean(session && !user),
+      });
     } catch (error) {
       console.error('Failed to restore auth state:', error);
       
       // Clear storage on error
       await deleteFromSecureStore(STORAGE_KEYS.USER);
-      await deleteFromSecureStore(STORAGE_KEYS.SESSION);
 
       set({
         user: null,
         session: null,
+        role: null,
         isAuthenticated: false,
         isLoading: false,
       });
@@ -181,4 +214,12 @@ export const useAuthStore = create<AuthStore>((set) => ({
   setLoading: (loading: boolean) => {
     set({ isLoading: loading });
   },
+
+  /**
+   * Mark that a password reset link was opened, so the reset password
+   * screen is shown until a new password is set
+   */
+  setPasswordRecovery: (isPasswordRecovery: boolean) => {
+    set({ isPasswordRecovery });
+  },
 }));
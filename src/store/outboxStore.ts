@@ -0,0 +1,207 @@
+/**
+ * Outbox Store
+ *
+ * Global state for likes, views and comments made while offline, using
+ * Zustand. Entries are persisted in AsyncStorage so they survive restarts
+ * until they are sent.
+ */
+
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { OutboxEntry, OutboxMutation } from '../types/outbox.types';
+import { useAuthStore } from './authStore';
+import { isNetworkError } from '../utils/errorHandler';
+
+/**
+ * Storage key for the persisted outbox
+ */
+const STORAGE_KEY = 'outbox_entries';
+
+/**
+ * Retry delays start here and double on every failed attempt
+ */
+const BASE_RETRY_DELAY = 2000;
+
+/**
+ * Longest wait between retries
+ */
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+/**
+ * Outbox store state interface
+ */
+interface OutboxStore {
+  entries: OutboxEntry[];
+  isOnline: boolean;
+  enqueue: (mutation: OutboxMutation) => void;
+  remove: (id: string) => void;
+  retryLater: (id: string) => void;
+  retryNow: () => void;
+  setOnline: (isOnline: boolean) => void;
+  restoreOutbox: () => Promise<void>;
+}
+
+/**
+ * Save the outbox to storage
+ */
+const saveEntries = async (entries: OutboxEntry[]): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error('Failed to save outbox:', error);
+  }
+};
+
+/**
+ * Whether a queued entry is superseded by a new mutation
+ *
+ * A new like of a video replaces any like still waiting for that video.
+ */
+const isSupersededBy = (entry: OutboxEntry, mutation: OutboxMutation): boolean =>
+  entry.type === 'like' && mutation.type === 'like' && entry.videoId === mutation.videoId;
+
+/**
+ * Create the outbox store with Zustand
+ */
+export const useOutboxStore = create<OutboxStore>((set, get) => {
+  // Nothing is persisted until the stored outbox was read, so entries
+  // queued at launch cannot overwrite it
+  let isRestored = false;
+
+  /**
+   * Replace the entries and persist them
+   */
+  const setEntries = (entries: OutboxEntry[]) => {
+    set({ entries });
+    if (isRestored) {
+      saveEntries(entries);
+    }
+  };
+
+  return {
+    entries: [],
+    isOnline: true,
+
+    /**
+     * Queue a mutation to be sent for the signed in user once the app is back online
+     */
+    enqueue: (mutation: OutboxMutation) => {
+      const userId = useAuthStore.getState().user?.id;
+      if (!userId) return;
+
+      const now = Date.now();
+      const entry = {
+        ...mutation,
+        id: `${now}-${Math.random().toString(36).slice(2, 10)}`,
+        userId,
+        createdAt: now,
+        attempts: 0,
+        nextAttemptAt: now,
+      } as OutboxEntry;
+
+      setEntries([
+        ...get().entries.filter((queued) => !isSupersededBy(queued, mutation)),
+        entry,
+      ]);
+    },
+
+    /**
+     * Remove an entry once it was sent or can never be sent
+     */
+    remove: (id: string) => {
+      const { entries } = get();
+      if (!entries.some((entry) => entry.id === id)) return;
+
+      setEntries(entries.filter((entry) => entry.id !== id));
+    },
+
+    /**
+     * Back off before trying an entry again
+     */
+    retryLater: (id: string) => {
+      setEntries(
+        get().entries.map((entry) =>
+          entry.id === id
+            ? {
+                ...entry,
+                attempts: entry.attempts + 1,
+                nextAttemptAt:
+                  Date.now() + Math.min(BASE_RETRY_DELAY * 2 ** entry.attempts, MAX_RETRY_DELAY),
+              }
+            : entry
+        )
+      );
+    },
+
+    /**
+     * Make every entry due now, e.g. after reconnecting
+     */
+    retryNow: () => {
+      const now = Date.now();
+      setEntries(get().entries.map((entry) => ({ ...entry, nextAttemptAt: now })));
+    },
+
+    /**
+     * Record whether the device has a connection
+     */
+    setOnline: (isOnline: boolean) => {
+      set({ isOnline });
+    },
+
+    /**
+     * Load entries queued before the app was closed
+     * Should be called on app initialization
+     */
+    restoreOutbox: async () => {
+      let restored: OutboxEntry[] = [];
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        restored = stored ? JSON.parse(stored) : [];
+      } catch (error) {
+        console.error('Failed to restore outbox:', error);
+      }
+
+      isRestored = true;
+
+      // Keep anything queued since launch after the restored entries. Entries
+      // already in the store are not added twice, and a like queued since
+      // launch replaces a restored like of the same video.
+      const queued = get().entries;
+      const queuedIds = new Set(queued.map((entry) => entry.id));
+      setEntries([
+        ...restored.filter(
+          (entry) =>
+            !queuedIds.has(entry.id) && !queued.some((later) => isSupersededBy(entry, later))
+        ),
+        ...queued,
+      ]);
+    },
+  };
+});
+
+/**
+ * Send a mutation now, unless it has to wait in the outbox
+ *
+ * Mutations wait while the device is offline, while older ones are still
+ * queued (so they are sent in order), or when sending fails for lack of a
+ * connection. Other errors are thrown as usual.
+ *
+ * @param send - Function that sends the mutation
+ * @returns Promise with the result, or null if the caller should queue the mutation
+ */
+export const sendOrDefer = async <T,>(send: () => Promise<T>): Promise<T | null> => {
+  const { isOnline, entries } = useOutboxStore.getState();
+
+  if (!isOnline || entries.length > 0) {
+    return null;
+  }
+
+  try {
+    return await send();
+  } catch (error) {
+    if (isNetworkError(error)) {
+      return null;
+    }
+    throw error;
+  }
+};
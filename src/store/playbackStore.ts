@@ -0,0 +1,58 @@
+/**
+ * Playback Store
+ *
+ * Global player settings using Zustand. The chosen quality is persisted in
+ * AsyncStorage so it applies to every video and survives restarts.
+ */
+
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { VideoQuality } from '../types/video.types';
+
+/**
+ * Storage key for the persisted quality
+ */
+const STORAGE_KEY = 'playback_quality';
+
+const QUALITIES: VideoQuality[] = ['auto', 'low', 'high'];
+
+/**
+ * Playback store state interface
+ */
+interface PlaybackStore {
+  quality: VideoQuality;
+  setQuality: (quality: VideoQuality) => void;
+  restorePlaybackSettings: () => Promise<void>;
+}
+
+/**
+ * Create the playback store with Zustand
+ */
+export const usePlaybackStore = create<PlaybackStore>((set) => ({
+  quality: 'auto',
+
+  /**
+   * Change the quality of every player and persist it
+   */
+  setQuality: (quality: VideoQuality) => {
+    set({ quality });
+    AsyncStorage.setItem(STORAGE_KEY, quality).catch((error) => {
+      console.error('Failed to save playback quality:', error);
+    });
+  },
+
+  /**
+   * Load the quality chosen before the app was closed
+   * Should be called on app initialization
+   */
+  restorePlaybackSettings: async () => {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored && QUALITIES.includes(stored as VideoQuality)) {
+        set({ quality: stored as VideoQuality });
+      }
+    } catch (error) {
+      console.error('Failed to restore playback quality:', error);
+    }
+  },
+}));
@@ -0,0 +1,38 @@
+/**
+ * Account Type Definitions
+ *
+ * Types related to exporting and deleting a user's account
+ */
+
+import type { Database } from './database.types';
+import type { User } from './user.types';
+import type { Video } from './video.types';
+import type { Comment } from './comment.types';
+import type { LeaderboardEntry } from './leaderboard.types';
+import type { JudgeScore } from './judging.types';
+import type { Follow } from './social.types';
+
+/**
+ * Video the user liked, and when
+ */
+export type VideoLike = Database['public']['Tables']['video_likes']['Row'];
+
+/**
+ * One session of the user watching a video
+ */
+export type VideoViewEvent = Database['public']['Tables']['video_views']['Row'];
+
+/**
+ * Everything the app stores about a user, as written to the export file
+ */
+export interface AccountExport {
+  exported_at: string;
+  profile: User;
+  videos: Video[];
+  likes: VideoLike[];
+  video_views: VideoViewEvent[];
+  comments: Comment[];
+  leaderboard_entries: LeaderboardEntry[];
+  judge_scores: JudgeScore[];
+  follows: Follow[];
+}
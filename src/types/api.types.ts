@@ -35,12 +35,16 @@ export interface SupabaseError {
 
 /**
  * Pagination metadata
+ * 
+ * Offset-paged responses report `total` and `page`; cursor-paged
+ * responses report `nextCursor` to pass back for the following page.
  */
 export interface PaginationMeta {
-  total: number;
-  page: number;
+  total?: number;
+  page?: number;
   pageSize: number;
   hasMore: boolean;
+  nextCursor?: string | null;
 }
 
 /**
@@ -0,0 +1,61 @@
+/**
+ * Comment Type Definitions
+ * 
+ * Types related to comments and threaded replies on videos
+ */
+
+import type { Database } from './database.types';
+import type { User } from './user.types';
+
+/**
+ * Comment from the database
+ */
+export type Comment = Database['public']['Tables']['comments']['Row'];
+
+/**
+ * Data required to create a new comment
+ */
+export type CommentInsert = Database['public']['Tables']['comments']['Insert'];
+
+/**
+ * Data that can be updated for a comment
+ */
+export type CommentUpdate = Database['public']['Tables']['comments']['Update'];
+
+/**
+ * Comment with author information populated
+ */
+export interface CommentWithUser extends Comment {
+  user?: User;
+  isPending?: boolean;
+}
+
+/**
+ * Data required to post a comment or reply
+ */
+export interface CommentInput {
+  videoId: string;
+  body: string;
+  parentId?: string | null;
+}
+
+/**
+ * Comment fetch parameters
+ * 
+ * Top-level comments (no `parentId`) are returned newest first; replies to
+ * a comment are returned oldest first so threads read top to bottom.
+ */
+export interface CommentParams {
+  videoId: string;
+  parentId?: string | null;
+  limit?: number;
+  cursor?: string | null;
+}
+
+/**
+ * Decoded position of the last comment on a page
+ */
+export interface CommentCursor {
+  createdAt: string;
+  id: string;
+}
@@ -0,0 +1,55 @@
+/**
+ * Competition Type Definitions
+ * 
+ * Types related to competitions and their submission windows
+ */
+
+import type { Database } from './database.types';
+import type { LeaderboardEntry } from './leaderboard.types';
+import type { Video } from './video.types';
+
+/**
+ * Competition data from the database
+ */
+export type Competition = Database['public']['Tables']['competitions']['Row'];
+
+/**
+ * Data required to create a new competition
+ */
+export type CompetitionInsert = Database['public']['Tables']['competitions']['Insert'];
+
+/**
+ * Data that can be updated for a competition
+ */
+export type CompetitionUpdate = Database['public']['Tables']['competitions']['Update'];
+
+/**
+ * Competition lifecycle status
+ */
+export type CompetitionStatus = Competition['status'];
+
+/**
+ * Competition fetch parameters
+ */
+export interface CompetitionParams {
+  status?: CompetitionStatus | CompetitionStatus[];
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Data required to submit an entry to a competition
+ */
+export interface CompetitionEntryInput {
+  competitionId: string;
+  userId: string;
+  videoId: string;
+}
+
+/**
+ * A user's entry in a competition, with the competition it was placed in
+ */
+export interface CompetitionPlacement extends LeaderboardEntry {
+  competition: Competition;
+  video?: Video;
+}
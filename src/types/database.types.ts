@@ -26,6 +26,11 @@ export interface Database {
           email: string;
           username: string;
           avatar_url: string | null;
+          bio: string | null;
+          followers_count: number;
+          following_count: number;
+          role: 'dancer' | 'judge' | 'moderator' | 'admin';
+          deletion_scheduled_for: string | null;
           created_at: string;
         };
         Insert: {
@@ -33,6 +38,11 @@ export interface Database {
           email: string;
           username: string;
           avatar_url?: string | null;
+          bio?: string | null;
+          followers_count?: number;
+          following_count?: number;
+          role?: 'dancer' | 'judge' | 'moderator' | 'admin';
+          deletion_scheduled_for?: string | null;
           created_at?: string;
         };
         Update: {
@@ -40,8 +50,14 @@ export interface Database {
           email?: string;
           username?: string;
           avatar_url?: string | null;
+          bio?: string | null;
+          followers_count?: number;
+          following_count?: number;
+          role?: 'dancer' | 'judge' | 'moderator' | 'admin';
+          deletion_scheduled_for?: string | null;
           created_at?: string;
         };
+        Relationships: [];
       };
       videos: {
         Row: {
@@ -49,10 +65,19 @@ export interface Database {
           title: string;
           description: string | null;
           video_url: string;
+          stream_url: string | null;
+          renditions: Json;
+          duration_ms: number | null;
+          width: number | null;
+          height: number | null;
+          format: string | null;
+          size_bytes: number | null;
           thumbnail_url: string | null;
+          storage_path: string | null;
           user_id: string;
           views: number;
           likes: number;
+          comments_count: number;
           created_at: string;
         };
         Insert: {
@@ -60,10 +85,19 @@ export interface Database {
           title: string;
           description?: string | null;
           video_url: string;
+          stream_url?: string | null;
+          renditions?: Json;
+          duration_ms?: number | null;
+          width?: number | null;
+          height?: number | null;
+          format?: string | null;
+          size_bytes?: number | null;
           thumbnail_url?: string | null;
+          storage_path?: string | null;
           user_id: string;
           views?: number;
           likes?: number;
+          comments_count?: number;
           created_at?: string;
         };
         Update: {
@@ -71,18 +105,37 @@ export interface Database {
           title?: string;
           description?: string | null;
           video_url?: string;
+          stream_url?: string | null;
+          renditions?: Json;
+          duration_ms?: number | null;
+          width?: number | null;
+          height?: number | null;
+          format?: string | null;
+          size_bytes?: number | null;
           thumbnail_url?: string | null;
+          storage_path?: string | null;
           user_id?: string;
           views?: number;
           likes?: number;
+          comments_count?: number;
           created_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'videos_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       leaderboard: {
         Row: {
           id: string;
           user_id: string;
           video_id: string;
+          competition_id: string | null;
           score: number;
           rank: number | null;
           created_at: string;
@@ -92,6 +145,7 @@ export interface Database {
           id?: string;
           user_id: string;
           video_id: string;
+          competition_id?: string | null;
           score: number;
           rank?: number | null;
           created_at?: string;
@@ -101,18 +155,431 @@ export interface Database {
           id?: string;
           user_id?: string;
           video_id?: string;
+          competition_id?: string | null;
           score?: number;
           rank?: number | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'leaderboard_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'leaderboard_video_id_fkey';
+            columns: ['video_id'];
+            isOneToOne: false;
+            referencedRelation: 'videos';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'leaderboard_competition_id_fkey';
+            columns: ['competition_id'];
+            isOneToOne: false;
+            referencedRelation: 'competitions';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      competitions: {
+        Row: {
+          id: string;
+          title: string;
+          rules: string | null;
+          dance_style: string;
+          opens_at: string;
+          closes_at: string;
+          status: 'draft' | 'open' | 'judging' | 'closed';
+          max_duration_seconds: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          title: string;
+          rules?: string | null;
+          dance_style: string;
+          opens_at: string;
+          closes_at: string;
+          status?: 'draft' | 'open' | 'judging' | 'closed';
+          max_duration_seconds?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          title?: string;
+          rules?: string | null;
+          dance_style?: string;
+          opens_at?: string;
+          closes_at?: string;
+          status?: 'draft' | 'open' | 'judging' | 'closed';
+          max_duration_seconds?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      competition_judges: {
+        Row: {
+          competition_id: string;
+          user_id: string;
+          created_at: string;
+        };
+        Insert: {
+          competition_id: string;
+          user_id: string;
+          created_at?: string;
+        };
+        Update: {
+          competition_id?: string;
+          user_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'competition_judges_competition_id_fkey';
+            columns: ['competition_id'];
+            isOneToOne: false;
+            referencedRelation: 'competitions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'competition_judges_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      rubric_criteria: {
+        Row: {
+          id: string;
+          competition_id: string;
+          name: string;
+          description: string | null;
+          weight: number;
+          max_score: number;
+          position: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          competition_id: string;
+          name: string;
+          description?: string | null;
+          weight?: number;
+          max_score?: number;
+          position?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          competition_id?: string;
+          name?: string;
+          description?: string | null;
+          weight?: number;
+          max_score?: number;
+          position?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'rubric_criteria_competition_id_fkey';
+            columns: ['competition_id'];
+            isOneToOne: false;
+            referencedRelation: 'competitions';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      judge_scores: {
+        Row: {
+          id: string;
+          entry_id: string;
+          judge_id: string;
+          criterion_id: string;
+          score: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          entry_id: string;
+          judge_id: string;
+          criterion_id: string;
+          score: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          entry_id?: string;
+          judge_id?: string;
+          criterion_id?: string;
+          score?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'judge_scores_entry_id_fkey';
+            columns: ['entry_id'];
+            isOneToOne: false;
+            referencedRelation: 'leaderboard';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'judge_scores_judge_id_fkey';
+            columns: ['judge_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'judge_scores_criterion_id_fkey';
+            columns: ['criterion_id'];
+            isOneToOne: false;
+            referencedRelation: 'rubric_criteria';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      video_likes: {
+        Row: {
+          user_id: string;
+          video_id: string;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          video_id: string;
+          created_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          video_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'video_likes_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'video_likes_video_id_fkey';
+            columns: ['video_id'];
+            isOneToOne: false;
+            referencedRelation: 'videos';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      video_views: {
+        Row: {
+          id: string;
+          video_id: string;
+          user_id: string;
+          watch_duration_ms: number;
+          completion_percentage: number;
+          counted: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          video_id: string;
+          user_id: string;
+          watch_duration_ms: number;
+          completion_percentage: number;
+          counted?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          video_id?: string;
+          user_id?: string;
+          watch_duration_ms?: number;
+          completion_percentage?: number;
+          counted?: boolean;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'video_views_video_id_fkey';
+            columns: ['video_id'];
+            isOneToOne: false;
+            referencedRelation: 'videos';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'video_views_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      comments: {
+        Row: {
+          id: string;
+          video_id: string;
+          user_id: string;
+          parent_id: string | null;
+          body: string;
+          reply_count: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          video_id: string;
+          user_id: string;
+          parent_id?: string | null;
+          body: string;
+          reply_count?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          video_id?: string;
+          user_id?: string;
+          parent_id?: string | null;
+          body?: string;
+          reply_count?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'comments_video_id_fkey';
+            columns: ['video_id'];
+            isOneToOne: false;
+            referencedRelation: 'videos';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'comments_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'comments_parent_id_fkey';
+            columns: ['parent_id'];
+            isOneToOne: false;
+            referencedRelation: 'comments';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      follows: {
+        Row: {
+          follower_id: string;
+          followee_id: string;
+          created_at: string;
+        };
+        Insert: {
+          follower_id: string;
+          followee_id: string;
+          created_at?: string;
+        };
+        Update: {
+          follower_id?: string;
+          followee_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'follows_follower_id_fkey';
+            columns: ['follower_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'follows_followee_id_fkey';
+            columns: ['followee_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
       };
     };
     Views: {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      followed_videos: {
+        Args: Record<PropertyKey, never>;
+        Returns: Database['public']['Tables']['videos']['Row'][];
+        SetofOptions: {
+          from: '*';
+          to: 'videos';
+          isOneToOne: false;
+          isSetofReturn: true;
+        };
+      };
+      is_competition_judge: {
+        Args: { target_competition_id: string };
+        Returns: boolean;
+      };
+      toggle_video_like: {
+        Args: { target_video_id: string };
+        Returns: { is_liked: boolean; likes: number }[];
+      };
+      set_video_like: {
+        Args: { target_video_id: string; liked: boolean };
+        Returns: { is_liked: boolean; likes: number }[];
+      };
+      record_video_metadata: {
+        Args: {
+          target_video_id: string;
+          p_duration_ms: number;
+          p_width: number;
+          p_height: number;
+        };
+        Returns: undefined;
+      };
+      record_video_view: {
+        Args: {
+          target_video_id: string;
+          watch_duration_ms: number;
+          completion_percentage: number;
+        };
+        Returns: { counted: boolean; views: number }[];
+      };
+      has_role: {
+        Args: { required_roles: string[] };
+        Returns: boolean;
+      };
+      set_user_role: {
+        Args: { target_user_id: string; new_role: string };
+        Returns: undefined;
+      };
+      is_username_available: {
+        Args: { p_username: string; p_user_id?: string | null };
+        Returns: boolean;
+      };
+      request_account_deletion: {
+        Args: Record<string, never>;
+        Returns: string;
+      };
+      cancel_account_deletion: {
+        Args: Record<string, never>;
+        Returns: undefined;
+      };
     };
     Enums: {
       [_ in never]: never;
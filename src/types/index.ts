@@ -11,6 +11,12 @@ export * from './database.types';
 export * from './user.types';
 export * from './video.types';
 export * from './leaderboard.types';
+export * from './competition.types';
+export * from './judging.types';
+export * from './comment.types';
+export * from './social.types';
+export * from './account.types';
+export * from './outbox.types';
 
 // API types
 export * from './api.types';
@@ -0,0 +1,47 @@
+/**
+ * Judging Type Definitions
+ * 
+ * Types related to judges, scoring rubrics and judge scores
+ */
+
+import type { Database } from './database.types';
+import type { LeaderboardEntryWithUser } from './leaderboard.types';
+
+/**
+ * Rubric criterion from the database
+ */
+export type RubricCriterion = Database['public']['Tables']['rubric_criteria']['Row'];
+
+/**
+ * Judge score from the database
+ */
+export type JudgeScore = Database['public']['Tables']['judge_scores']['Row'];
+
+/**
+ * Judge assignment from the database
+ */
+export type CompetitionJudge = Database['public']['Tables']['competition_judges']['Row'];
+
+/**
+ * Score given by a judge for a single criterion
+ */
+export interface CriterionScoreInput {
+  criterionId: string;
+  score: number;
+}
+
+/**
+ * Data required to submit a judge's scores for an entry
+ */
+export interface JudgeScoresSubmission {
+  entryId: string;
+  judgeId: string;
+  scores: CriterionScoreInput[];
+}
+
+/**
+ * Competition entry with the current judge's existing scores
+ */
+export interface JudgingEntry extends LeaderboardEntryWithUser {
+  judgeScores: JudgeScore[];
+}
@@ -36,6 +36,7 @@ export interface LeaderboardEntryWithUser extends LeaderboardEntry {
  */
 export interface UserRank {
   userId: string;
+  competitionId?: string;
   rank: number;
   score: number;
   totalEntries: number;
@@ -45,6 +46,7 @@ export interface UserRank {
  * Leaderboard fetch parameters
  */
 export interface LeaderboardParams {
+  competitionId?: string;
   limit?: number;
   offset?: number;
 }
@@ -0,0 +1,31 @@
+/**
+ * Outbox Type Definitions
+ *
+ * Types related to mutations made offline and replayed once the app is
+ * back online
+ */
+
+import type { VideoViewInput } from './video.types';
+import type { CommentInput } from './comment.types';
+
+/**
+ * A mutation waiting to be sent
+ *
+ * Likes carry the state the user wants rather than a toggle, so replaying
+ * one is safe and a later like of the same video replaces it.
+ */
+export type OutboxMutation =
+  | { type: 'like'; videoId: string; liked: boolean }
+  | { type: 'view'; view: VideoViewInput }
+  | { type: 'comment'; input: CommentInput; optimisticId: string };
+
+/**
+ * A queued mutation with its delivery state
+ */
+export type OutboxEntry = OutboxMutation & {
+  id: string;
+  userId: string;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+};
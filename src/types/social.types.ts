@@ -0,0 +1,30 @@
+/**
+ * Social Type Definitions
+ * 
+ * Types related to the follow graph between users
+ */
+
+import type { Database } from './database.types';
+
+/**
+ * Follow relationship from the database
+ */
+export type Follow = Database['public']['Tables']['follows']['Row'];
+
+/**
+ * Data required to follow a user
+ */
+export type FollowInsert = Database['public']['Tables']['follows']['Insert'];
+
+/**
+ * Result of following or unfollowing a user
+ */
+export interface FollowToggleResult {
+  followeeId: string;
+  isFollowing: boolean;
+}
+
+/**
+ * Feed the video feed is showing: every video, or only creators the user follows
+ */
+export type FeedMode = 'forYou' | 'following';
@@ -11,6 +11,11 @@ import type { Database } from './database.types';
  */
 export type User = Database['public']['Tables']['users']['Row'];
 
+/**
+ * What a user may do in the app. Admins can do everything the other roles can.
+ */
+export type UserRole = User['role'];
+
 /**
  * Data required to create a new user
  */
@@ -64,10 +69,30 @@ export interface RegisterData {
   username: string;
 }
 
+/**
+ * Third-party providers users can sign in with
+ */
+export type OAuthProvider = 'google' | 'apple';
+
+/**
+ * Reasons sign up can fail that the registration form can point at a field
+ */
+export type AuthErrorCode = 'USERNAME_TAKEN' | 'EMAIL_TAKEN' | 'WEAK_PASSWORD';
+
 /**
  * Auth error response
  */
 export interface AuthError {
   message: string;
   status?: number;
+  code?: AuthErrorCode;
+}
+
+/**
+ * Profile fields a user can edit
+ */
+export interface ProfileUpdateInput {
+  username?: string;
+  bio?: string | null;
+  avatarUrl?: string | null;
 }
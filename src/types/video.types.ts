@@ -6,6 +6,7 @@
 
 import type { Database } from './database.types';
 import type { User } from './user.types';
+import type { FeedMode } from './social.types';
 
 /**
  * Video data from the database
@@ -30,13 +31,40 @@ export interface VideoWithUser extends Video {
 }
 
 /**
- * Video metadata (for future use)
+ * Technical details of a video file, stored in the `videos` columns of
+ * the same name
  */
 export interface VideoMetadata {
-  duration?: number;
-  resolution?: string;
+  durationMs?: number;
+  width?: number;
+  height?: number;
   format?: string;
-  size?: number;
+  sizeBytes?: number;
+}
+
+/**
+ * One quality of a video's HLS stream, from `videos.renditions`
+ */
+export interface VideoRendition {
+  height: number;
+  bitrate: number;
+  url: string;
+}
+
+/**
+ * Playback quality picked in the player settings
+ *
+ * `auto` plays the adaptive stream and follows network conditions, `low`
+ * and `high` pin the lowest and highest rendition.
+ */
+export type VideoQuality = 'auto' | 'low' | 'high';
+
+/**
+ * Source chosen for the player
+ */
+export interface VideoSource {
+  uri: string;
+  isStream: boolean;
 }
 
 /**
@@ -47,12 +75,96 @@ export interface VideoFeedItem extends VideoWithUser {
   isPlaying?: boolean;
 }
 
+/**
+ * Result of toggling a like on a video
+ */
+export interface LikeToggleResult {
+  videoId: string;
+  isLiked: boolean;
+  likes: number;
+}
+
+/**
+ * Watch session reported when a viewer leaves a video
+ */
+export interface VideoViewInput {
+  videoId: string;
+  watchDurationMs: number;
+  completionPercentage: number;
+}
+
+/**
+ * Result of recording a watch session
+ */
+export interface ViewRecordResult {
+  videoId: string;
+  counted: boolean;
+  views: number;
+}
+
+/**
+ * Progress of an in-flight video upload
+ */
+export interface UploadProgress {
+  bytesUploaded: number;
+  totalBytes: number;
+  percentage: number;
+}
+
+/**
+ * Result of uploading a video file to storage
+ */
+export interface UploadedVideoFile {
+  storagePath: string;
+  publicUrl: string;
+}
+
+/**
+ * Data required to upload and publish a new video
+ */
+export interface VideoUploadInput {
+  fileUri: string;
+  mimeType?: string;
+  title: string;
+  description?: string;
+  competitionId?: string;
+  metadata?: VideoMetadata;
+  thumbnailUri?: string;
+}
+
+/**
+ * Frame extracted from a video on the device, offered as its thumbnail
+ */
+export interface VideoFrame {
+  uri: string;
+  timeMs: number;
+  width: number;
+  height: number;
+}
+
 /**
  * Pagination parameters for video fetching
+ * 
+ * Pages are fetched by cursor (keyset on the sort column and `id`), so
+ * videos inserted while scrolling never shift or duplicate later pages.
+ * Pass `userId` to only fetch videos uploaded by that user, or
+ * `feed: 'following'` to only fetch videos from creators the current
+ * user follows. Ordering by `duration_ms` leaves out videos whose length
+ * is not known.
  */
 export interface VideoPaginationParams {
+  userId?: string;
+  feed?: FeedMode;
   limit?: number;
-  offset?: number;
-  orderBy?: 'created_at' | 'views' | 'likes';
+  cursor?: string | null;
+  orderBy?: 'created_at' | 'views' | 'likes' | 'duration_ms';
   orderDirection?: 'asc' | 'desc';
 }
+
+/**
+ * Decoded position of the last video on a page
+ */
+export interface VideoCursor {
+  value: string | number;
+  id: string;
+}
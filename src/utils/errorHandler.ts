@@ -45,6 +45,9 @@ export const handleAuthError = (error: unknown): string => {
     'User already registered': 'An account with this email already exists.',
     'Email not confirmed': 'Please confirm your email address before logging in.',
     'Invalid email': 'Please enter a valid email address.',
+    'Email link is invalid or has expired': 'This link has expired. Please request a new one.',
+    'New password should be different from the old password.':
+      'Please choose a password you have not used before.',
   };
   
   const friendlyMessage = authErrorMessages[errorMessage] || errorMessage;
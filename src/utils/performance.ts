@@ -5,6 +5,7 @@
  */
 
 import { useEffect, useRef } from 'react';
+import { logger } from './logger';
 
 /**
  * Hook to detect and log slow renders
@@ -81,3 +82,76 @@ export const logMemoryUsage = () => {
     });
   }
 };
+
+/**
+ * Time from a feed video becoming active to its first frame on screen
+ */
+export interface TimeToFirstFrameSample {
+  videoId: string;
+  durationMs: number;
+  preloaded: boolean;
+}
+
+/**
+ * Summary of recent time-to-first-frame samples
+ */
+export interface TimeToFirstFrameStats {
+  count: number;
+  p50Ms: number;
+  p90Ms: number;
+  preloadedRate: number;
+}
+
+// Only the most recent samples are kept
+const MAX_TTFF_SAMPLES = 50;
+
+// Log a summary every this many samples
+const TTFF_SUMMARY_INTERVAL = 10;
+
+const ttffSamples: TimeToFirstFrameSample[] = [];
+let ttffSampleCount = 0;
+
+/**
+ * Pick a percentile from sorted values
+ */
+const percentile = (sorted: number[], p: number) =>
+  sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+
+/**
+ * Summarize the recent time-to-first-frame samples
+ */
+export const getTimeToFirstFrameStats = (): TimeToFirstFrameStats => {
+  const durations = ttffSamples.map((sample) => sample.durationMs).sort((a, b) => a - b);
+
+  return {
+    count: ttffSamples.length,
+    p50Ms: percentile(durations, 0.5),
+    p90Ms: percentile(durations, 0.9),
+    preloadedRate:
+      ttffSamples.length === 0
+        ? 0
+        : ttffSamples.filter((sample) => sample.preloaded).length / ttffSamples.length,
+  };
+};
+
+/**
+ * Record how long a feed video took to show its first frame
+ *
+ * Preloaded videos are usually ready before they become active, which is
+ * recorded as 0ms.
+ */
+export const recordTimeToFirstFrame = (sample: TimeToFirstFrameSample) => {
+  ttffSamples.push(sample);
+  ttffSampleCount += 1;
+  if (ttffSamples.length > MAX_TTFF_SAMPLES) {
+    ttffSamples.shift();
+  }
+
+  logger.debug(
+    `[Performance] Video ${sample.videoId} first frame in ${sample.durationMs}ms${sample.preloaded ? ' (preloaded)' : ''}`
+  );
+
+  if (ttffSampleCount % TTFF_SUMMARY_INTERVAL === 0) {
+    logger.info('[Performance] Time to first frame', getTimeToFirstFrameStats());
+  }
+};
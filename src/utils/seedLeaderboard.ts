@@ -106,7 +106,7 @@ export const seedLeaderboard = async (): Promise<void> => {
     for (let i = 0; i < entriesWithRanks.length; i += batchSize) {
       const batch = entriesWithRanks.slice(i, i + batchSize);
       
-      const { data, error } = await (supabase as any)
+      const { data, error } = await supabase
         .from('leaderboard')
         .insert(batch)
         .select();
@@ -12,72 +12,56 @@ import type { VideoInsert } from '../types/video.types';
 
 /**
  * Sample video data with external URLs
- * Videos are from free sources like Pexels
+ * Videos and their thumbnails are from Google's public sample bucket
  */
 const sampleVideos: Omit<VideoInsert, 'user_id'>[] = [
   {
     title: 'Hip Hop Dance Battle',
     description: 'Amazing hip hop dance performance with incredible energy and style',
     video_url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ForBiggerBlazes.mp4',
-    thumbnail_url: 'https://images.pexels.com/photos/3621104/pexels-photo-3621104.jpeg?auto=compress&cs=tinysrgb&w=400',
-    views: 1250,
-    likes: 89,
+    thumbnail_url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/images/ForBiggerBlazes.jpg',
   },
   {
     title: 'Contemporary Dance Solo',
     description: 'Beautiful contemporary dance piece showcasing fluid movements',
     video_url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ForBiggerEscapes.mp4',
-    thumbnail_url: 'https://images.pexels.com/photos/3621104/pexels-photo-3621104.jpeg?auto=compress&cs=tinysrgb&w=400',
-    views: 980,
-    likes: 67,
+    thumbnail_url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/images/ForBiggerEscapes.jpg',
   },
   {
     title: 'Breakdance Showcase',
     description: 'Mind-blowing breakdance moves and power moves',
     video_url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ForBiggerFun.mp4',
-    thumbnail_url: 'https://images.pexels.com/photos/3621104/pexels-photo-3621104.jpeg?auto=compress&cs=tinysrgb&w=400',
-    views: 2100,
-    likes: 156,
+    thumbnail_url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/images/ForBiggerFun.jpg',
   },
   {
     title: 'Ballet Performance',
     description: 'Graceful ballet performance with perfect technique',
     video_url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ForBiggerJoyrides.mp4',
-    thumbnail_url: 'https://images.pexels.com/photos/3621104/pexels-photo-3621104.jpeg?auto=compress&cs=tinysrgb&w=400',
-    views: 1450,
-    likes: 92,
+    thumbnail_url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/images/ForBiggerJoyrides.jpg',
   },
   {
     title: 'Street Dance Crew',
     description: 'Synchronized street dance routine by talented crew',
     video_url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ForBiggerMeltdowns.mp4',
-    thumbnail_url: 'https://images.pexels.com/photos/3621104/pexels-photo-3621104.jpeg?auto=compress&cs=tinysrgb&w=400',
-    views: 1780,
-    likes: 134,
+    thumbnail_url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/images/ForBiggerMeltdowns.jpg',
   },
   {
     title: 'Latin Dance Fusion',
     description: 'Energetic Latin dance with salsa and bachata elements',
     video_url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/Sintel.mp4',
-    thumbnail_url: 'https://images.pexels.com/photos/3621104/pexels-photo-3621104.jpeg?auto=compress&cs=tinysrgb&w=400',
-    views: 1320,
-    likes: 78,
+    thumbnail_url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/images/Sintel.jpg',
   },
   {
     title: 'Freestyle Dance',
     description: 'Creative freestyle dance with unique style',
     video_url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/SubaruOutbackOnStreetAndDirt.mp4',
-    thumbnail_url: 'https://images.pexels.com/photos/3621104/pexels-photo-3621104.jpeg?auto=compress&cs=tinysrgb&w=400',
-    views: 890,
-    likes: 54,
+    thumbnail_url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/images/SubaruOutbackOnStreetAndDirt.jpg',
   },
   {
     title: 'Jazz Dance Routine',
     description: 'Classic jazz dance with modern twist',
     video_url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/TearsOfSteel.mp4',
-    thumbnail_url: 'https://images.pexels.com/photos/3621104/pexels-photo-3621104.jpeg?auto=compress&cs=tinysrgb&w=400',
-    views: 1150,
-    likes: 71,
+    thumbnail_url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/images/TearsOfSteel.jpg',
   },
 ];
 
@@ -133,7 +117,7 @@ export const seedVideos = async (): Promise<void> => {
     }));
 
     // Insert videos
-    const { data, error } = await (supabase as any)
+    const { data, error } = await supabase
       .from('videos')
       .insert(videosToInsert)
       .select();
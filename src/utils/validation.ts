@@ -0,0 +1,42 @@
+/**
+ * Validation Utilities
+ * 
+ * Shared validation rules for user-entered profile data, matching the
+ * constraints enforced by the database
+ */
+
+/**
+ * Username length limits
+ */
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 30;
+
+/**
+ * Maximum length of a profile bio
+ */
+export const BIO_MAX_LENGTH = 160;
+
+/**
+ * Validate a username
+ * 
+ * @param username - Username as typed by the user
+ * @returns Error message, or undefined if the username is valid
+ */
+export const validateUsername = (username: string): string | undefined => {
+  const trimmed = username.trim();
+
+  if (!trimmed) {
+    return 'Username is required';
+  }
+  if (trimmed.length < USERNAME_MIN_LENGTH) {
+    return `Username must be at least ${USERNAME_MIN_LENGTH} characters`;
+  }
+  if (trimmed.length > USERNAME_MAX_LENGTH) {
+    return `Username must be at most ${USERNAME_MAX_LENGTH} characters`;
+  }
+  if (!/^[a-zA-Z0-9_]+$/.test(trimmed)) {
+    return 'Username can only contain letters, numbers, and underscores';
+  }
+
+  return undefined;
+};
@@ -0,0 +1,49 @@
+/**
+ * Video Metadata Utilities
+ *
+ * Reading the duration, resolution, format and size of a picked video,
+ * and formatting durations for display
+ */
+
+import type { ImagePickerAsset } from 'expo-image-picker';
+import type { VideoMetadata } from '../types/video.types';
+
+/**
+ * Container format from a MIME type or file name, e.g. "mp4" or "mov"
+ */
+const getFormat = (asset: ImagePickerAsset): string | undefined => {
+  if (asset.mimeType?.startsWith('video/')) {
+    const subtype = asset.mimeType.slice('video/'.length);
+    return subtype === 'quicktime' ? 'mov' : subtype;
+  }
+
+  const extension = (asset.fileName ?? asset.uri).split('?')[0].split('.').pop();
+  return extension && extension.length <= 5 ? extension.toLowerCase() : undefined;
+};
+
+/**
+ * Read the metadata of a video picked from the library or camera
+ *
+ * @param asset - Asset returned by expo-image-picker
+ * @returns Metadata with whatever the picker reported
+ */
+export const getAssetMetadata = (asset: ImagePickerAsset): VideoMetadata => ({
+  durationMs: asset.duration ? Math.round(asset.duration) : undefined,
+  width: asset.width || undefined,
+  height: asset.height || undefined,
+  format: getFormat(asset),
+  sizeBytes: asset.fileSize,
+});
+
+/**
+ * Format a duration as m:ss, e.g. 0:45 or 12:03
+ *
+ * @param durationMs - Duration in milliseconds
+ * @returns Formatted duration
+ */
+export const formatDuration = (durationMs: number): string => {
+  const totalSeconds = Math.round(durationMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
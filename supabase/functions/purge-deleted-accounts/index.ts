@@ -0,0 +1,102 @@
+/**
+ * Purge Deleted Accounts Edge Function
+ *
+ * Runs on a schedule and permanently deletes accounts whose grace period
+ * has ended: first the user's files in storage, then the auth user, which
+ * cascades through users, videos, leaderboard entries, likes, comments and
+ * follows.
+ *
+ * Must be called with the service role key.
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+/**
+ * Buckets that keep user files under a `<user_id>/` folder
+ */
+const USER_BUCKETS = ['videos', 'avatars', 'thumbnails'];
+
+/**
+ * Page size when listing a user's files
+ */
+const LIST_PAGE_SIZE = 100;
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false },
+});
+
+/**
+ * Remove every file in a user's folder of a bucket
+ */
+const removeUserFiles = async (bucket: string, userId: string): Promise<number> => {
+  let removed = 0;
+
+  // Removing files shifts the listing, so always read the first page
+  for (;;) {
+    const { data: files, error } = await supabase.storage
+      .from(bucket)
+      .list(userId, { limit: LIST_PAGE_SIZE });
+
+    if (error) {
+      throw new Error(`Failed to list ${bucket}/${userId}: ${error.message}`);
+    }
+
+    if (!files || files.length === 0) {
+      return removed;
+    }
+
+    const { error: removeError } = await supabase.storage
+      .from(bucket)
+      .remove(files.map((file) => `${userId}/${file.name}`));
+
+    if (removeError) {
+      throw new Error(`Failed to remove files from ${bucket}/${userId}: ${removeError.message}`);
+    }
+
+    removed += files.length;
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const { data: users, error } = await supabase
+    .from('users')
+    .select('id')
+    .lte('deletion_scheduled_for', new Date().toISOString());
+
+  if (error) {
+    console.error('Error fetching accounts to purge:', error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  const purged: string[] = [];
+  const failed: { id: string; error: string }[] = [];
+
+  for (const { id } of users ?? []) {
+    try {
+      for (const bucket of USER_BUCKETS) {
+        await removeUserFiles(bucket, id);
+      }
+
+      const { error: deleteError } = await supabase.auth.admin.deleteUser(id);
+
+      if (deleteError) {
+        throw new Error(`Failed to delete auth user: ${deleteError.message}`);
+      }
+
+      purged.push(id);
+    } catch (purgeError) {
+      // Leave the account scheduled so the next run retries it
+      console.error(`Error purging account ${id}:`, purgeError);
+      failed.push({ id, error: purgeError instanceof Error ? purgeError.message : String(purgeError) });
+    }
+  }
+
+  return Response.json({ purged: purged.length, failed });
+});
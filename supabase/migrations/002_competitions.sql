@@ -0,0 +1,156 @@
+-- Dance Competition App - Competitions
+-- This migration introduces first-class competitions with submission windows
+-- and scopes leaderboard entries and rankings to a competition
+
+-- ============================================
+-- COMPETITIONS TABLE
+-- ============================================
+-- Stores competition details and the window during which entries are accepted
+CREATE TABLE public.competitions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  title TEXT NOT NULL,
+  rules TEXT,
+  dance_style TEXT NOT NULL,
+  opens_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  closes_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'open', 'judging', 'closed')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (closes_at > opens_at)
+);
+
+-- Add indexes for performance
+CREATE INDEX idx_competitions_status ON public.competitions(status);
+CREATE INDEX idx_competitions_opens_at ON public.competitions(opens_at DESC);
+
+-- ============================================
+-- LEADERBOARD CHANGES
+-- ============================================
+-- Entries created before competitions existed keep a NULL competition_id
+ALTER TABLE public.leaderboard
+  ADD COLUMN competition_id UUID REFERENCES public.competitions(id) ON DELETE CASCADE;
+
+-- A dancer can only hold one entry per competition
+ALTER TABLE public.leaderboard
+  ADD CONSTRAINT leaderboard_competition_user_unique UNIQUE (competition_id, user_id);
+
+-- The same video may be entered in more than one competition; the original
+-- one-entry-per-video rule only still applies to legacy global entries
+ALTER TABLE public.leaderboard
+  DROP CONSTRAINT leaderboard_user_id_video_id_key;
+
+CREATE UNIQUE INDEX idx_leaderboard_legacy_user_video
+  ON public.leaderboard(user_id, video_id)
+  WHERE competition_id IS NULL;
+
+CREATE INDEX idx_leaderboard_competition_score
+  ON public.leaderboard(competition_id, score DESC);
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================
+
+ALTER TABLE public.competitions ENABLE ROW LEVEL SECURITY;
+
+-- Allow all authenticated users to read published competitions
+CREATE POLICY "Authenticated users can view published competitions"
+  ON public.competitions
+  FOR SELECT
+  TO authenticated
+  USING (status <> 'draft');
+
+-- ============================================
+-- FUNCTIONS AND TRIGGERS
+-- ============================================
+
+-- Trigger to update updated_at on competition changes
+CREATE TRIGGER update_competitions_updated_at
+  BEFORE UPDATE ON public.competitions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Function to reject entries submitted outside the competition's window
+CREATE OR REPLACE FUNCTION enforce_competition_submission_window()
+RETURNS TRIGGER AS $$
+DECLARE
+  competition RECORD;
+BEGIN
+  IF NEW.competition_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT status, opens_at, closes_at
+  INTO competition
+  FROM public.competitions
+  WHERE id = NEW.competition_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Competition % does not exist', NEW.competition_id;
+  END IF;
+
+  IF competition.status <> 'open'
+    OR NOW() < competition.opens_at
+    OR NOW() > competition.closes_at THEN
+    RAISE EXCEPTION 'Submissions are closed for this competition'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to validate the submission window before an entry is created
+CREATE TRIGGER enforce_submission_window_before_insert
+  BEFORE INSERT ON public.leaderboard
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_competition_submission_window();
+
+-- Rank entries within their own competition instead of globally. Only the
+-- competition of the changed entry is re-ranked, and only rows whose rank
+-- actually moves are written, so realtime subscribers are not sent an
+-- update for every entry on each score change.
+CREATE OR REPLACE FUNCTION recalculate_leaderboard_ranks()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Update ranks based on score (highest score = rank 1) in this competition
+  WITH ranked_entries AS (
+    SELECT
+      id,
+      ROW_NUMBER() OVER (ORDER BY score DESC, created_at ASC) as new_rank
+    FROM public.leaderboard
+    WHERE competition_id IS NOT DISTINCT FROM NEW.competition_id
+  )
+  UPDATE public.leaderboard
+  SET rank = ranked_entries.new_rank
+  FROM ranked_entries
+  WHERE public.leaderboard.id = ranked_entries.id
+    AND public.leaderboard.rank IS DISTINCT FROM ranked_entries.new_rank;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Re-rank per changed entry, which tells the function which competition to
+-- rank; rank updates do not touch score, so they do not fire these again
+DROP TRIGGER IF EXISTS recalculate_ranks_after_insert ON public.leaderboard;
+DROP TRIGGER IF EXISTS recalculate_ranks_after_update ON public.leaderboard;
+
+CREATE TRIGGER recalculate_ranks_after_insert
+  AFTER INSERT ON public.leaderboard
+  FOR EACH ROW
+  EXECUTE FUNCTION recalculate_leaderboard_ranks();
+
+CREATE TRIGGER recalculate_ranks_after_update
+  AFTER UPDATE OF score ON public.leaderboard
+  FOR EACH ROW
+  EXECUTE FUNCTION recalculate_leaderboard_ranks();
+
+-- ============================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================
+
+COMMENT ON TABLE public.competitions IS 'Dance competitions with rules and submission windows';
+
+COMMENT ON COLUMN public.competitions.status IS 'Lifecycle state: draft, open, judging or closed';
+COMMENT ON COLUMN public.leaderboard.competition_id IS 'Competition the entry was submitted to (NULL for legacy global entries)';
@@ -0,0 +1,243 @@
+-- Dance Competition App - Judge Scoring
+-- This migration adds judges, weighted rubrics and per-criterion judge scores.
+-- Leaderboard scores are derived from judge scores instead of being written by clients.
+
+-- ============================================
+-- COMPETITION JUDGES TABLE
+-- ============================================
+-- Assigns users as judges for a competition
+CREATE TABLE public.competition_judges (
+  competition_id UUID NOT NULL REFERENCES public.competitions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (competition_id, user_id)
+);
+
+CREATE INDEX idx_competition_judges_user_id ON public.competition_judges(user_id);
+
+-- ============================================
+-- RUBRIC CRITERIA TABLE
+-- ============================================
+-- Weighted criteria judges score each entry against
+CREATE TABLE public.rubric_criteria (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  competition_id UUID NOT NULL REFERENCES public.competitions(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  weight NUMERIC(5, 2) NOT NULL DEFAULT 1 CHECK (weight > 0),
+  max_score INTEGER NOT NULL DEFAULT 10 CHECK (max_score > 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(competition_id, name)
+);
+
+CREATE INDEX idx_rubric_criteria_competition_id ON public.rubric_criteria(competition_id, position);
+
+-- ============================================
+-- JUDGE SCORES TABLE
+-- ============================================
+-- One row per judge, entry and criterion
+CREATE TABLE public.judge_scores (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  entry_id UUID NOT NULL REFERENCES public.leaderboard(id) ON DELETE CASCADE,
+  judge_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  criterion_id UUID NOT NULL REFERENCES public.rubric_criteria(id) ON DELETE CASCADE,
+  score NUMERIC(5, 2) NOT NULL CHECK (score >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(entry_id, judge_id, criterion_id)
+);
+
+CREATE INDEX idx_judge_scores_entry_id ON public.judge_scores(entry_id);
+CREATE INDEX idx_judge_scores_judge_id ON public.judge_scores(judge_id);
+
+-- ============================================
+-- FUNCTIONS AND TRIGGERS
+-- ============================================
+
+-- Function to check whether the current user judges a competition
+CREATE OR REPLACE FUNCTION public.is_competition_judge(target_competition_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.competition_judges
+    WHERE competition_id = target_competition_id
+      AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Function to validate a judge score against its entry and criterion
+CREATE OR REPLACE FUNCTION validate_judge_score()
+RETURNS TRIGGER AS $$
+DECLARE
+  entry_competition_id UUID;
+  criterion RECORD;
+BEGIN
+  SELECT competition_id INTO entry_competition_id
+  FROM public.leaderboard
+  WHERE id = NEW.entry_id;
+
+  SELECT competition_id, max_score INTO criterion
+  FROM public.rubric_criteria
+  WHERE id = NEW.criterion_id;
+
+  IF entry_competition_id IS NULL OR entry_competition_id <> criterion.competition_id THEN
+    RAISE EXCEPTION 'Criterion does not belong to the entry''s competition';
+  END IF;
+
+  IF NEW.score > criterion.max_score THEN
+    RAISE EXCEPTION 'Score % exceeds the maximum of %', NEW.score, criterion.max_score
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_judge_score_before_write
+  BEFORE INSERT OR UPDATE ON public.judge_scores
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_judge_score();
+
+-- Trigger to update updated_at on judge score changes
+CREATE TRIGGER update_judge_scores_updated_at
+  BEFORE UPDATE ON public.judge_scores
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Function to derive an entry's leaderboard score from its judge scores
+-- Each judge's scores are normalised per criterion, weighted, and scaled to 0-100;
+-- the entry score is the average across judges.
+CREATE OR REPLACE FUNCTION recalculate_entry_score()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_entry_id UUID;
+  aggregated_score NUMERIC;
+BEGIN
+  target_entry_id := COALESCE(NEW.entry_id, OLD.entry_id);
+
+  WITH judge_totals AS (
+    SELECT
+      js.judge_id,
+      SUM((js.score / rc.max_score) * rc.weight) / SUM(rc.weight) * 100 AS total
+    FROM public.judge_scores js
+    JOIN public.rubric_criteria rc ON rc.id = js.criterion_id
+    WHERE js.entry_id = target_entry_id
+    GROUP BY js.judge_id
+  )
+  SELECT COALESCE(AVG(total), 0) INTO aggregated_score
+  FROM judge_totals;
+
+  UPDATE public.leaderboard
+  SET score = ROUND(aggregated_score)
+  WHERE id = target_entry_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER recalculate_entry_score_after_write
+  AFTER INSERT OR UPDATE OR DELETE ON public.judge_scores
+  FOR EACH ROW
+  EXECUTE FUNCTION recalculate_entry_score();
+
+-- Ranks are recalculated as a server function, so a dancer's entry insert
+-- can re-rank rows it no longer has write access to (see policies below)
+ALTER FUNCTION public.recalculate_leaderboard_ranks() SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================
+
+ALTER TABLE public.competition_judges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rubric_criteria ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.judge_scores ENABLE ROW LEVEL SECURITY;
+
+-- COMPETITION JUDGES POLICIES
+-- Allow all authenticated users to see who judges a competition
+CREATE POLICY "Authenticated users can view competition judges"
+  ON public.competition_judges
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- RUBRIC CRITERIA POLICIES
+-- Allow all authenticated users to read rubrics
+CREATE POLICY "Authenticated users can view rubric criteria"
+  ON public.rubric_criteria
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- JUDGE SCORES POLICIES
+-- Judges can read their own scores
+CREATE POLICY "Judges can view their own scores"
+  ON public.judge_scores
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid()::text = judge_id::text);
+
+-- Judges can score entries of competitions they judge while judging is underway
+CREATE POLICY "Judges can insert scores for their competitions"
+  ON public.judge_scores
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid()::text = judge_id::text
+    AND EXISTS (
+      SELECT 1
+      FROM public.leaderboard l
+      JOIN public.competitions c ON c.id = l.competition_id
+      WHERE l.id = entry_id
+        AND c.status = 'judging'
+        AND public.is_competition_judge(c.id)
+    )
+  );
+
+CREATE POLICY "Judges can update their own scores while judging"
+  ON public.judge_scores
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid()::text = judge_id::text)
+  WITH CHECK (
+    auth.uid()::text = judge_id::text
+    AND EXISTS (
+      SELECT 1
+      FROM public.leaderboard l
+      JOIN public.competitions c ON c.id = l.competition_id
+      WHERE l.id = entry_id
+        AND c.status = 'judging'
+        AND public.is_competition_judge(c.id)
+    )
+  );
+
+-- LEADERBOARD POLICIES
+-- Scores are now derived from judge scores, so clients may no longer write them
+DROP POLICY "Authenticated users can insert leaderboard entries" ON public.leaderboard;
+DROP POLICY "Authenticated users can update leaderboard entries" ON public.leaderboard;
+
+-- Dancers can submit their own videos, always starting from a zero score
+CREATE POLICY "Users can submit their own leaderboard entries"
+  ON public.leaderboard
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid()::text = user_id::text
+    AND score = 0
+    AND EXISTS (
+      SELECT 1
+      FROM public.videos v
+      WHERE v.id = video_id
+        AND v.user_id = auth.uid()
+    )
+  );
+
+-- ============================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================
+
+COMMENT ON TABLE public.competition_judges IS 'Users assigned to judge a competition';
+COMMENT ON TABLE public.rubric_criteria IS 'Weighted scoring criteria for a competition';
+COMMENT ON TABLE public.judge_scores IS 'Per-criterion scores given by a judge to a competition entry';
+
+COMMENT ON COLUMN public.leaderboard.score IS 'Weighted average of judge scores on a 0-100 scale (derived, not client-written)';
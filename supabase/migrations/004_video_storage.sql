@@ -0,0 +1,73 @@
+-- Dance Competition App - Video Storage
+-- This migration creates the storage bucket dancers upload their videos to
+-- and records where each uploaded video lives in storage
+
+-- ============================================
+-- STORAGE BUCKET
+-- ============================================
+-- Public bucket so feed players can stream videos without signed URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'videos',
+  'videos',
+  true,
+  524288000, -- 500 MB
+  ARRAY['video/mp4', 'video/quicktime', 'video/x-m4v']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================
+-- VIDEOS TABLE CHANGES
+-- ============================================
+-- Path of the uploaded object inside the videos bucket (NULL for external URLs)
+ALTER TABLE public.videos
+  ADD COLUMN storage_path TEXT;
+
+-- ============================================
+-- STORAGE POLICIES
+-- ============================================
+-- Objects are stored under a folder named after the uploader's user ID:
+-- videos/<user_id>/<file>
+
+-- Allow anyone to stream uploaded videos
+CREATE POLICY "Anyone can view uploaded videos"
+  ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'videos');
+
+-- Allow users to upload videos into their own folder
+CREATE POLICY "Users can upload videos to their own folder"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'videos'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Allow users to overwrite videos in their own folder (used when resuming uploads)
+CREATE POLICY "Users can update videos in their own folder"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'videos'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Allow users to delete videos in their own folder
+CREATE POLICY "Users can delete videos in their own folder"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'videos'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- ============================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================
+
+COMMENT ON COLUMN public.videos.video_url IS 'URL to the video file (external, or the public URL of an uploaded object)';
+COMMENT ON COLUMN public.videos.storage_path IS 'Object path in the videos storage bucket for uploaded videos';
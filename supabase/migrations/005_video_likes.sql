@@ -0,0 +1,97 @@
+-- Dance Competition App - Per-User Likes
+-- This migration tracks which users liked which videos and keeps
+-- videos.likes in sync through an atomic server-side toggle
+
+-- ============================================
+-- VIDEO LIKES TABLE
+-- ============================================
+-- One row per user per liked video
+CREATE TABLE public.video_likes (
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, video_id)
+);
+
+CREATE INDEX idx_video_likes_video_id ON public.video_likes(video_id);
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================
+
+ALTER TABLE public.video_likes ENABLE ROW LEVEL SECURITY;
+
+-- Users can see which videos they have liked
+-- Likes are only written through toggle_video_like()
+CREATE POLICY "Users can view their own likes"
+  ON public.video_likes
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid()::text = user_id::text);
+
+-- videos.likes is only written by toggle_video_like(), so users can only
+-- write the other fields of their videos
+REVOKE INSERT, UPDATE ON public.videos FROM authenticated;
+GRANT INSERT (title, description, video_url, thumbnail_url, user_id, views, storage_path)
+  ON public.videos TO authenticated;
+GRANT UPDATE (title, description, thumbnail_url, views) ON public.videos TO authenticated;
+
+-- ============================================
+-- FUNCTIONS
+-- ============================================
+
+-- Toggle the current user's like on a video and return the new state
+CREATE OR REPLACE FUNCTION public.toggle_video_like(target_video_id UUID)
+RETURNS TABLE (is_liked BOOLEAN, likes INTEGER) AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  changed_count INTEGER;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  DELETE FROM public.video_likes
+  WHERE user_id = current_user_id
+    AND video_id = target_video_id;
+
+  GET DIAGNOSTICS changed_count = ROW_COUNT;
+
+  IF changed_count > 0 THEN
+    is_liked := false;
+
+    UPDATE public.videos
+    SET likes = GREATEST(public.videos.likes - 1, 0)
+    WHERE id = target_video_id
+    RETURNING public.videos.likes INTO likes;
+  ELSE
+    -- Concurrent toggles for the same user resolve to a single like
+    INSERT INTO public.video_likes (user_id, video_id)
+    VALUES (current_user_id, target_video_id)
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS changed_count = ROW_COUNT;
+    is_liked := true;
+
+    UPDATE public.videos
+    SET likes = public.videos.likes + changed_count
+    WHERE id = target_video_id
+    RETURNING public.videos.likes INTO likes;
+  END IF;
+
+  IF likes IS NULL THEN
+    RAISE EXCEPTION 'Video % not found', target_video_id;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.toggle_video_like(UUID) TO authenticated;
+
+-- ============================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================
+
+COMMENT ON TABLE public.video_likes IS 'Videos liked by each user';
+COMMENT ON COLUMN public.videos.likes IS 'Number of likes, maintained by toggle_video_like()';
@@ -0,0 +1,124 @@
+-- Dance Competition App - View Events
+-- This migration replaces client-side view counting with an event log.
+-- Views are recorded through an RPC that only counts a view after a minimum
+-- watch threshold and at most once per user per video within a time window.
+
+-- ============================================
+-- VIDEO VIEWS TABLE
+-- ============================================
+-- One row per watch session, used for watch-time analytics
+CREATE TABLE public.video_views (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  watch_duration_ms INTEGER NOT NULL CHECK (watch_duration_ms >= 0),
+  completion_percentage NUMERIC(5, 2) NOT NULL
+    CHECK (completion_percentage >= 0 AND completion_percentage <= 100),
+  counted BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Add indexes for performance
+CREATE INDEX idx_video_views_video_id ON public.video_views(video_id);
+CREATE INDEX idx_video_views_dedupe
+  ON public.video_views(user_id, video_id, created_at DESC)
+  WHERE counted;
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================
+
+ALTER TABLE public.video_views ENABLE ROW LEVEL SECURITY;
+
+-- Users can see their own watch history
+-- View events are only written through record_video_view()
+CREATE POLICY "Users can view their own view events"
+  ON public.video_views
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid()::text = user_id::text);
+
+-- Video owners can see watch analytics for their videos
+CREATE POLICY "Video owners can view analytics for their videos"
+  ON public.video_views
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.videos v
+      WHERE v.id = video_id
+        AND v.user_id::text = auth.uid()::text
+    )
+  );
+
+-- videos.views is only written by record_video_view()
+REVOKE INSERT (views), UPDATE (views) ON public.videos FROM authenticated;
+
+-- ============================================
+-- FUNCTIONS
+-- ============================================
+
+-- Record a watch session and count it as a view when it qualifies:
+--   * watched for at least 3 seconds, or at least 50% of the clip, and
+--   * no counted view from the same user for the same video in the last 30 minutes
+CREATE OR REPLACE FUNCTION public.record_video_view(
+  target_video_id UUID,
+  watch_duration_ms INTEGER,
+  completion_percentage NUMERIC
+)
+RETURNS TABLE (counted BOOLEAN, views INTEGER) AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  min_watch_ms CONSTANT INTEGER := 3000;
+  min_completion CONSTANT NUMERIC := 50;
+  dedupe_window CONSTANT INTERVAL := INTERVAL '30 minutes';
+  clamped_completion NUMERIC := LEAST(GREATEST(completion_percentage, 0), 100);
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  counted := (watch_duration_ms >= min_watch_ms OR clamped_completion >= min_completion)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.video_views vv
+      WHERE vv.user_id = current_user_id
+        AND vv.video_id = target_video_id
+        AND vv.counted
+        AND vv.created_at > NOW() - dedupe_window
+    );
+
+  INSERT INTO public.video_views (
+    video_id,
+    user_id,
+    watch_duration_ms,
+    completion_percentage,
+    counted
+  )
+  VALUES (
+    target_video_id,
+    current_user_id,
+    GREATEST(watch_duration_ms, 0),
+    clamped_completion,
+    counted
+  );
+
+  -- Increment in a single statement so concurrent views are never lost
+  UPDATE public.videos
+  SET views = public.videos.views + (CASE WHEN counted THEN 1 ELSE 0 END)
+  WHERE id = target_video_id
+  RETURNING public.videos.views INTO views;
+
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.record_video_view(UUID, INTEGER, NUMERIC) TO authenticated;
+
+-- ============================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================
+
+COMMENT ON TABLE public.video_views IS 'Watch sessions with duration and completion, used for view counting and analytics';
+COMMENT ON COLUMN public.video_views.counted IS 'Whether the session incremented videos.views';
+COMMENT ON COLUMN public.videos.views IS 'Number of counted views, maintained by record_video_view()';
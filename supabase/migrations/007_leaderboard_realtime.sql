@@ -0,0 +1,13 @@
+-- Dance Competition App - Realtime Leaderboard
+-- This migration broadcasts leaderboard changes over Supabase Realtime
+-- so clients can patch rankings live instead of polling
+
+-- ============================================
+-- REALTIME PUBLICATION
+-- ============================================
+-- Publish inserts, updates and deletes on the leaderboard
+ALTER PUBLICATION supabase_realtime ADD TABLE public.leaderboard;
+
+-- Include the full old row in UPDATE/DELETE events so clients filtering
+-- by competition_id also receive deletions
+ALTER TABLE public.leaderboard REPLICA IDENTITY FULL;
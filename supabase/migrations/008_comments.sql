@@ -0,0 +1,162 @@
+-- Dance Competition App - Comments
+-- This migration adds comments on videos with one level of threaded replies.
+-- Comment and reply counts are maintained by triggers so the feed can show
+-- them without counting rows.
+
+-- ============================================
+-- COMMENTS TABLE
+-- ============================================
+-- Top-level comments have no parent; replies point at a top-level comment
+CREATE TABLE public.comments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 1000),
+  reply_count INTEGER NOT NULL DEFAULT 0 CHECK (reply_count >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Number of comments (including replies) on each video
+ALTER TABLE public.videos
+  ADD COLUMN comments_count INTEGER NOT NULL DEFAULT 0 CHECK (comments_count >= 0);
+
+-- Add indexes for performance
+CREATE INDEX idx_comments_video_thread
+  ON public.comments(video_id, created_at DESC, id DESC)
+  WHERE parent_id IS NULL;
+CREATE INDEX idx_comments_parent_id ON public.comments(parent_id, created_at, id);
+CREATE INDEX idx_comments_user_id ON public.comments(user_id);
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================
+
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+
+-- Anyone signed in can read comments
+CREATE POLICY "Comments are viewable by authenticated users"
+  ON public.comments
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Users can only comment as themselves
+CREATE POLICY "Users can create their own comments"
+  ON public.comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid()::text = user_id::text);
+
+-- Users can edit their own comments
+CREATE POLICY "Users can update their own comments"
+  ON public.comments
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid()::text = user_id::text)
+  WITH CHECK (auth.uid()::text = user_id::text);
+
+-- Users can delete their own comments
+CREATE POLICY "Users can delete their own comments"
+  ON public.comments
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid()::text = user_id::text);
+
+-- Only the body of a comment can be edited
+REVOKE UPDATE ON public.comments FROM authenticated;
+GRANT UPDATE (body) ON public.comments TO authenticated;
+
+-- videos.comments_count is only written by update_comment_counts(). Users
+-- only hold column grants on videos, so this stays out of their reach as
+-- long as no grant adds it
+REVOKE INSERT (comments_count), UPDATE (comments_count) ON public.videos FROM authenticated;
+
+-- ============================================
+-- FUNCTIONS AND TRIGGERS
+-- ============================================
+
+-- Validate a new comment: replies must belong to a top-level comment on the
+-- same video, and reply counts always start at zero
+CREATE OR REPLACE FUNCTION public.validate_new_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent RECORD;
+BEGIN
+  NEW.reply_count := 0;
+
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT video_id, parent_id INTO parent
+  FROM public.comments
+  WHERE id = NEW.parent_id;
+
+  IF NOT FOUND OR parent.video_id <> NEW.video_id OR parent.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Replies must belong to a top-level comment on the same video';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_new_comment_before_insert
+  BEFORE INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_new_comment();
+
+-- Keep videos.comments_count and comments.reply_count in sync
+CREATE OR REPLACE FUNCTION public.update_comment_counts()
+RETURNS TRIGGER AS $$
+DECLARE
+  delta INTEGER := CASE WHEN TG_OP = 'INSERT' THEN 1 ELSE -1 END;
+  target RECORD;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    target := NEW;
+  ELSE
+    target := OLD;
+  END IF;
+
+  UPDATE public.videos
+  SET comments_count = GREATEST(comments_count + delta, 0)
+  WHERE id = target.video_id;
+
+  IF target.parent_id IS NOT NULL THEN
+    UPDATE public.comments
+    SET reply_count = GREATEST(reply_count + delta, 0)
+    WHERE id = target.parent_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_comment_counts_after_insert
+  AFTER INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_comment_counts();
+
+CREATE TRIGGER update_comment_counts_after_delete
+  AFTER DELETE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_comment_counts();
+
+-- Trigger to update updated_at when a comment is edited
+-- (reply count changes don't count as edits)
+CREATE TRIGGER update_comments_updated_at
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW
+  WHEN (OLD.body IS DISTINCT FROM NEW.body)
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================
+
+COMMENT ON TABLE public.comments IS 'Comments on videos, with one level of threaded replies';
+COMMENT ON COLUMN public.comments.parent_id IS 'Top-level comment this is a reply to, or NULL for top-level comments';
+COMMENT ON COLUMN public.comments.reply_count IS 'Number of replies, maintained by update_comment_counts()';
+COMMENT ON COLUMN public.videos.comments_count IS 'Number of comments including replies, maintained by update_comment_counts()';
@@ -0,0 +1,19 @@
+-- Dance Competition App - User Profiles
+-- This migration adds a short bio to user profiles and indexes the
+-- per-user video grid shown on the profile screen
+
+-- ============================================
+-- USERS TABLE
+-- ============================================
+ALTER TABLE public.users
+  ADD COLUMN bio TEXT CHECK (char_length(bio) <= 160);
+
+-- Add indexes for performance
+CREATE INDEX idx_videos_user_created
+  ON public.videos(user_id, created_at DESC, id DESC);
+
+-- ============================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================
+
+COMMENT ON COLUMN public.users.bio IS 'Short profile bio shown on the profile screen (max 160 characters)';
@@ -0,0 +1,74 @@
+-- Dance Competition App - Avatars and Profile Editing
+-- This migration creates the storage bucket for profile pictures and
+-- validates usernames when profiles are edited
+
+-- ============================================
+-- STORAGE BUCKET
+-- ============================================
+-- Public bucket so avatars can be shown without signed URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'avatars',
+  'avatars',
+  true,
+  5242880, -- 5 MB
+  ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================
+-- USERS TABLE CHANGES
+-- ============================================
+-- Usernames are 3-30 letters, numbers or underscores.
+-- NOT VALID keeps existing rows while checking every new or edited username.
+ALTER TABLE public.users
+  ADD CONSTRAINT users_username_format
+  CHECK (username ~ '^[A-Za-z0-9_]{3,30}$') NOT VALID;
+
+-- ============================================
+-- STORAGE POLICIES
+-- ============================================
+-- Objects are stored under a folder named after the user's ID:
+-- avatars/<user_id>/<file>
+
+-- Allow anyone to view avatars
+CREATE POLICY "Anyone can view avatars"
+  ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'avatars');
+
+-- Allow users to upload avatars into their own folder
+CREATE POLICY "Users can upload avatars to their own folder"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Allow users to replace avatars in their own folder
+CREATE POLICY "Users can update avatars in their own folder"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Allow users to delete avatars in their own folder
+CREATE POLICY "Users can delete avatars in their own folder"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- ============================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================
+
+COMMENT ON COLUMN public.users.avatar_url IS 'Public URL of the profile picture, usually in the avatars bucket';
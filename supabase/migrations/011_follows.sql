@@ -0,0 +1,117 @@
+-- Dance Competition App - Follow Graph
+-- This migration lets users follow creators. Follower and following counts
+-- are maintained by triggers so profiles can show them without counting rows.
+
+-- ============================================
+-- FOLLOWS TABLE
+-- ============================================
+-- One row per follower per followed user
+CREATE TABLE public.follows (
+  follower_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  followee_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (follower_id, followee_id),
+  CHECK (follower_id <> followee_id)
+);
+
+-- Look up a user's followers
+CREATE INDEX idx_follows_followee_id ON public.follows(followee_id);
+
+-- Follower and following counts on each profile
+ALTER TABLE public.users
+  ADD COLUMN followers_count INTEGER NOT NULL DEFAULT 0 CHECK (followers_count >= 0),
+  ADD COLUMN following_count INTEGER NOT NULL DEFAULT 0 CHECK (following_count >= 0);
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================
+
+ALTER TABLE public.follows ENABLE ROW LEVEL SECURITY;
+
+-- The follow graph is public to signed in users
+CREATE POLICY "Follows are viewable by authenticated users"
+  ON public.follows
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Users can only follow as themselves
+CREATE POLICY "Users can follow other users"
+  ON public.follows
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid()::text = follower_id::text);
+
+-- Users can only remove their own follows
+CREATE POLICY "Users can unfollow users they follow"
+  ON public.follows
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid()::text = follower_id::text);
+
+-- Follow counts are only written by triggers, so users can only
+-- write their own profile fields
+REVOKE INSERT, UPDATE ON public.users FROM authenticated;
+GRANT INSERT (id, email, username, avatar_url, bio) ON public.users TO authenticated;
+GRANT UPDATE (username, avatar_url, bio) ON public.users TO authenticated;
+
+-- ============================================
+-- FUNCTIONS AND TRIGGERS
+-- ============================================
+
+-- Keep users.followers_count and users.following_count in sync
+CREATE OR REPLACE FUNCTION public.update_follow_counts()
+RETURNS TRIGGER AS $$
+DECLARE
+  delta INTEGER := CASE WHEN TG_OP = 'INSERT' THEN 1 ELSE -1 END;
+  target RECORD;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    target := NEW;
+  ELSE
+    target := OLD;
+  END IF;
+
+  UPDATE public.users
+  SET followers_count = GREATEST(followers_count + delta, 0)
+  WHERE id = target.followee_id;
+
+  UPDATE public.users
+  SET following_count = GREATEST(following_count + delta, 0)
+  WHERE id = target.follower_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_follow_counts_after_insert
+  AFTER INSERT ON public.follows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_follow_counts();
+
+CREATE TRIGGER update_follow_counts_after_delete
+  AFTER DELETE ON public.follows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_follow_counts();
+
+-- Videos by users the caller follows, for the Following feed. Joining
+-- follows here keeps the follow list out of the request however long it is;
+-- callers page, sort and embed with the usual query parameters.
+CREATE OR REPLACE FUNCTION public.followed_videos()
+RETURNS SETOF public.videos AS $$
+  SELECT v.*
+  FROM public.videos v
+  JOIN public.follows f ON f.followee_id = v.user_id
+  WHERE f.follower_id = auth.uid();
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.followed_videos() TO authenticated;
+
+-- ============================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================
+
+COMMENT ON TABLE public.follows IS 'Which users follow which creators';
+COMMENT ON COLUMN public.users.followers_count IS 'Number of followers, maintained by update_follow_counts()';
+COMMENT ON COLUMN public.users.following_count IS 'Number of users followed, maintained by update_follow_counts()';
+COMMENT ON FUNCTION public.followed_videos() IS 'Videos by users the current user follows';
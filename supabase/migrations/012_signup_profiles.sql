@@ -0,0 +1,69 @@
+-- Dance Competition App - Sign Up Profiles
+-- This migration creates the users profile row in the same transaction as
+-- the auth account, so a failed profile insert can no longer leave an
+-- orphaned auth user behind, and lets signed out clients check whether a
+-- username is free before signing up
+
+-- ============================================
+-- FUNCTIONS AND TRIGGERS
+-- ============================================
+
+-- Create the profile for a new auth user from the username passed to
+-- supabase.auth.signUp() in options.data. OAuth and magic link users have
+-- no username yet and pick one in the app, which inserts the row itself.
+CREATE OR REPLACE FUNCTION public.handle_new_auth_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  new_username TEXT := NULLIF(btrim(NEW.raw_user_meta_data->>'username'), '');
+BEGIN
+  IF new_username IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.users (id, email, username, avatar_url)
+    VALUES (
+      NEW.id,
+      NEW.email,
+      new_username,
+      NEW.raw_user_meta_data->>'avatar_url'
+    );
+  EXCEPTION
+    -- The username was taken between the availability check and sign up,
+    -- or is invalid. Keep the account; the app asks for another username.
+    WHEN unique_violation OR check_violation THEN
+      RETURN NEW;
+  END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_auth_user();
+
+-- Check whether a username is free. Profiles are only readable by signed
+-- in users, so this is the only way the sign up screen can check.
+CREATE OR REPLACE FUNCTION public.is_username_available(
+  p_username TEXT,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM public.users
+    WHERE username = btrim(p_username)
+      AND id IS DISTINCT FROM p_user_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.is_username_available(TEXT, UUID) TO anon, authenticated;
+
+-- ============================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================
+
+COMMENT ON FUNCTION public.handle_new_auth_user() IS 'Creates the users profile for a new auth user who signed up with a username';
+COMMENT ON FUNCTION public.is_username_available(TEXT, UUID) IS 'True if no user other than p_user_id has the username';
@@ -0,0 +1,154 @@
+-- Dance Competition App - Roles
+-- This migration gives every user a role (dancer, judge, moderator or admin)
+-- and uses it to decide who may judge, moderate and run competitions.
+-- Leaderboard scores can only be written by judges (through judge_scores),
+-- admins, or the database itself.
+
+-- ============================================
+-- USERS TABLE
+-- ============================================
+ALTER TABLE public.users
+  ADD COLUMN role TEXT NOT NULL DEFAULT 'dancer'
+    CHECK (role IN ('dancer', 'judge', 'moderator', 'admin'));
+
+CREATE INDEX idx_users_role ON public.users(role) WHERE role <> 'dancer';
+
+-- role is deliberately left out of the column grants from 011_follows.sql,
+-- so users cannot pick or change their own role. Use set_user_role().
+
+-- ============================================
+-- FUNCTIONS AND TRIGGERS
+-- ============================================
+
+-- Function to check whether the current user holds one of the given roles.
+-- Admins hold every role.
+CREATE OR REPLACE FUNCTION public.has_role(required_roles TEXT[])
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.users
+    WHERE id = auth.uid()
+      AND (role = 'admin' OR role = ANY(required_roles))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.has_role(TEXT[]) TO authenticated;
+
+-- Judges must now also hold the judge role; admins can judge any competition
+CREATE OR REPLACE FUNCTION public.is_competition_judge(target_competition_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.has_role(ARRAY['admin'])
+    OR (
+      public.has_role(ARRAY['judge'])
+      AND EXISTS (
+        SELECT 1
+        FROM public.competition_judges
+        WHERE competition_id = target_competition_id
+          AND user_id = auth.uid()
+      )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Let an admin change a user's role
+CREATE OR REPLACE FUNCTION public.set_user_role(target_user_id UUID, new_role TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.has_role(ARRAY['admin']) THEN
+    RAISE EXCEPTION 'Only admins can change roles'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.users
+  SET role = new_role
+  WHERE id = target_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.set_user_role(UUID, TEXT) TO authenticated;
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================
+
+-- LEADERBOARD POLICIES
+-- Clients can only insert (their own, zero-score entries). Scores are written
+-- by recalculate_entry_score() and admin corrections below.
+REVOKE UPDATE, DELETE ON public.leaderboard FROM authenticated;
+GRANT UPDATE (score), DELETE ON public.leaderboard TO authenticated;
+
+CREATE POLICY "Admins can correct leaderboard scores"
+  ON public.leaderboard
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role(ARRAY['admin']))
+  WITH CHECK (public.has_role(ARRAY['admin']));
+
+CREATE POLICY "Moderators can remove leaderboard entries"
+  ON public.leaderboard
+  FOR DELETE
+  TO authenticated
+  USING (public.has_role(ARRAY['moderator']));
+
+-- COMPETITION POLICIES
+-- Admins run competitions, including drafts
+CREATE POLICY "Admins can view all competitions"
+  ON public.competitions
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(ARRAY['admin']));
+
+CREATE POLICY "Admins can create competitions"
+  ON public.competitions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(ARRAY['admin']));
+
+CREATE POLICY "Admins can update competitions"
+  ON public.competitions
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role(ARRAY['admin']))
+  WITH CHECK (public.has_role(ARRAY['admin']));
+
+-- Admins assign judges, who must hold the judge role
+CREATE POLICY "Admins can assign judges"
+  ON public.competition_judges
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.has_role(ARRAY['admin'])
+    AND EXISTS (
+      SELECT 1
+      FROM public.users
+      WHERE id = user_id
+        AND role IN ('judge', 'admin')
+    )
+  );
+
+CREATE POLICY "Admins can unassign judges"
+  ON public.competition_judges
+  FOR DELETE
+  TO authenticated
+  USING (public.has_role(ARRAY['admin']));
+
+-- MODERATION POLICIES
+-- Moderators can take down any video or comment
+CREATE POLICY "Moderators can delete any video"
+  ON public.videos
+  FOR DELETE
+  TO authenticated
+  USING (public.has_role(ARRAY['moderator']));
+
+CREATE POLICY "Moderators can delete any comment"
+  ON public.comments
+  FOR DELETE
+  TO authenticated
+  USING (public.has_role(ARRAY['moderator']));
+
+-- ============================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================
+
+COMMENT ON COLUMN public.users.role IS 'dancer, judge, moderator or admin; only changed through set_user_role()';
+COMMENT ON FUNCTION public.has_role(TEXT[]) IS 'True if the current user holds one of the roles (admins hold every role)';
+COMMENT ON FUNCTION public.set_user_role(UUID, TEXT) IS 'Changes a user''s role; admins only';
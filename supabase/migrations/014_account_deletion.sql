@@ -0,0 +1,70 @@
+-- Dance Competition App - Account Deletion
+-- This migration lets users schedule their account for deletion after a
+-- 30 day grace period and ties profiles to their auth account, so deleting
+-- the auth user cascades through users -> videos -> leaderboard and every
+-- other table that references them. The purge-deleted-accounts Edge
+-- Function removes storage objects and deletes the auth users once the
+-- grace period is over.
+
+-- ============================================
+-- USERS TABLE
+-- ============================================
+ALTER TABLE public.users
+  ADD COLUMN deletion_scheduled_for TIMESTAMP WITH TIME ZONE;
+
+-- NOT VALID so profiles created before auth accounts were required are kept
+ALTER TABLE public.users
+  ADD CONSTRAINT users_id_auth_fkey
+  FOREIGN KEY (id) REFERENCES auth.users(id) ON DELETE CASCADE NOT VALID;
+
+-- Add indexes for performance
+CREATE INDEX idx_users_deletion_scheduled_for
+  ON public.users(deletion_scheduled_for)
+  WHERE deletion_scheduled_for IS NOT NULL;
+
+-- deletion_scheduled_for is left out of the column grants from
+-- 011_follows.sql; it is only written by the functions below
+
+-- ============================================
+-- FUNCTIONS AND TRIGGERS
+-- ============================================
+
+-- Schedule the current user's account for deletion
+CREATE OR REPLACE FUNCTION public.request_account_deletion()
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  scheduled_for TIMESTAMP WITH TIME ZONE;
+BEGIN
+  UPDATE public.users
+  SET deletion_scheduled_for = COALESCE(deletion_scheduled_for, NOW() + INTERVAL '30 days')
+  WHERE id = auth.uid()
+  RETURNING deletion_scheduled_for INTO scheduled_for;
+
+  IF scheduled_for IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  RETURN scheduled_for;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Keep the current user's account
+CREATE OR REPLACE FUNCTION public.cancel_account_deletion()
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.users
+  SET deletion_scheduled_for = NULL
+  WHERE id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.request_account_deletion() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_account_deletion() TO authenticated;
+
+-- ============================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================
+
+COMMENT ON COLUMN public.users.deletion_scheduled_for IS 'When the account will be purged; NULL unless the user asked to delete it';
+COMMENT ON FUNCTION public.request_account_deletion() IS 'Schedules the current user''s account for deletion in 30 days';
+COMMENT ON FUNCTION public.cancel_account_deletion() IS 'Cancels a scheduled deletion of the current user''s account';
@@ -0,0 +1,62 @@
+-- Dance Competition App - Idempotent Likes
+-- This migration adds set_video_like(), which sets rather than flips the
+-- current user's like. Likes made offline are replayed from the app's
+-- outbox, and a replayed request whose first attempt did reach the server
+-- must not undo it.
+
+-- ============================================
+-- FUNCTIONS
+-- ============================================
+
+-- Like or unlike a video for the current user and return the new state
+CREATE OR REPLACE FUNCTION public.set_video_like(target_video_id UUID, liked BOOLEAN)
+RETURNS TABLE (is_liked BOOLEAN, likes INTEGER) AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  changed_count INTEGER;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF liked THEN
+    INSERT INTO public.video_likes (user_id, video_id)
+    VALUES (current_user_id, target_video_id)
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS changed_count = ROW_COUNT;
+
+    UPDATE public.videos
+    SET likes = public.videos.likes + changed_count
+    WHERE id = target_video_id
+    RETURNING public.videos.likes INTO likes;
+  ELSE
+    DELETE FROM public.video_likes
+    WHERE user_id = current_user_id
+      AND video_id = target_video_id;
+
+    GET DIAGNOSTICS changed_count = ROW_COUNT;
+
+    UPDATE public.videos
+    SET likes = GREATEST(public.videos.likes - changed_count, 0)
+    WHERE id = target_video_id
+    RETURNING public.videos.likes INTO likes;
+  END IF;
+
+  IF likes IS NULL THEN
+    RAISE EXCEPTION 'Video % not found', target_video_id;
+  END IF;
+
+  is_liked := liked;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.set_video_like(UUID, BOOLEAN) TO authenticated;
+
+-- ============================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================
+
+COMMENT ON FUNCTION public.set_video_like(UUID, BOOLEAN) IS 'Likes or unlikes a video for the current user; safe to repeat';
+COMMENT ON COLUMN public.videos.likes IS 'Number of likes, maintained by toggle_video_like() and set_video_like()';
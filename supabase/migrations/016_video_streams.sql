@@ -0,0 +1,23 @@
+-- Dance Competition App - Adaptive Streaming
+-- This migration adds HLS streams to videos. stream_url is the master
+-- manifest, which lets the player switch quality as bandwidth changes, and
+-- renditions lists the media playlist of each quality so the app can pin
+-- one. Videos without a manifest keep playing the MP4 in video_url.
+
+-- ============================================
+-- VIDEOS TABLE
+-- ============================================
+ALTER TABLE public.videos
+  ADD COLUMN stream_url TEXT,
+  ADD COLUMN renditions JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Each rendition is an object like {"height": 720, "bitrate": 2500000, "url": "https://…/720p.m3u8"}
+ALTER TABLE public.videos
+  ADD CONSTRAINT videos_renditions_array CHECK (jsonb_typeof(renditions) = 'array');
+
+-- ============================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================
+
+COMMENT ON COLUMN public.videos.stream_url IS 'HLS master manifest; NULL when only the MP4 in video_url exists';
+COMMENT ON COLUMN public.videos.renditions IS 'HLS media playlists by quality: [{height, bitrate, url}]';
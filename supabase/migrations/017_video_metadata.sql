@@ -0,0 +1,119 @@
+-- Dance Competition App - Video Metadata
+-- This migration stores each video's duration, resolution, container
+-- format and file size, and lets competitions cap the length of entries.
+-- The app fills the metadata in at upload time; videos uploaded before
+-- this migration, or added by URL, get their duration and resolution when
+-- their owner first plays them.
+
+-- ============================================
+-- VIDEOS TABLE
+-- ============================================
+ALTER TABLE public.videos
+  ADD COLUMN duration_ms INTEGER CHECK (duration_ms > 0),
+  ADD COLUMN width INTEGER CHECK (width > 0),
+  ADD COLUMN height INTEGER CHECK (height > 0),
+  ADD COLUMN format TEXT,
+  ADD COLUMN size_bytes BIGINT CHECK (size_bytes >= 0);
+
+-- Metadata can only be set when a video is uploaded; afterwards only
+-- record_video_metadata() fills in missing values, so an owner cannot
+-- shorten a clip that is already entered in a competition
+GRANT INSERT (duration_ms, width, height, format, size_bytes) ON public.videos TO authenticated;
+
+-- Add indexes for performance
+CREATE INDEX idx_videos_duration_ms
+  ON public.videos(duration_ms, id)
+  WHERE duration_ms IS NOT NULL;
+
+-- ============================================
+-- COMPETITIONS TABLE
+-- ============================================
+ALTER TABLE public.competitions
+  ADD COLUMN max_duration_seconds INTEGER CHECK (max_duration_seconds > 0);
+
+-- ============================================
+-- FUNCTIONS AND TRIGGERS
+-- ============================================
+
+-- Function to reject entries longer than the competition allows, or of unknown length
+CREATE OR REPLACE FUNCTION enforce_competition_max_duration()
+RETURNS TRIGGER AS $$
+DECLARE
+  max_duration INTEGER;
+  video_duration INTEGER;
+BEGIN
+  IF NEW.competition_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT max_duration_seconds
+  INTO max_duration
+  FROM public.competitions
+  WHERE id = NEW.competition_id;
+
+  SELECT duration_ms
+  INTO video_duration
+  FROM public.videos
+  WHERE id = NEW.video_id;
+
+  IF max_duration IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- A clip of unknown length cannot be shown to fit the limit
+  IF video_duration IS NULL THEN
+    RAISE EXCEPTION 'Video length is needed to enter this competition'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF video_duration > max_duration * 1000 THEN
+    RAISE EXCEPTION 'Video is longer than this competition allows'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to validate the clip length before an entry is created
+CREATE TRIGGER enforce_max_duration_before_insert
+  BEFORE INSERT ON public.leaderboard
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_competition_max_duration();
+
+-- Fill in the duration and resolution of the caller's own video read by a player
+CREATE OR REPLACE FUNCTION public.record_video_metadata(
+  target_video_id UUID,
+  p_duration_ms INTEGER,
+  p_width INTEGER,
+  p_height INTEGER
+)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Only missing values are filled in; metadata from the upload is kept
+  UPDATE public.videos
+  SET duration_ms = COALESCE(duration_ms, NULLIF(p_duration_ms, 0)),
+      width = COALESCE(width, NULLIF(p_width, 0)),
+      height = COALESCE(height, NULLIF(p_height, 0))
+  WHERE id = target_video_id
+    AND user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.record_video_metadata(UUID, INTEGER, INTEGER, INTEGER) TO authenticated;
+
+-- ============================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================
+
+COMMENT ON COLUMN public.videos.duration_ms IS 'Length of the video in milliseconds';
+COMMENT ON COLUMN public.videos.width IS 'Width of the video in pixels';
+COMMENT ON COLUMN public.videos.height IS 'Height of the video in pixels';
+COMMENT ON COLUMN public.videos.format IS 'Container format of the uploaded file, e.g. mp4 or mov';
+COMMENT ON COLUMN public.videos.size_bytes IS 'Size of the uploaded file in bytes';
+COMMENT ON COLUMN public.competitions.max_duration_seconds IS 'Longest clip accepted as an entry; NULL for no limit';
+COMMENT ON FUNCTION public.record_video_metadata(UUID, INTEGER, INTEGER, INTEGER) IS 'Fills in missing duration and resolution of the caller''s own video, as reported by a player';
@@ -0,0 +1,66 @@
+-- Dance Competition App - Video Thumbnails
+-- This migration creates the storage bucket for thumbnails generated from
+-- a frame the dancer picks at upload. They are shown as the player's
+-- poster while a video loads, in profile grids and on the leaderboard.
+
+-- ============================================
+-- STORAGE BUCKET
+-- ============================================
+-- Public bucket so thumbnails can be shown without signed URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'thumbnails',
+  'thumbnails',
+  true,
+  2097152, -- 2 MB
+  ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================
+-- STORAGE POLICIES
+-- ============================================
+-- Objects are stored under a folder named after the uploader's user ID:
+-- thumbnails/<user_id>/<file>
+
+-- Allow anyone to view thumbnails
+CREATE POLICY "Anyone can view thumbnails"
+  ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'thumbnails');
+
+-- Allow users to upload thumbnails into their own folder
+CREATE POLICY "Users can upload thumbnails to their own folder"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'thumbnails'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Allow users to replace thumbnails in their own folder
+CREATE POLICY "Users can update thumbnails in their own folder"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'thumbnails'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Allow users to delete thumbnails in their own folder
+CREATE POLICY "Users can delete thumbnails in their own folder"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'thumbnails'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- ============================================
+-- COMMENTS FOR DOCUMENTATION
+-- ============================================
+
+COMMENT ON COLUMN public.videos.thumbnail_url IS 'Public URL of the poster image, usually a frame saved to the thumbnails bucket at upload';